@@ -1,459 +1,1882 @@
 #!/usr/bin/env node
 
-import { spawn } from "child_process";
-import { logger } from "./utils/logger";
 import fs from "fs";
 import path from "path";
+import { randomBytes } from "crypto";
+import { logger } from "./utils/logger";
+import { withBrowserSession } from "./utils/browser";
+import {
+  executeMultiTimeframeAutomation,
+  MultiTimeframeResult,
+} from "./features/web-automation";
+import {
+  executeVisionAnalysis,
+  VisionAnalysisResult,
+  TradingVerdict,
+} from "./features/vision-analysis";
+import { createCycleJournal, CycleJournal } from "./features/cycle-journal";
+import {
+  CostLedger,
+  createCostLedger,
+  planCycleBudget,
+} from "./features/cost-ledger";
+import { COMMITTEE_RULES, CommitteeRule } from "./features/verdict-committee";
+import {
+  DEFAULT_HISTORY_DEPTH,
+  readVerdictHistory,
+} from "./features/verdict-history";
+import {
+  ScheduleSpec,
+  findBlackout,
+  getNextAllowedRun,
+  getUpcomingRuns,
+  parseBlackoutWindow,
+  parseTimeWindow,
+  validateCandleAlignment,
+  validateScheduleSpec,
+} from "./features/schedule";
+import {
+  ConcurrencyLimiter,
+  TimeoutError,
+  anySignal,
+  createConcurrencyLimiter,
+  sleep,
+  withDeadline,
+} from "./utils/async";
+import { killTrackedChildProcesses } from "./utils/child-processes";
+import { pruneCycleArtifacts } from "./utils/artifact-retention";
+import { WatchlistEntry, parseWatchlist } from "./config/markets";
+import {
+  LaneHandle,
+  TraderControl,
+  createTraderControl,
+} from "./features/trader-control";
+import { attachControlInputs } from "./features/control-inputs";
+import {
+  ControlServer,
+  DEFAULT_CONTROL_HOST,
+  startControlServer,
+} from "./features/control-server";
+import {
+  getProviderSetupError,
+  parseModelSpec,
+} from "./features/vision-provider";
+import { ConfigReloader, createConfigReloader } from "./config/config-reloader";
+import {
+  AutoTraderConfig,
+  CandleAlignment,
+  ChartCaptureConfig,
+  DEFAULT_CANDLE_SETTLE_SECONDS,
+  DEFAULT_CONFIG,
+  DEFAULT_CONFIG_PATH,
+  applyFileConfig,
+  loadConfigFile,
+} from "./config/auto-trader-config";
+import {
+  FailureDecision,
+  FailureDetails,
+  classifyFailure,
+  getBackoffDelay,
+} from "./utils/failures";
+import {
+  getCandleCloseAtOrAfter,
+  getNearestCandleClose,
+  timeframeToMinutes,
+} from "./utils/timeframes";
+import {
+  createShutdownController,
+  cleanupResources,
+  ShutdownController,
+} from "./utils/shutdown";
+import {
+  CropConfig,
+  CROP_PRESETS,
+  getCropPreset,
+  parseCropConfig,
+} from "./utils/image-cropping";
 
 /**
- * Configuration for the auto trader
+ * Everything a single cycle needs to run and report progress
  */
-interface AutoTraderConfig {
-  intervalMinutes: number;
-  chartCaptureArgs: string[];
-  visionAiArgs: string[];
-  maxRetries: number;
-  retryDelayMs: number;
+export interface CycleContext {
+  config: AutoTraderConfig;
+  cycleNumber: number;
+  cycleId: string;
+  journal: CycleJournal;
+  stopSignal?: AbortSignal;
+  costLedger?: CostLedger;
 }
 
 /**
- * Default configuration
+ * Outcome of a single analysis cycle
  */
-const DEFAULT_CONFIG: AutoTraderConfig = {
-  intervalMinutes: 13,
-  chartCaptureArgs: [
-    "--method",
-    "localStorage",
-    "--multi-timeframe",
-    "--timeframes",
-    "5m,15m,1h,2h,6h",
-    "--crop-screenshots", // Enable cropping by default for better AI analysis
-  ],
-  visionAiArgs: [],
-  maxRetries: 3,
-  retryDelayMs: 30000, // 30 seconds
-};
+export interface CycleResult {
+  success: boolean;
+  stopped?: boolean; // Cut short by a shutdown request rather than a failure
+  fatal?: boolean; // Failed in a way that retrying cannot fix
+  spendCapReached?: boolean; // A spend cap refused a model call partway through
+  timedOut?: boolean; // A step missed its watchdog deadline
+  cycleId: string;
+  capture?: MultiTimeframeResult;
+  analysis?: VisionAnalysisResult;
+  verdict?: TradingVerdict; // Read back from this cycle's own analysis artifact
+  error?: string;
+}
 
 /**
- * Execute a command and return a promise
+ * Runs one analysis cycle; tests swap in a fake pipeline
  */
-function executeCommand(
-  command: string,
-  args: string[] = []
-): Promise<{ success: boolean; output: string }> {
-  return new Promise((resolve) => {
-    logger.info(`🔄 Executing: ${command} ${args.join(" ")}`);
+export type CycleRunner = (context: CycleContext) => Promise<CycleResult>;
 
-    const child = spawn(command, args, {
-      stdio: "pipe",
-      shell: true,
-    });
-
-    let output = "";
-    let errorOutput = "";
-
-    child.stdout?.on("data", (data) => {
-      const text = data.toString();
-      output += text;
-      // Log real-time output but suppress excessive noise
-      const lines = text
-        .trim()
-        .split("\n")
-        .filter((line: string) => line.trim());
-      lines.forEach((line: string) => {
-        if (!line.includes("npm WARN") && !line.includes("deprecated")) {
-          logger.info(`  ${line}`);
-        }
-      });
-    });
+/**
+ * Optional hooks for embedding the auto trader
+ */
+export interface RunAutoTraderOptions {
+  runCycle?: CycleRunner;
+  control?: TraderControl; // Shared with control inputs attached by the caller
+  configReloader?: ConfigReloader; // Applies config file edits between cycles
+  onControlApi?: (server: ControlServer) => void;
+}
 
-    child.stderr?.on("data", (data) => {
-      const text = data.toString();
-      errorOutput += text;
-      // Only log actual errors, not warnings
-      if (text.includes("error") || text.includes("Error")) {
-        logger.error(`  ${text.trim()}`);
-      }
-    });
+/**
+ * Shared plumbing handed to every trading loop
+ */
+interface TradingLoopOptions {
+  control: TraderControl;
+  stopSignal: AbortSignal;
+  runCycle: CycleRunner;
+  configReloader: ConfigReloader;
+  shutdown?: ShutdownController;
+  limiter?: ConcurrencyLimiter; // Pipeline slots shared across watchlist symbols
+  watchlistEntry?: WatchlistEntry; // Set when this loop runs one watchlist symbol
+  costLedger?: CostLedger; // Shared by all symbols so the caps cover total spend
+}
 
-    child.on("close", (code) => {
-      const success = code === 0;
-      if (success) {
-        logger.success(`✅ Command completed successfully`);
-      } else {
-        logger.error(`❌ Command failed with exit code ${code}`);
-        if (errorOutput) {
-          logger.error(`Error output: ${errorOutput.trim()}`);
-        }
-      }
+/**
+ * What a trading loop shares with its waits and schedule updates
+ */
+interface LoopContext {
+  journal: CycleJournal;
+  control: TraderControl;
+  lane: LaneHandle;
+  stopSignal?: AbortSignal;
+}
 
-      resolve({
-        success,
-        output: output + errorOutput,
-      });
-    });
+/**
+ * Retry settings shared by all pipeline steps
+ */
+type RetryPolicy = Pick<
+  AutoTraderConfig,
+  "maxRetries" | "retryDelayMs" | "maxRetryDelayMs"
+>;
 
-    child.on("error", (error) => {
-      logger.error(`❌ Command execution error: ${error.message}`);
-      resolve({
-        success: false,
-        output: error.message,
-      });
-    });
-  });
+/**
+ * Final result of a retried step, with the classification of its last failure
+ */
+interface RetryOutcome<T> {
+  result: T;
+  failure?: FailureDecision;
 }
 
 /**
- * Execute command with retry logic
+ * Execute a pipeline step, retrying according to how each failure is classified
  */
-async function executeWithRetry(
-  command: string,
-  args: string[],
-  maxRetries: number,
-  retryDelay: number
-): Promise<boolean> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    logger.info(`📋 Attempt ${attempt}/${maxRetries}`);
+async function executeWithRetry<
+  T extends { success: boolean } & FailureDetails
+>(
+  task: () => Promise<T>,
+  policy: RetryPolicy,
+  stopSignal?: AbortSignal,
+  deadlineSignal?: AbortSignal
+): Promise<RetryOutcome<T>> {
+  const { maxRetries } = policy;
+  let result = await runAttempt(task, 1, maxRetries);
+
+  for (let attempt = 1; !result.success; attempt++) {
+    const failure = classifyFailure(result);
+
+    if (failure.failureClass === "fatal") {
+      logger.error(`🛑 Fatal failure (${failure.reason}), not retrying`);
+      return { result, failure };
+    }
+
+    if (failure.failureClass === "budget") {
+      logger.error(`🚨 BUDGET ALERT: ${result.error}, not retrying`);
+      return { result, failure };
+    }
+
+    if (attempt >= maxRetries) {
+      logger.error(`❌ Failed after ${maxRetries} attempts`);
+      return { result, failure };
+    }
 
-    const result = await executeCommand(command, args);
+    if (stopSignal?.aborted) {
+      logger.warn(`🛑 Shutdown requested, not retrying`);
+      return { result, failure };
+    }
 
-    if (result.success) {
-      return true;
+    if (deadlineSignal?.aborted) {
+      return { result, failure };
     }
 
-    if (attempt < maxRetries) {
-      logger.warn(`⏳ Retrying in ${retryDelay / 1000} seconds...`);
-      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    const backoffMs = getBackoffDelay(
+      attempt,
+      policy.retryDelayMs,
+      policy.maxRetryDelayMs
+    );
+    const delayMs =
+      failure.failureClass === "rate_limited" &&
+      failure.retryAfterMs !== undefined
+        ? failure.retryAfterMs
+        : backoffMs;
+
+    logger.warn(
+      `⏳ ${
+        failure.failureClass === "rate_limited"
+          ? "Rate limited"
+          : "Transient failure"
+      } (${failure.reason}), retrying in ${Math.round(delayMs / 1000)} seconds${
+        failure.failureClass === "rate_limited" &&
+        failure.retryAfterMs !== undefined
+          ? " as requested by Retry-After"
+          : " (exponential backoff)"
+      }...`
+    );
+    await sleep(delayMs, anySignal(stopSignal, deadlineSignal));
+    if (stopSignal?.aborted) {
+      logger.warn(`🛑 Shutdown requested, not retrying`);
+      return { result, failure };
+    }
+    if (deadlineSignal?.aborted) {
+      return { result, failure };
     }
+
+    result = await runAttempt(task, attempt + 1, maxRetries);
   }
 
-  logger.error(`❌ Failed after ${maxRetries} attempts`);
-  return false;
+  return { result };
 }
 
 /**
- * Wait for specified number of minutes
+ * Run one attempt of a pipeline step and log its outcome
  */
-async function waitMinutes(minutes: number): Promise<void> {
-  const ms = minutes * 60 * 1000;
-  logger.info(`⏰ Waiting ${minutes} minutes until next analysis...`);
-
-  // Show countdown every minute
-  for (let i = minutes; i > 0; i--) {
-    if (i <= 5 || i % 5 === 0) {
-      logger.info(`⏳ ${i} minute${i !== 1 ? "s" : ""} remaining...`);
-    }
-    await new Promise((resolve) => setTimeout(resolve, 60000)); // 1 minute
+async function runAttempt<T extends { success: boolean } & FailureDetails>(
+  task: () => Promise<T>,
+  attempt: number,
+  maxRetries: number
+): Promise<T> {
+  logger.info(`📋 Attempt ${attempt}/${maxRetries}`);
+
+  const result = await task();
+
+  if (result.success) {
+    logger.success(`✅ Step completed successfully`);
+  } else {
+    logger.error(`❌ Step failed: ${result.error ?? "unknown error"}`);
   }
 
-  logger.info(`🚀 Starting next analysis cycle...`);
+  return result;
 }
 
 /**
- * Extract next check interval from analysis results
+ * Capture chart screenshots for all configured timeframes
  */
-function extractNextCheckInterval(defaultInterval: number): number {
-  const analysisDir = "analysis-results";
-  const MIN_INTERVAL = 2;
-  const MAX_INTERVAL = 60;
-
+async function captureCharts(
+  capture: ChartCaptureConfig,
+  cycleId: string,
+  signal?: AbortSignal
+): Promise<MultiTimeframeResult> {
   try {
-    // Find the most recent analysis file
-    if (!fs.existsSync(analysisDir)) {
-      logger.warn(`⚠️  Analysis directory not found: ${analysisDir}`);
-      return defaultInterval;
+    return await withBrowserSession(
+      (session) =>
+        executeMultiTimeframeAutomation(session, {
+          url: capture.url,
+          waitTime: capture.waitTime,
+          timeframes: capture.timeframes,
+          cropScreenshots: capture.cropScreenshots,
+          ...(capture.cropConfig && { cropConfig: capture.cropConfig }),
+          ...(capture.symbol && { symbol: capture.symbol }),
+          ...(capture.screenshotsDir && {
+            screenshotsDir: capture.screenshotsDir,
+          }),
+          ...(signal && { signal }),
+          cycleId,
+          // Shutdown is coordinated by the auto trader, not by Playwright
+          browserConfig: { handleSignals: false },
+        }),
+      { headless: true, handleSignals: false }
+    );
+  } catch (error) {
+    return {
+      success: false,
+      results: [],
+      totalScreenshots: 0,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Wait until the given time, showing a countdown every minute
+ * A run-now after `runNowSince` (default: the start of the wait) ends it.
+ */
+async function waitUntil(
+  target: Date,
+  stopSignal?: AbortSignal,
+  control?: TraderControl,
+  runNowSince?: number
+): Promise<void> {
+  const runNowGeneration = runNowSince ?? control?.runNowGeneration();
+  let announcedPause = false;
+
+  while (!stopSignal?.aborted) {
+    // A run-now request skips the rest of the wait, even while paused
+    if (control && control.runNowGeneration() !== runNowGeneration) {
+      break;
     }
 
-    const files = fs
-      .readdirSync(analysisDir)
-      .filter((file) => file.startsWith("analysis-") && file.endsWith(".json"))
-      .sort()
-      .reverse(); // Most recent first
+    // Control commands wake the sleep up so they take effect immediately
+    const wakeSignal = anySignal(stopSignal, control?.changeSignal());
 
-    if (files.length === 0) {
-      logger.warn(`⚠️  No analysis files found in ${analysisDir}`);
-      return defaultInterval;
+    if (control?.isPaused()) {
+      if (!announcedPause) {
+        logger.info(`⏸️  Paused, waiting for resume or run-now...`);
+        announcedPause = true;
+      }
+      await sleep(60000, wakeSignal);
+      continue;
     }
+    announcedPause = false;
 
-    const latestFilename = files[0];
-    if (!latestFilename) {
-      logger.warn(`⚠️  No analysis files found in ${analysisDir}`);
-      return defaultInterval;
+    const remainingMs = target.getTime() - Date.now();
+    if (remainingMs <= 0) {
+      break;
     }
 
-    const latestFile = path.join(analysisDir, latestFilename);
-    const analysisData = JSON.parse(fs.readFileSync(latestFile, "utf8"));
+    const minutesLeft = Math.ceil(remainingMs / 60000);
+    if (minutesLeft <= 5 || minutesLeft % 5 === 0) {
+      logger.info(
+        `⏳ ${minutesLeft} minute${minutesLeft !== 1 ? "s" : ""} remaining...`
+      );
+    }
 
-    const nextCheckMinutes =
-      analysisData?.analysisData?.finalVerdict?.nextCheckMinutes;
+    // Sleep to the next whole minute boundary of the countdown
+    const sleepMs = remainingMs % 60000 || 60000;
+    await sleep(sleepMs, wakeSignal);
+  }
 
-    if (typeof nextCheckMinutes === "number") {
-      // Apply bounds checking
-      const boundedInterval = Math.max(
-        MIN_INTERVAL,
-        Math.min(MAX_INTERVAL, nextCheckMinutes)
-      );
+  if (stopSignal?.aborted) {
+    return;
+  }
 
-      if (boundedInterval !== nextCheckMinutes) {
-        logger.warn(
-          `⚠️  AI recommended ${nextCheckMinutes} minutes, bounded to ${boundedInterval} minutes`
-        );
-      }
+  logger.info(`🚀 Starting next analysis cycle...`);
+}
 
-      logger.info(
-        `🤖 AI recommends next check in ${boundedInterval} minutes (was ${defaultInterval} minutes)`
-      );
-      return boundedInterval;
-    } else {
-      logger.warn(`⚠️  Invalid nextCheckMinutes value: ${nextCheckMinutes}`);
-      return defaultInterval;
-    }
-  } catch (error) {
-    logger.error(
-      `❌ Error extracting next check interval: ${(error as Error).message}`
+/**
+ * Round the desired start to a candle close that has not yet settled
+ */
+function alignToCandleClose(desired: Date, alignment: CandleAlignment): Date {
+  const settleMs = alignment.settleSeconds * 1000;
+  let close = getNearestCandleClose(desired, alignment.timeframe);
+
+  // Never pick a close whose settle delay has already passed
+  while (close.getTime() + settleMs <= Date.now()) {
+    close = getCandleCloseAtOrAfter(
+      new Date(close.getTime() + 1),
+      alignment.timeframe
+    );
+  }
+
+  return close;
+}
+
+/**
+ * Work out when the next cycle should start, snapping to candle closes and the schedule if set
+ */
+function planNextRun(minutes: number, config: AutoTraderConfig): Date {
+  const { schedule, candleAlignment } = config;
+  const desired = new Date(Date.now() + minutes * 60 * 1000);
+
+  if (!schedule && !candleAlignment) {
+    return desired;
+  }
+
+  const aligned = candleAlignment
+    ? alignToCandleClose(desired, candleAlignment)
+    : desired;
+  let nextRunAt = aligned;
+
+  if (schedule) {
+    // A schedule slot in the middle of a candle does not count
+    nextRunAt = getNextAllowedRun(
+      schedule,
+      aligned,
+      candleAlignment?.timeframe
+    );
+  }
+
+  if (schedule && nextRunAt.getTime() !== aligned.getTime()) {
+    const blackout = findBlackout(schedule, aligned);
+    logger.info(
+      `📅 Snapped next run from ${formatUtcTime(aligned)} to ${formatUtcTime(
+        nextRunAt
+      )}${
+        blackout
+          ? ` (blackout${blackout.reason ? `: ${blackout.reason}` : ""})`
+          : ""
+      }`
+    );
+  }
+
+  if (candleAlignment) {
+    logger.info(
+      `🕯️  Aligned next run to the ${
+        candleAlignment.timeframe
+      } candle close at ${formatUtcTime(nextRunAt)} (+${
+        candleAlignment.settleSeconds
+      }s settle)`
+    );
+    nextRunAt = new Date(
+      nextRunAt.getTime() + candleAlignment.settleSeconds * 1000
+    );
+  }
+
+  return nextRunAt;
+}
+
+/**
+ * Format a date as a compact UTC timestamp for schedule logging
+ */
+function formatUtcTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Record the next scheduled run in the journal and wait for it
+ */
+async function scheduleNextCycle(
+  loop: LoopContext,
+  nextCycleNumber: number,
+  nextRunAt: Date,
+  reason: "interval" | "retry" | "error" | "schedule" | "budget"
+): Promise<void> {
+  const minutes = Math.max(
+    0,
+    Math.round((nextRunAt.getTime() - Date.now()) / 60000)
+  );
+  loop.journal.append({
+    type: "scheduled",
+    nextCycleNumber,
+    nextRunAt: nextRunAt.toISOString(),
+    reason,
+  });
+  loop.lane.update({ state: "waiting", nextRunAt: nextRunAt.toISOString() });
+
+  logger.info(
+    `⏰ Waiting ${minutes} minutes until next analysis (${nextRunAt.toLocaleTimeString()})...`
+  );
+  await waitUntil(nextRunAt, loop.stopSignal, loop.control);
+  loop.lane.clear("nextRunAt");
+}
+
+/**
+ * Generate a unique ID used to stamp every artifact of a cycle
+ */
+function generateCycleId(cycleNumber: number, symbol?: string): string {
+  const timestamp = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+  const symbolPart = symbol ? `-${symbol.toLowerCase()}` : "";
+  return `${timestamp}${symbolPart}-c${cycleNumber}-${randomBytes(3).toString(
+    "hex"
+  )}`;
+}
+
+/**
+ * Read the final verdict from the analysis artifact written by this cycle
+ */
+function readCycleVerdict(
+  cycleId: string,
+  analysis: VisionAnalysisResult
+): TradingVerdict {
+  const artifactPath = analysis.savedFiles?.json;
+
+  if (!artifactPath || !fs.existsSync(artifactPath)) {
+    throw new Error(
+      `Analysis artifact for cycle ${cycleId} is missing${
+        artifactPath ? `: ${artifactPath}` : ""
+      }`
     );
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+
+  if (artifact?.cycleId !== cycleId) {
+    throw new Error(
+      `Analysis artifact ${artifactPath} belongs to cycle ${artifact?.cycleId}, expected ${cycleId}`
+    );
+  }
+
+  const verdict = artifact?.analysisData?.finalVerdict;
+  if (!verdict) {
+    throw new Error(`Analysis artifact ${artifactPath} has no final verdict`);
+  }
+
+  return verdict as TradingVerdict;
+}
+
+/**
+ * Extract next check interval from the cycle's final verdict
+ */
+function extractNextCheckInterval(
+  verdict: TradingVerdict | undefined,
+  defaultInterval: number
+): number {
+  const MIN_INTERVAL = 2;
+  const MAX_INTERVAL = 60;
+
+  const nextCheckMinutes = verdict?.nextCheckMinutes;
+
+  if (typeof nextCheckMinutes !== "number" || isNaN(nextCheckMinutes)) {
+    logger.warn(`⚠️  Invalid nextCheckMinutes value: ${nextCheckMinutes}`);
     return defaultInterval;
   }
+
+  // Apply bounds checking
+  const boundedInterval = Math.max(
+    MIN_INTERVAL,
+    Math.min(MAX_INTERVAL, nextCheckMinutes)
+  );
+
+  if (boundedInterval !== nextCheckMinutes) {
+    logger.warn(
+      `⚠️  AI recommended ${nextCheckMinutes} minutes, bounded to ${boundedInterval} minutes`
+    );
+  }
+
+  logger.info(
+    `🤖 AI recommends next check in ${boundedInterval} minutes (was ${defaultInterval} minutes)`
+  );
+  return boundedInterval;
+}
+
+/**
+ * Run a step under its own deadline, capped by what is left of the cycle's deadline.
+ * On timeout the step's signal closes its browsers and spawned child processes are killed.
+ */
+async function runWithDeadline<T>(
+  label: string,
+  stepTimeoutMs: number,
+  cycleDeadline: number,
+  task: (deadlineSignal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const cycleRemainingMs = Math.max(0, cycleDeadline - Date.now());
+  const cycleBound = cycleRemainingMs < stepTimeoutMs;
+
+  try {
+    return await withDeadline(
+      task,
+      Math.min(stepTimeoutMs, cycleRemainingMs),
+      cycleBound ? `Cycle (during ${label.toLowerCase()})` : label
+    );
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      logger.error(`⏱️  ${error.message}, cancelling in-flight work`);
+      killTrackedChildProcesses();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Journal a step that missed its deadline and turn it into a failed cycle
+ */
+function recordStepTimeout(
+  context: CycleContext,
+  step: "capture" | "analysis",
+  error: unknown
+): CycleResult {
+  if (!(error instanceof TimeoutError)) {
+    throw error;
+  }
+
+  context.journal.append({
+    type: "step",
+    cycleNumber: context.cycleNumber,
+    cycleId: context.cycleId,
+    step,
+    success: false,
+    error: error.message,
+    timedOut: true,
+  });
+
+  return {
+    success: false,
+    timedOut: true,
+    cycleId: context.cycleId,
+    error: error.message,
+  };
 }
 
 /**
  * Run single analysis cycle
  */
-async function runAnalysisCycle(
-  config: AutoTraderConfig,
-  cycleNumber: number
-): Promise<boolean> {
+async function runAnalysisCycle(context: CycleContext): Promise<CycleResult> {
+  const { config, cycleNumber, cycleId, journal, stopSignal, costLedger } =
+    context;
   const startTime = new Date();
+  const cycleDeadline = startTime.getTime() + config.cycleTimeoutMs;
+  const symbolLabel = config.analysis.symbol
+    ? ` [${config.analysis.symbol}]`
+    : "";
   logger.info(
-    `🔄 Starting Analysis Cycle #${cycleNumber} at ${startTime.toLocaleTimeString()}`
+    `🔄 Starting Analysis Cycle #${cycleNumber}${symbolLabel} at ${startTime.toLocaleTimeString()}`
   );
+  logger.info(`🆔 Cycle ID: ${cycleId}`);
   logger.info(`${"=".repeat(60)}`);
 
   // Step 1: Chart Capture
   logger.info(
-    `📸 Step 1: Capturing charts with timeframes ${
-      config.chartCaptureArgs.find((arg) => arg.includes(",")) ?? "default"
-    }`
-  );
-  const chartSuccess = await executeWithRetry(
-    "npm",
-    ["run", "start", "--", ...config.chartCaptureArgs],
-    config.maxRetries,
-    config.retryDelayMs
+    `📸 Step 1: Capturing charts with timeframes ${config.capture.timeframes.join(
+      ","
+    )}`
   );
+  let captureOutcome: RetryOutcome<MultiTimeframeResult>;
+  try {
+    captureOutcome = await runWithDeadline(
+      "Chart capture",
+      config.captureTimeoutMs,
+      cycleDeadline,
+      (deadlineSignal) =>
+        executeWithRetry(
+          () => captureCharts(config.capture, cycleId, deadlineSignal),
+          config,
+          stopSignal,
+          deadlineSignal
+        )
+    );
+  } catch (error) {
+    return recordStepTimeout(context, "capture", error);
+  }
+  const { result: capture, failure: captureFailure } = captureOutcome;
+  journal.append({
+    type: "step",
+    cycleNumber,
+    cycleId,
+    step: "capture",
+    success: capture.success,
+    ...(capture.error && { error: capture.error }),
+    ...(captureFailure && { failureClass: captureFailure.failureClass }),
+  });
 
-  if (!chartSuccess) {
-    logger.error(`❌ Chart capture failed after ${config.maxRetries} attempts`);
-    return false;
+  if (!capture.success) {
+    logger.error(`❌ Chart capture failed`);
+    return {
+      success: false,
+      ...(captureFailure?.failureClass === "fatal" && { fatal: true }),
+      cycleId,
+      capture,
+      error: capture.error ?? "Chart capture failed",
+    };
   }
 
+  // Only analyze the timeframes that were actually captured this cycle
+  const capturedTimeframes = capture.results
+    .filter((result) => result.success)
+    .map((result) => result.timeframe);
+
   // Small delay between steps
-  await new Promise((resolve) => setTimeout(resolve, 2000));
+  await sleep(2000, stopSignal);
+
+  if (stopSignal?.aborted) {
+    logger.warn(`🛑 Shutdown requested, skipping analysis for this cycle`);
+    return {
+      success: false,
+      stopped: true,
+      cycleId,
+      capture,
+      error: "Stopped before analysis",
+    };
+  }
 
   // Step 2: Vision AI Analysis
   logger.info(`🤖 Step 2: Running Vision AI analysis`);
-  const visionSuccess = await executeWithRetry(
-    "npm",
-    ["run", "start-vision-ai", "--", ...config.visionAiArgs],
-    config.maxRetries,
-    config.retryDelayMs
-  );
-
-  if (!visionSuccess) {
-    logger.error(
-      `❌ Vision AI analysis failed after ${config.maxRetries} attempts`
+  let analysisOutcome: RetryOutcome<VisionAnalysisResult>;
+  try {
+    analysisOutcome = await runWithDeadline(
+      "Vision AI analysis",
+      config.analysisTimeoutMs,
+      cycleDeadline,
+      (deadlineSignal) =>
+        executeWithRetry(
+          () =>
+            executeVisionAnalysis({
+              ...config.analysis,
+              timeframes: capturedTimeframes,
+              cycleId,
+              saveJson: true, // The cycle reads its verdict back from this artifact
+              signal: deadlineSignal,
+              ...(costLedger && { costLedger }),
+              ...(config.budget && { budget: config.budget }),
+            }),
+          config,
+          stopSignal,
+          deadlineSignal
+        )
     );
-    return false;
+  } catch (error) {
+    return recordStepTimeout(context, "analysis", error);
+  }
+  const { result: analysis, failure: analysisFailure } = analysisOutcome;
+  journal.append({
+    type: "step",
+    cycleNumber,
+    cycleId,
+    step: "analysis",
+    success: analysis.success,
+    ...(analysis.error && { error: analysis.error }),
+    ...(analysisFailure && { failureClass: analysisFailure.failureClass }),
+  });
+
+  if (!analysis.success) {
+    logger.error(`❌ Vision AI analysis failed`);
+    return {
+      success: false,
+      ...(analysisFailure?.failureClass === "fatal" && { fatal: true }),
+      ...(analysisFailure?.failureClass === "budget" && {
+        spendCapReached: true,
+      }),
+      cycleId,
+      capture,
+      analysis,
+      error: analysis.error ?? "Vision AI analysis failed",
+    };
+  }
+
+  let verdict: TradingVerdict;
+  try {
+    verdict = readCycleVerdict(cycleId, analysis);
+    journal.append({
+      type: "step",
+      cycleNumber,
+      cycleId,
+      step: "artifact",
+      success: true,
+    });
+  } catch (error) {
+    logger.error(`❌ ${(error as Error).message}`);
+    journal.append({
+      type: "step",
+      cycleNumber,
+      cycleId,
+      step: "artifact",
+      success: false,
+      error: (error as Error).message,
+    });
+    return {
+      success: false,
+      cycleId,
+      capture,
+      analysis,
+      error: (error as Error).message,
+    };
   }
 
   const endTime = new Date();
   const duration = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
 
+  logger.info(
+    `⚡ Verdict: ${verdict.action} ${verdict.positionSize}% (${verdict.confidence}% confidence) - ${verdict.keyReason}`
+  );
+  if (analysis.totalCost) {
+    logger.info(`💰 Cycle cost: $${analysis.totalCost.toFixed(4)}`);
+  }
+
   logger.success(
-    `✅ Analysis Cycle #${cycleNumber} completed successfully in ${duration}s`
+    `✅ Analysis Cycle #${cycleNumber}${symbolLabel} completed successfully in ${duration}s`
   );
   logger.info(`🎯 Next cycle timing will be determined by AI recommendation`);
   logger.info(`${"=".repeat(60)}`);
 
-  return true;
+  return { success: true, cycleId, capture, analysis, verdict };
+}
+
+/**
+ * Log the schedule constraints and the next few projected run times
+ */
+function logSchedule(
+  schedule: ScheduleSpec,
+  intervalMinutes: number,
+  candleTimeframe?: string
+): void {
+  logger.info(`📅 Schedule:`);
+  if (schedule.cron) {
+    logger.info(`   Cron (UTC): ${schedule.cron}`);
+  }
+  schedule.windows?.forEach((window) => {
+    logger.info(`   Trading window (UTC): ${window.start}-${window.end}`);
+  });
+  schedule.blackouts?.forEach((blackout) => {
+    logger.info(
+      `   Blackout: ${blackout.start} → ${blackout.end}${
+        blackout.reason ? ` (${blackout.reason})` : ""
+      }`
+    );
+  });
+
+  const upcoming = getUpcomingRuns(
+    schedule,
+    new Date(),
+    intervalMinutes,
+    5,
+    candleTimeframe
+  );
+  logger.info(
+    `   Upcoming runs (at the ${intervalMinutes} min default interval; the AI may adjust):`
+  );
+  upcoming.forEach((run) => {
+    logger.info(`     • ${formatUtcTime(run)}`);
+  });
 }
 
 /**
  * Main auto trader loop
  */
 async function runAutoTrader(
-  config: AutoTraderConfig = DEFAULT_CONFIG
+  config: AutoTraderConfig = DEFAULT_CONFIG,
+  shutdown?: ShutdownController,
+  options: RunAutoTraderOptions = {}
 ): Promise<void> {
   logger.info(`🚀 Jupiter Exchange Auto Trader Started`);
   logger.info(
     `⏰ Default interval: ${config.intervalMinutes} minutes (AI will adjust dynamically)`
   );
-  logger.info(
-    `📊 Chart timeframes: ${
-      config.chartCaptureArgs.find((arg) => arg.includes(",")) ?? "default"
-    }`
-  );
+  logger.info(`📊 Chart timeframes: ${config.capture.timeframes.join(",")}`);
+  logger.info(`🤖 Vision model: ${config.analysis.model}`);
   logger.info(`🔄 Max retries per step: ${config.maxRetries}`);
+  if (config.candleAlignment) {
+    logger.info(
+      `🕯️  Cycles aligned to ${config.candleAlignment.timeframe} candle closes (+${config.candleAlignment.settleSeconds}s settle)`
+    );
+  }
+  if (config.schedule) {
+    logSchedule(
+      config.schedule,
+      config.intervalMinutes,
+      config.candleAlignment?.timeframe
+    );
+  }
+  if (config.budget) {
+    const { perCycle, daily, monthly } = config.budget;
+    const caps = [
+      perCycle !== undefined && `$${perCycle}/cycle`,
+      daily !== undefined && `$${daily}/day`,
+      monthly !== undefined && `$${monthly}/month`,
+    ].filter(Boolean);
+    logger.info(
+      `💰 Spend caps: ${caps.join(", ") || "none"} (ledger: ${
+        config.costLedgerPath
+      })`
+    );
+  }
+  if (config.analysis.committee) {
+    const { members, rule = "majority" } = config.analysis.committee;
+    logger.info(
+      `🏛️  Verdict committee (${rule}): ${members
+        .map((member) => member.model)
+        .join(", ")}`
+    );
+  }
+  if (config.watchlist?.length) {
+    logger.info(
+      `👀 Watchlist: ${config.watchlist
+        .map((entry) => entry.symbol)
+        .join(", ")} (at most ${config.maxConcurrentSymbols} at once)`
+    );
+  }
   logger.info(`${"=".repeat(60)}`);
 
+  // Check prerequisites, for the committee's providers too
+  const providerProblem = [
+    config.analysis,
+    ...(config.analysis.committee?.members ?? []).map((member) => ({
+      ...config.analysis,
+      ...member,
+    })),
+  ]
+    .map((options) => getProviderSetupError(options))
+    .find(Boolean);
+  if (providerProblem) {
+    logger.error(`❌ ${providerProblem}`);
+    if (parseModelSpec(config.analysis.model).provider === "openai") {
+      logger.info(`   Set it with: export OPENAI_API_KEY="your-api-key-here"`);
+    }
+    process.exit(1);
+  }
+
+  // Stop commands go through the shutdown controller when there is one
+  const control = options.control ?? createTraderControl();
+  const localStop = new AbortController();
+  const stopSignal = shutdown?.stopSignal ?? localStop.signal;
+  control.onStop((source) =>
+    shutdown ? shutdown.requestStop(source) : localStop.abort()
+  );
+
+  const controlServer = config.controlApi
+    ? await startControlServer(control, config.controlApi)
+    : undefined;
+  if (controlServer) {
+    options.onControlApi?.(controlServer);
+  }
+
+  const configReloader = options.configReloader ?? createConfigReloader(config);
+  logger.info(`📄 Config version ${configReloader.current().version}`);
+
+  const loopOptions: TradingLoopOptions = {
+    control,
+    stopSignal,
+    runCycle: options.runCycle ?? runAnalysisCycle,
+    configReloader,
+    costLedger: createCostLedger(config.costLedgerPath),
+    ...(shutdown && { shutdown }),
+  };
+
+  try {
+    if (config.watchlist?.length) {
+      // Each symbol keeps its own adaptive schedule but shares the pipeline slots
+      const limiter = createConcurrencyLimiter(config.maxConcurrentSymbols);
+      await Promise.all(
+        config.watchlist.map((entry) =>
+          runTradingLoop(createSymbolConfig(config, entry), {
+            ...loopOptions,
+            limiter,
+            watchlistEntry: entry,
+          })
+        )
+      );
+    } else {
+      await runTradingLoop(config, loopOptions);
+    }
+  } finally {
+    await controlServer?.close();
+  }
+
+  logger.info(`🛑 Auto Trader stopped`);
+}
+
+/**
+ * Derive the configuration of a single watchlist symbol, with its own
+ * screenshot, output and journal locations
+ */
+function createSymbolConfig(
+  config: AutoTraderConfig,
+  entry: WatchlistEntry
+): AutoTraderConfig {
+  const screenshotsDir = path.join(
+    config.capture.screenshotsDir || "screenshots",
+    entry.symbol
+  );
+  const journal = path.parse(config.journalPath);
+
+  return {
+    ...config,
+    intervalMinutes: entry.intervalMinutes ?? config.intervalMinutes,
+    journalPath: path.join(
+      journal.dir,
+      `${journal.name}-${entry.symbol.toLowerCase()}${journal.ext}`
+    ),
+    capture: {
+      ...config.capture,
+      url: entry.url,
+      symbol: entry.symbol,
+      screenshotsDir,
+    },
+    analysis: {
+      ...config.analysis,
+      symbol: entry.symbol,
+      instrument: entry.instrument ?? {}, // analysis.instrument describes the default chart
+      screenshotsDir,
+      outputDir: path.join(
+        config.analysis.outputDir || "analysis-results",
+        entry.symbol
+      ),
+    },
+  };
+}
+
+/**
+ * Run the capture and analysis loop for one market until it is stopped
+ */
+async function runTradingLoop(
+  config: AutoTraderConfig,
+  options: TradingLoopOptions
+): Promise<void> {
+  const {
+    shutdown,
+    stopSignal,
+    control,
+    runCycle,
+    configReloader,
+    costLedger,
+  } = options;
+  const limiter = options.limiter ?? createConcurrencyLimiter(1);
+  const symbol = config.analysis.symbol;
   let cycleNumber = 1;
   let consecutiveFailures = 0;
+  let resumeAt: Date | undefined;
   const maxConsecutiveFailures = 3;
+  const runOnce =
+    process.argv.includes("--once") && !process.argv.includes("--continuous");
+  const journal = createCycleJournal(config.journalPath);
+  const lane = control.registerLane(symbol);
+  let configVersion = configReloader.current().version;
+  const loop: LoopContext = { journal, control, lane, stopSignal };
+  // Run-now requests up to here are answered by the next cycle to start
+  let runNowHandled = control.runNowGeneration();
+  let inFlightCycle: { cycleNumber: number; cycleId: string } | undefined;
+  let stopReason:
+    | "stop_requested"
+    | "single_cycle"
+    | "max_failures"
+    | "fatal_error" = "stop_requested";
+
+  // Close out the journal if in-flight work has to be abandoned
+  shutdown?.onAbort((reason) => {
+    if (inFlightCycle) {
+      journal.append({
+        type: "cycle_end",
+        ...inFlightCycle,
+        success: false,
+        consecutiveFailures,
+        error: `Aborted by shutdown (${reason})`,
+      });
+    }
+    journal.append({
+      type: "shutdown",
+      reason,
+      ...(inFlightCycle && { inFlightCycle }),
+    });
+  });
 
-  // Check prerequisites
-  if (!process.env.OPENAI_API_KEY) {
-    logger.error(`❌ OPENAI_API_KEY environment variable is required`);
-    logger.info(`   Set it with: export OPENAI_API_KEY="your-api-key-here"`);
-    process.exit(1);
+  // Resume cycle counter, failure count and schedule from the journal
+  const recovered = config.resumeFromJournal ? journal.recover() : null;
+  if (recovered) {
+    cycleNumber = recovered.lastCycleNumber + 1;
+    consecutiveFailures = recovered.consecutiveFailures;
+    logger.info(
+      `📒 Resuming from journal ${journal.path}: last cycle #${recovered.lastCycleNumber}, ${consecutiveFailures} consecutive failures`
+    );
+
+    if (recovered.interruptedCycle) {
+      logger.warn(
+        `⚠️  Cycle #${recovered.interruptedCycle.cycleNumber} (${recovered.interruptedCycle.cycleId}) was interrupted before it finished`
+      );
+      journal.append({
+        type: "cycle_end",
+        cycleNumber: recovered.interruptedCycle.cycleNumber,
+        cycleId: recovered.interruptedCycle.cycleId,
+        success: false,
+        consecutiveFailures,
+        error: "Interrupted before completion",
+      });
+    }
+
+    if (recovered.nextRunAt && recovered.nextRunAt > new Date() && !runOnce) {
+      resumeAt = recovered.nextRunAt;
+    }
+  }
+  lane.update({ consecutiveFailures });
+
+  if (resumeAt) {
+    logger.info(
+      `⏰ Cycle #${cycleNumber} was already scheduled for ${resumeAt.toLocaleTimeString()}, waiting out the remaining interval...`
+    );
+    lane.update({ state: "waiting", nextRunAt: resumeAt.toISOString() });
+    await waitUntil(resumeAt, stopSignal, control);
+    lane.clear("nextRunAt");
+  }
+
+  // The first cycle also has to respect the schedule and candle alignment
+  if (
+    (config.schedule || config.candleAlignment) &&
+    !runOnce &&
+    !stopSignal?.aborted
+  ) {
+    const firstRunAt = planNextRun(0, config);
+    if (firstRunAt.getTime() > Date.now()) {
+      await scheduleNextCycle(loop, cycleNumber, firstRunAt, "schedule");
+    }
   }
 
-  while (true) {
+  while (!stopSignal.aborted) {
+    const cycleId = generateCycleId(cycleNumber, symbol);
+
+    // Hold new cycles while paused (a wait with no target just waits out the
+    // pause); a run-now that ended the last wait, or arrives now, skips the hold
+    if (control.isPaused() && control.runNowGeneration() === runNowHandled) {
+      lane.update({ state: "waiting" });
+      await waitUntil(new Date(), stopSignal, control, runNowHandled);
+      if (stopSignal.aborted) {
+        break;
+      }
+    }
+    runNowHandled = control.runNowGeneration();
+
+    // Config file edits take effect between cycles, never halfway through one
+    const snapshot = configReloader.atCycleBoundary();
+    if (snapshot.version !== configVersion) {
+      config = options.watchlistEntry
+        ? createSymbolConfig(snapshot.config, options.watchlistEntry)
+        : snapshot.config;
+      configVersion = snapshot.version;
+      if (symbol) {
+        logger.info(`🔄 ${symbol} switched to config ${configVersion}`);
+      }
+    }
+    lane.update({ configVersion });
+
+    // Drop the screenshots and reports of cycles past the retention policy
+    pruneCycleArtifacts(
+      [
+        config.capture.screenshotsDir || "screenshots",
+        config.analysis.outputDir || "analysis-results",
+      ],
+      config.retention
+    );
+
+    // Stay under the spend caps: run cheaper, or skip the cycle with an alert
+    let cycleConfig = config;
+    if (config.budget && costLedger) {
+      const plan = planCycleBudget(costLedger, config.budget, {
+        ...(config.analysis.model && { model: config.analysis.model }),
+        detail: config.analysis.detail ?? "high",
+        // Every sample is another chart call
+        timeframeCount:
+          config.capture.timeframes.length *
+          (config.analysis.sampling?.samples ?? 1),
+        ...(config.analysis.prices && { prices: config.analysis.prices }),
+      });
+
+      if (plan.action === "skip") {
+        logger.error(
+          `🚨 BUDGET ALERT: skipping cycle #${cycleNumber}${
+            symbol ? ` for ${symbol}` : ""
+          }, ${plan.reason}`
+        );
+        journal.append({
+          type: "budget",
+          cycleNumber,
+          cycleId,
+          action: "skip",
+          reason: plan.reason,
+          projectedCost: plan.projectedCost,
+        });
+        if (runOnce) {
+          stopReason = "single_cycle";
+          break;
+        }
+        await scheduleNextCycle(
+          loop,
+          cycleNumber + 1,
+          planNextRun(config.intervalMinutes, config),
+          "budget"
+        );
+        cycleNumber++;
+        continue;
+      }
+
+      if (plan.action === "downgrade") {
+        logger.warn(
+          `💸 Budget: ${plan.reason}, running cycle #${cycleNumber} with ${plan.model} at ${plan.detail} detail`
+        );
+        journal.append({
+          type: "budget",
+          cycleNumber,
+          cycleId,
+          action: "downgrade",
+          reason: plan.reason,
+          projectedCost: plan.projectedCost,
+          model: plan.model,
+          detail: plan.detail,
+        });
+        cycleConfig = {
+          ...config,
+          analysis: {
+            ...config.analysis,
+            model: plan.model,
+            detail: plan.detail,
+          },
+        };
+      }
+    }
+
+    // Prompts can refer back to the previous verdict, and to the recent ones
+    // kept in the journal across restarts
+    const { lastVerdict } = lane.get();
+    const verdictHistory = readVerdictHistory(
+      journal.path,
+      cycleConfig.analysis.historyDepth ?? DEFAULT_HISTORY_DEPTH
+    );
+    cycleConfig = {
+      ...cycleConfig,
+      analysis: {
+        ...cycleConfig.analysis,
+        ...(lastVerdict && { priorVerdict: lastVerdict }),
+        verdictHistory,
+      },
+    };
+
     try {
-      const success = await runAnalysisCycle(config, cycleNumber);
+      // Wait for a free pipeline slot when other symbols are busy
+      const result = await limiter.run(async () => {
+        if (stopSignal.aborted) {
+          return null;
+        }
+        journal.append({
+          type: "cycle_start",
+          cycleNumber,
+          cycleId,
+          configVersion,
+        });
+        inFlightCycle = { cycleNumber, cycleId };
+        lane.update({
+          state: "running",
+          currentCycle: {
+            cycleNumber,
+            cycleId,
+            startedAt: new Date().toISOString(),
+          },
+        });
+        return runCycle({
+          config: cycleConfig,
+          cycleNumber,
+          cycleId,
+          journal,
+          stopSignal,
+          ...(costLedger && { costLedger }),
+        });
+      });
+      inFlightCycle = undefined;
+      lane.clear("currentCycle");
+      if (result?.analysis?.totalCost) {
+        lane.update({
+          cumulativeCost: lane.get().cumulativeCost + result.analysis.totalCost,
+        });
+      }
 
-      if (success) {
-        consecutiveFailures = 0;
+      if (!result) {
+        break;
+      }
 
-        // Wait for next cycle (except for the first cycle when testing)
-        if (cycleNumber > 1 || process.argv.includes("--continuous")) {
-          // Extract dynamic interval from AI recommendation
-          const nextInterval = extractNextCheckInterval(config.intervalMinutes);
-          await waitMinutes(nextInterval);
-        } else if (!process.argv.includes("--once")) {
-          // Extract dynamic interval from AI recommendation
-          const nextInterval = extractNextCheckInterval(config.intervalMinutes);
-          await waitMinutes(nextInterval);
-        } else {
+      if (result.stopped) {
+        journal.append({
+          type: "cycle_end",
+          cycleNumber,
+          cycleId,
+          success: false,
+          consecutiveFailures,
+          error: result.error ?? "Stopped by shutdown request",
+        });
+        break;
+      }
+
+      if (result.success) {
+        consecutiveFailures = 0;
+        lane.update({
+          consecutiveFailures,
+          cyclesCompleted: lane.get().cyclesCompleted + 1,
+          ...(result.verdict && {
+            lastVerdict: {
+              ...result.verdict,
+              cycleId,
+              receivedAt: new Date().toISOString(),
+            },
+          }),
+        });
+        journal.append({
+          type: "cycle_end",
+          cycleNumber,
+          cycleId,
+          success: true,
+          consecutiveFailures,
+          ...(result.verdict && {
+            verdict: {
+              action: result.verdict.action,
+              confidence: result.verdict.confidence,
+              nextCheckMinutes: result.verdict.nextCheckMinutes,
+              ...(result.verdict.entryPrice !== undefined && {
+                entryPrice: result.verdict.entryPrice,
+              }),
+              ...(result.verdict.stopLoss !== undefined && {
+                stopLoss: result.verdict.stopLoss,
+              }),
+              ...(result.verdict.takeProfit !== undefined && {
+                takeProfit: result.verdict.takeProfit,
+              }),
+            },
+          }),
+          ...(result.analysis?.observedPrice !== undefined && {
+            price: result.analysis.observedPrice,
+          }),
+        });
+
+        if (runOnce) {
           logger.info(
             `🎯 Single cycle completed. Use --continuous for continuous operation.`
           );
+          stopReason = "single_cycle";
           break;
         }
+
+        // Extract dynamic interval from AI recommendation
+        const nextInterval = extractNextCheckInterval(
+          result.verdict,
+          config.intervalMinutes
+        );
+        await scheduleNextCycle(
+          loop,
+          cycleNumber + 1,
+          planNextRun(nextInterval, config),
+          "interval"
+        );
+      } else if (result.spendCapReached) {
+        // Like a cycle skipped up front: the caps, not the setup, stopped it
+        journal.append({
+          type: "cycle_end",
+          cycleNumber,
+          cycleId,
+          success: false,
+          consecutiveFailures,
+          ...(result.error && { error: result.error }),
+        });
+        if (runOnce) {
+          stopReason = "single_cycle";
+          break;
+        }
+        await scheduleNextCycle(
+          loop,
+          cycleNumber + 1,
+          planNextRun(config.intervalMinutes, config),
+          "budget"
+        );
       } else {
         consecutiveFailures++;
+        lane.update({ consecutiveFailures });
+        journal.append({
+          type: "cycle_end",
+          cycleNumber,
+          cycleId,
+          success: false,
+          consecutiveFailures,
+          ...(result.error && { error: result.error }),
+        });
         logger.warn(
           `⚠️  Consecutive failures: ${consecutiveFailures}/${maxConsecutiveFailures}`
         );
 
+        if (result.fatal) {
+          logger.error(
+            `❌ Fatal error, retrying will not help. Stopping auto trader.`
+          );
+          logger.info(`🔧 Please check your setup and try again.`);
+          stopReason = "fatal_error";
+          break;
+        }
+
         if (consecutiveFailures >= maxConsecutiveFailures) {
           logger.error(
             `❌ Too many consecutive failures (${consecutiveFailures}). Stopping auto trader.`
           );
           logger.info(`🔧 Please check your setup and try again.`);
+          stopReason = "max_failures";
           break;
         }
 
         // Wait shorter time before retrying failed cycle
         const retryWait = Math.min(config.intervalMinutes, 5);
         logger.info(`⏳ Waiting ${retryWait} minutes before retry...`);
-        await waitMinutes(retryWait);
+        await scheduleNextCycle(
+          loop,
+          cycleNumber + 1,
+          planNextRun(retryWait, config),
+          "retry"
+        );
       }
-
-      cycleNumber++;
     } catch (error) {
+      inFlightCycle = undefined;
+      lane.clear("currentCycle");
       logger.error(
         `❌ Unexpected error in cycle ${cycleNumber}: ${
           (error as Error).message
         }`
       );
       consecutiveFailures++;
+      lane.update({ consecutiveFailures });
+      journal.append({
+        type: "cycle_end",
+        cycleNumber,
+        cycleId,
+        success: false,
+        consecutiveFailures,
+        error: (error as Error).message,
+      });
 
       if (consecutiveFailures >= maxConsecutiveFailures) {
         logger.error(`❌ Too many consecutive errors. Stopping auto trader.`);
+        stopReason = "max_failures";
         break;
       }
 
-      await waitMinutes(5); // Wait 5 minutes on unexpected errors
+      // Wait 5 minutes on unexpected errors
+      await scheduleNextCycle(
+        loop,
+        cycleNumber + 1,
+        planNextRun(5, config),
+        "error"
+      );
     }
+
+    cycleNumber++;
   }
 
-  logger.info(`🛑 Auto Trader stopped`);
+  journal.append({ type: "shutdown", reason: stopReason });
+  lane.update({ state: "stopped" });
+  if (symbol) {
+    logger.info(`🛑 ${symbol} stopped (${stopReason})`);
+  }
 }
 
 /**
- * Parse command line arguments
+ * Command line options for the auto trader
  */
-function parseArgs(): Partial<AutoTraderConfig> & {
+interface AutoTraderArgs {
   help?: boolean;
+  configPath?: string;
+  printConfig?: boolean;
   once?: boolean;
   continuous?: boolean;
-} {
-  const args = process.argv.slice(2);
-  const config: any = {};
-  let cropEnabled = true; // Default to enabled
-  let cropOptions: string[] = [];
+  intervalMinutes?: number;
+  timeframes?: string[];
+  model?: string;
+  baseUrl?: string;
+  toolCalling?: boolean;
+  promptSet?: string;
+  samples?: number;
+  historyDepth?: number;
+  committee?: string[];
+  committeeRule?: CommitteeRule;
+  soundEffects?: boolean;
+  soundVolume?: number;
+  cropScreenshots?: boolean;
+  cropConfig?: CropConfig;
+  journalPath?: string;
+  resumeFromJournal?: boolean;
+  shutdownTimeoutMs?: number;
+  captureTimeoutMs?: number;
+  analysisTimeoutMs?: number;
+  cycleTimeoutMs?: number;
+  watchlist?: WatchlistEntry[];
+  maxConcurrentSymbols?: number;
+  cron?: string;
+  windows?: string[];
+  blackouts?: string[];
+  alignCandle?: string;
+  candleSettleSeconds?: number;
+  controlPort?: number;
+  controlFile?: string;
+  costLedgerPath?: string;
+  cycleBudget?: number;
+  dailyBudget?: number;
+  monthlyBudget?: number;
+  keepCycles?: number;
+  keepDays?: number;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): AutoTraderArgs {
+  const result: AutoTraderArgs = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
 
     if (arg === "--help" || arg === "-h") {
-      config.help = true;
+      result.help = true;
+    } else if (arg === "--config" && i + 1 < args.length) {
+      const configPath = args[++i];
+      if (configPath) {
+        result.configPath = configPath;
+      }
+    } else if (arg === "--print-config") {
+      result.printConfig = true;
     } else if (arg === "--once") {
-      config.once = true;
+      result.once = true;
     } else if (arg === "--continuous") {
-      config.continuous = true;
+      result.continuous = true;
     } else if (arg === "--interval" && i + 1 < args.length) {
-      config.intervalMinutes = parseInt(args[++i] || "13", 10);
+      result.intervalMinutes = parseInt(args[++i] || "13", 10);
     } else if (arg === "--timeframes" && i + 1 < args.length) {
-      const timeframes = args[++i];
-      config.chartCaptureArgs = [
-        "--method",
-        "localStorage",
-        "--multi-timeframe",
-        "--timeframes",
-        timeframes,
-      ];
+      const timeframesArg = args[++i];
+      if (timeframesArg) {
+        result.timeframes = timeframesArg.split(",");
+      }
     } else if (arg === "--model" && i + 1 < args.length) {
       const model = args[++i];
-      config.visionAiArgs = ["--model", model];
+      if (model) {
+        result.model = model;
+      }
+    } else if (arg === "--base-url" && i + 1 < args.length) {
+      const baseUrl = args[++i];
+      if (baseUrl) {
+        result.baseUrl = baseUrl;
+      }
+    } else if (arg === "--no-tools") {
+      result.toolCalling = false;
+    } else if (arg === "--prompt-set" && i + 1 < args.length) {
+      const promptSet = args[++i];
+      if (promptSet) {
+        result.promptSet = promptSet;
+      }
+    } else if (arg === "--samples" && i + 1 < args.length) {
+      const samples = args[++i];
+      if (samples) {
+        result.samples = parseInt(samples, 10);
+      }
+    } else if (arg === "--history-depth" && i + 1 < args.length) {
+      const depth = args[++i];
+      if (depth) {
+        result.historyDepth = parseInt(depth, 10);
+      }
+    } else if (arg === "--committee" && i + 1 < args.length) {
+      const models = args[++i];
+      if (models) {
+        result.committee = models.split(",").map((model) => model.trim());
+      }
+    } else if (arg === "--committee-rule" && i + 1 < args.length) {
+      const rule = args[++i];
+      if (rule) {
+        if (!COMMITTEE_RULES.includes(rule as CommitteeRule)) {
+          throw new Error(
+            `Unknown committee rule "${rule}": use one of ${COMMITTEE_RULES.join(
+              ", "
+            )}`
+          );
+        }
+        result.committeeRule = rule as CommitteeRule;
+      }
     } else if (arg === "--no-sound") {
-      config.visionAiArgs = [...(config.visionAiArgs || []), "--no-sound"];
+      result.soundEffects = false;
     } else if (arg === "--sound-volume" && i + 1 < args.length) {
       const volume = args[++i];
-      config.visionAiArgs = [
-        ...(config.visionAiArgs || []),
-        "--sound-volume",
-        volume,
-      ];
+      if (volume) {
+        result.soundVolume = parseFloat(volume);
+      }
     } else if (arg === "--crop-screenshots") {
-      cropEnabled = true;
+      result.cropScreenshots = true;
     } else if (arg === "--no-crop") {
-      cropEnabled = false;
+      result.cropScreenshots = false;
     } else if (arg === "--crop-config" && i + 1 < args.length) {
       const cropConfig = args[++i];
       if (cropConfig) {
-        cropOptions = ["--crop-config", cropConfig];
-        cropEnabled = true;
+        result.cropConfig = parseCropConfig(cropConfig);
+        result.cropScreenshots = true;
       }
     } else if (arg === "--crop-preset" && i + 1 < args.length) {
       const cropPreset = args[++i];
       if (cropPreset) {
-        cropOptions = ["--crop-preset", cropPreset];
-        cropEnabled = true;
+        if (!(cropPreset in CROP_PRESETS)) {
+          throw new Error(
+            `Unknown crop preset "${cropPreset}": use one of ${Object.keys(
+              CROP_PRESETS
+            ).join(", ")}`
+          );
+        }
+        result.cropConfig = getCropPreset(
+          cropPreset as keyof typeof CROP_PRESETS
+        );
+        result.cropScreenshots = true;
+      }
+    } else if (arg === "--journal" && i + 1 < args.length) {
+      const journalPath = args[++i];
+      if (journalPath) {
+        result.journalPath = journalPath;
+      }
+    } else if (arg === "--no-resume") {
+      result.resumeFromJournal = false;
+    } else if (arg === "--shutdown-timeout" && i + 1 < args.length) {
+      const seconds = args[++i];
+      if (seconds) {
+        result.shutdownTimeoutMs = parseInt(seconds, 10) * 1000;
+      }
+    } else if (arg === "--capture-timeout" && i + 1 < args.length) {
+      const seconds = args[++i];
+      if (seconds) {
+        result.captureTimeoutMs = parseInt(seconds, 10) * 1000;
+      }
+    } else if (arg === "--analysis-timeout" && i + 1 < args.length) {
+      const seconds = args[++i];
+      if (seconds) {
+        result.analysisTimeoutMs = parseInt(seconds, 10) * 1000;
+      }
+    } else if (arg === "--cycle-timeout" && i + 1 < args.length) {
+      const seconds = args[++i];
+      if (seconds) {
+        result.cycleTimeoutMs = parseInt(seconds, 10) * 1000;
+      }
+    } else if (arg === "--watchlist" && i + 1 < args.length) {
+      const watchlist = args[++i];
+      if (watchlist) {
+        result.watchlist = parseWatchlist(watchlist);
+      }
+    } else if (arg === "--max-concurrent" && i + 1 < args.length) {
+      const maxConcurrent = args[++i];
+      if (maxConcurrent) {
+        result.maxConcurrentSymbols = parseInt(maxConcurrent, 10);
+      }
+    } else if (arg === "--cron" && i + 1 < args.length) {
+      const cron = args[++i];
+      if (cron) {
+        result.cron = cron;
+      }
+    } else if (arg === "--window" && i + 1 < args.length) {
+      const window = args[++i];
+      if (window) {
+        result.windows = [...(result.windows ?? []), window];
+      }
+    } else if (arg === "--blackout" && i + 1 < args.length) {
+      const blackout = args[++i];
+      if (blackout) {
+        result.blackouts = [...(result.blackouts ?? []), blackout];
+      }
+    } else if (arg === "--align-candle" && i + 1 < args.length) {
+      const timeframe = args[++i];
+      if (timeframe) {
+        result.alignCandle = timeframe;
+      }
+    } else if (arg === "--candle-settle" && i + 1 < args.length) {
+      const seconds = args[++i];
+      if (seconds) {
+        result.candleSettleSeconds = parseInt(seconds, 10);
+      }
+    } else if (arg === "--control-port" && i + 1 < args.length) {
+      const port = args[++i];
+      if (port) {
+        result.controlPort = parseInt(port, 10);
+      }
+    } else if (arg === "--control-file" && i + 1 < args.length) {
+      const controlFile = args[++i];
+      if (controlFile) {
+        result.controlFile = controlFile;
+      }
+    } else if (arg === "--cost-ledger" && i + 1 < args.length) {
+      const ledgerPath = args[++i];
+      if (ledgerPath) {
+        result.costLedgerPath = ledgerPath;
+      }
+    } else if (arg === "--cycle-budget" && i + 1 < args.length) {
+      const usd = args[++i];
+      if (usd) {
+        result.cycleBudget = parseFloat(usd);
+      }
+    } else if (arg === "--daily-budget" && i + 1 < args.length) {
+      const usd = args[++i];
+      if (usd) {
+        result.dailyBudget = parseFloat(usd);
+      }
+    } else if (arg === "--monthly-budget" && i + 1 < args.length) {
+      const usd = args[++i];
+      if (usd) {
+        result.monthlyBudget = parseFloat(usd);
+      }
+    } else if (arg === "--keep-cycles" && i + 1 < args.length) {
+      const cycles = args[++i];
+      if (cycles) {
+        result.keepCycles = parseInt(cycles, 10);
+      }
+    } else if (arg === "--keep-days" && i + 1 < args.length) {
+      const days = args[++i];
+      if (days) {
+        result.keepDays = parseFloat(days);
       }
     }
   }
 
-  // Build chart capture args with crop options
-  if (!config.chartCaptureArgs) {
-    config.chartCaptureArgs = [
-      "--method",
-      "localStorage",
-      "--multi-timeframe",
-      "--timeframes",
-      "5m,15m,1h,2h,6h",
-    ];
+  return result;
+}
+
+/**
+ * Merge command line options into the default configuration
+ */
+function buildConfig(
+  args: AutoTraderArgs,
+  base: AutoTraderConfig = DEFAULT_CONFIG
+): AutoTraderConfig {
+  const timeframes = args.timeframes ?? base.capture.timeframes;
+  const cropConfig = args.cropConfig ?? base.capture.cropConfig;
+
+  // Schedule flags replace only the matching parts of a file schedule
+  let schedule = base.schedule;
+  if (args.cron || args.windows || args.blackouts) {
+    schedule = {
+      ...base.schedule,
+      ...(args.cron && { cron: args.cron }),
+      ...(args.windows && { windows: args.windows.map(parseTimeWindow) }),
+      ...(args.blackouts && {
+        blackouts: args.blackouts.map(parseBlackoutWindow),
+      }),
+    };
+    validateScheduleSpec(schedule);
+  }
+
+  let candleAlignment: CandleAlignment | undefined = base.candleAlignment;
+  if (args.alignCandle) {
+    // Fail fast on an unknown timeframe rather than at the first cycle
+    timeframeToMinutes(args.alignCandle);
+    candleAlignment = {
+      timeframe: args.alignCandle,
+      settleSeconds:
+        args.candleSettleSeconds ??
+        base.candleAlignment?.settleSeconds ??
+        DEFAULT_CANDLE_SETTLE_SECONDS,
+    };
+  } else if (candleAlignment && args.candleSettleSeconds !== undefined) {
+    candleAlignment = {
+      ...candleAlignment,
+      settleSeconds: args.candleSettleSeconds,
+    };
   }
 
-  // Add crop options if enabled
-  if (cropEnabled) {
-    config.chartCaptureArgs.push("--crop-screenshots");
-    if (cropOptions.length > 0) {
-      config.chartCaptureArgs.push(...cropOptions);
-    }
+  // Fail at startup rather than find no slot at the first cycle
+  if (schedule && candleAlignment) {
+    validateCandleAlignment(schedule, candleAlignment.timeframe);
+  }
+
+  // Budget flags replace only the matching caps of a file budget
+  let budget = base.budget;
+  if (
+    args.cycleBudget !== undefined ||
+    args.dailyBudget !== undefined ||
+    args.monthlyBudget !== undefined
+  ) {
+    budget = {
+      ...base.budget,
+      ...(args.cycleBudget !== undefined && { perCycle: args.cycleBudget }),
+      ...(args.dailyBudget !== undefined && { daily: args.dailyBudget }),
+      ...(args.monthlyBudget !== undefined && {
+        monthly: args.monthlyBudget,
+      }),
+    };
+  }
+
+  return {
+    ...base,
+    ...(args.intervalMinutes !== undefined && {
+      intervalMinutes: args.intervalMinutes,
+    }),
+    ...(args.journalPath && { journalPath: args.journalPath }),
+    ...(args.resumeFromJournal !== undefined && {
+      resumeFromJournal: args.resumeFromJournal,
+    }),
+    ...(args.shutdownTimeoutMs !== undefined && {
+      shutdownTimeoutMs: args.shutdownTimeoutMs,
+    }),
+    ...(args.captureTimeoutMs !== undefined && {
+      captureTimeoutMs: args.captureTimeoutMs,
+    }),
+    ...(args.analysisTimeoutMs !== undefined && {
+      analysisTimeoutMs: args.analysisTimeoutMs,
+    }),
+    ...(args.cycleTimeoutMs !== undefined && {
+      cycleTimeoutMs: args.cycleTimeoutMs,
+    }),
+    ...(args.watchlist && { watchlist: args.watchlist }),
+    ...(args.maxConcurrentSymbols !== undefined && {
+      maxConcurrentSymbols: Math.max(1, args.maxConcurrentSymbols),
+    }),
+    ...(schedule && { schedule }),
+    ...(candleAlignment && { candleAlignment }),
+    ...(args.controlFile && { controlFile: args.controlFile }),
+    ...(args.costLedgerPath && { costLedgerPath: args.costLedgerPath }),
+    ...(budget && { budget }),
+    ...((args.keepCycles !== undefined || args.keepDays !== undefined) && {
+      retention: {
+        ...base.retention,
+        ...(args.keepCycles !== undefined && { cycles: args.keepCycles }),
+        ...(args.keepDays !== undefined && { days: args.keepDays }),
+      },
+    }),
+    ...(args.controlPort !== undefined && {
+      controlApi: {
+        port: args.controlPort,
+        host: base.controlApi?.host ?? DEFAULT_CONTROL_HOST,
+        ...(base.controlApi?.token && { token: base.controlApi.token }),
+      },
+    }),
+    capture: {
+      ...base.capture,
+      timeframes,
+      cropScreenshots: args.cropScreenshots ?? base.capture.cropScreenshots,
+      ...(cropConfig && { cropConfig }),
+    },
+    analysis: {
+      ...base.analysis,
+      timeframes,
+      ...(args.model && { model: args.model }),
+      ...(args.baseUrl && { baseUrl: args.baseUrl }),
+      ...(args.toolCalling !== undefined && { toolCalling: args.toolCalling }),
+      ...(args.promptSet && { promptSet: args.promptSet }),
+      ...(args.samples && {
+        sampling: { ...base.analysis.sampling, samples: args.samples },
+      }),
+      ...(args.historyDepth !== undefined && {
+        historyDepth: args.historyDepth,
+      }),
+      ...((args.committee || args.committeeRule) && {
+        committee: {
+          members:
+            args.committee?.map((model) => ({ model })) ??
+            base.analysis.committee?.members ??
+            [],
+          ...(base.analysis.committee?.rule && {
+            rule: base.analysis.committee.rule,
+          }),
+          ...(args.committeeRule && { rule: args.committeeRule }),
+        },
+      }),
+      ...(args.soundEffects !== undefined && {
+        soundEffects: args.soundEffects,
+      }),
+      ...(args.soundVolume !== undefined && { soundVolume: args.soundVolume }),
+    },
+  };
+}
+
+/**
+ * The config file to use: --config, or auto-trader.config.json if present
+ */
+function resolveConfigPath(args: AutoTraderArgs): string | undefined {
+  return (
+    args.configPath ??
+    (fs.existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : undefined)
+  );
+}
+
+/**
+ * Resolve the effective configuration: defaults < config file < command line
+ */
+function resolveConfig(
+  args: AutoTraderArgs,
+  configPath = resolveConfigPath(args)
+): AutoTraderConfig {
+  if (!configPath) {
+    return buildConfig(args);
   }
 
-  return config;
+  const fileConfig = loadConfigFile(configPath);
+  logger.info(`📄 Loaded config file: ${configPath}`);
+  return buildConfig(args, applyFileConfig(DEFAULT_CONFIG, fileConfig));
 }
 
 /**
@@ -468,15 +1891,47 @@ Automatically captures charts and runs AI analysis. The AI determines the optima
 Usage: npm run auto-trader [options]
 
 Options:
+  --config <path>          JSON config file (default: auto-trader.config.json if present)
+  --print-config           Print the fully resolved configuration and exit
   --interval <minutes>     Default interval between analyses (default: 13, AI will adjust dynamically)
   --timeframes <list>      Comma-separated timeframes (default: 5m,15m,1h,2h,6h)
-  --model <model>          AI model to use (default: gpt-4o)
+  --model <model>          AI model to use (default: gpt-4o); prefix picks the provider:
+                           openai:<model>, openai-compatible:<model>, offline
+  --base-url <url>         Server for openai-compatible models (or VISION_BASE_URL)
+  --no-tools               Ask for JSON in the prompt (models without tool calling)
+  --prompt-set <name|dir>  Prompt templates from prompts/<name> or a directory (default: default)
+  --samples <n>            Analyze each timeframe n times and use the consensus (default: 1)
+  --history-depth <n>      Earlier verdicts from the journal shown to the model (default: 5, 0 for none)
+  --committee <models>     Comma-separated models that vote on the final verdict
+  --committee-rule <rule>  majority, confidence-weighted or unanimous-for-entry (default: majority)
   --no-sound               Disable sound effects
   --sound-volume <0.0-1.0> Sound volume level (default: 0.7)
   --crop-screenshots       Enable chart screenshot cropping (default: enabled)
   --no-crop                Disable chart screenshot cropping
   --crop-config <x,y,w,h>  Custom crop coordinates (e.g., "0,100,1450,550")
   --crop-preset <preset>   Use crop preset (minimal, wide, chart_volume)
+  --journal <path>         Cycle journal file (default: logs/auto-trader-journal.jsonl)
+  --no-resume              Start fresh instead of resuming from the journal
+  --shutdown-timeout <s>   Seconds to let the in-flight step finish on Ctrl+C (default: 90)
+  --capture-timeout <s>    Watchdog for chart capture, including retries (default: 90)
+  --analysis-timeout <s>   Watchdog for AI analysis, including retries (default: 180)
+  --cycle-timeout <s>      Cap on a whole cycle (default: 360)
+  --watchlist <list>       Run one pipeline per symbol, e.g. BTCUSD,SOLUSD@10,ETHUSD
+                           (SYMBOL[@minutes][=chart-url]; known: BTCUSD, ETHUSD, SOLUSD)
+  --max-concurrent <n>     Symbols captured/analyzed at the same time (default: 2)
+  --cron "<expr>"          Only start cycles on minutes matching a 5-field UTC cron expression
+  --window <HH:MM-HH:MM>   Trading hours in UTC (repeatable)
+  --blackout <start/end>   No cycles between two ISO timestamps (repeatable)
+  --align-candle <tf>      Start each cycle just after a candle close of this timeframe (e.g. 5m, 15m)
+  --candle-settle <secs>   Delay after the candle close before capturing (default: 10)
+  --control-port <port>    Serve the status/control API on 127.0.0.1:<port> (token: CONTROL_API_TOKEN)
+  --control-file <path>    Apply commands written to this file (run, pause, resume, toggle, stop)
+  --cost-ledger <path>     Spend ledger of every model call (default: logs/cost-ledger.jsonl)
+  --cycle-budget <usd>     Spend cap per cycle
+  --daily-budget <usd>     Spend cap per day; cycles are downgraded, then skipped, to stay under it
+  --monthly-budget <usd>   Spend cap per calendar month
+  --keep-cycles <n>        Keep the screenshots and analysis files of the last n cycles (default: 100, 0: all)
+  --keep-days <n>          Delete the screenshots and analysis files of cycles older than n days
   --once                   Run single cycle and exit
   --continuous             Run continuously (default behavior)
   --help, -h              Show this help message
@@ -486,20 +1941,37 @@ Examples:
   npm run auto-trader -- --interval 15                  # Default 15 minutes, AI adjusts dynamically
   npm run auto-trader -- --timeframes 5m,1h,6h          # Custom timeframes with dynamic intervals
   npm run auto-trader -- --model gpt-4o-mini --once     # Single run with cheap model
+  npm run auto-trader -- --model openai-compatible:llava --base-url http://localhost:11434/v1
+                                                        # Local model server, no external AI calls
   npm run auto-trader -- --no-sound                     # Disable sound effects
   npm run auto-trader -- --sound-volume 0.3             # Lower volume sound effects
   npm run auto-trader -- --no-crop                      # Disable chart cropping
   npm run auto-trader -- --crop-preset minimal          # Use minimal crop preset
   npm run auto-trader -- --crop-config 0,100,1450,550   # Custom crop coordinates
+  npm run auto-trader -- --watchlist BTCUSD,SOLUSD,ETHUSD --max-concurrent 2
+                                                        # Watch several markets
+  npm run auto-trader -- --cron "*/15 * * * *" --window 07:00-22:00
+                                                        # Every 15 min on candle closes, 07:00-22:00 UTC
+  npm run auto-trader -- --blackout 2025-06-18T17:45Z/2025-06-18T19:00Z
+                                                        # Skip cycles around a planned event
+  npm run auto-trader -- --control-port 8787            # curl localhost:8787/status, POST /pause
+  npm run auto-trader -- --daily-budget 5 --monthly-budget 100
+                                                        # Cap AI spend (see npm run cost-report)
 
 Prerequisites:
-  • OPENAI_API_KEY environment variable must be set
+  • OPENAI_API_KEY environment variable must be set (for OpenAI models)
   • Internet connection for chart capture and AI analysis
 
 Environment Setup:
   export OPENAI_API_KEY="your-api-key-here"
 
-Note: Use Ctrl+C to stop the auto trader.
+Runtime Control:
+  Type run, pause, resume, toggle, stop or status and press Enter
+  kill -USR1 <pid>                                      # Start the next cycle now
+  kill -USR2 <pid>                                      # Toggle pause
+
+Note: Use Ctrl+C to stop the auto trader after the current step finishes.
+      Press Ctrl+C again to force quit.
 `);
 }
 
@@ -514,23 +1986,54 @@ async function main(): Promise<void> {
     return;
   }
 
-  const config: AutoTraderConfig = {
-    ...DEFAULT_CONFIG,
-    ...args,
-  };
+  const configPath = resolveConfigPath(args);
+  const config = resolveConfig(args, configPath);
+
+  if (args.printConfig) {
+    // The control token is a secret, like the API keys kept in the environment
+    console.log(
+      JSON.stringify(
+        config,
+        (key, value) => (key === "token" && value ? "***" : value),
+        2
+      )
+    );
+    return;
+  }
 
-  // Handle process termination gracefully
-  process.on("SIGINT", () => {
-    logger.info(`\n🛑 Received interrupt signal. Stopping auto trader...`);
-    process.exit(0);
+  // Handle process termination gracefully: the first signal lets the
+  // in-flight step finish, a second one force-quits
+  const shutdown = createShutdownController(config.shutdownTimeoutMs);
+  shutdown.install();
+
+  // Pause, resume and run-now without restarting (and losing the schedule)
+  const control = createTraderControl();
+  const detachControlInputs = attachControlInputs(control, {
+    stdin: true,
+    signals: true,
+    ...(config.controlFile && { controlFile: config.controlFile }),
   });
 
-  process.on("SIGTERM", () => {
-    logger.info(`\n🛑 Received termination signal. Stopping auto trader...`);
-    process.exit(0);
-  });
+  // Re-resolve edits to the config file, command line flags still win
+  const configReloader = createConfigReloader(
+    config,
+    configPath
+      ? {
+          path: configPath,
+          resolve: (file) =>
+            buildConfig(args, applyFileConfig(DEFAULT_CONFIG, file)),
+        }
+      : undefined
+  );
 
-  await runAutoTrader(config);
+  try {
+    await runAutoTrader(config, shutdown, { control, configReloader });
+  } finally {
+    configReloader.close();
+    detachControlInputs();
+    shutdown.finish();
+    await cleanupResources();
+  }
 }
 
 // Run the auto trader
@@ -541,4 +2044,10 @@ if (require.main === module) {
   });
 }
 
-export { runAutoTrader, AutoTraderConfig };
+export {
+  runAutoTrader,
+  executeWithRetry,
+  parseArgs,
+  resolveConfig,
+  AutoTraderConfig,
+};
@@ -0,0 +1,632 @@
+import fs from "fs";
+import { createJupiterAutomation } from "../features/web-automation";
+import {
+  createVisionAnalysisConfig,
+  VisionAnalysisConfig,
+} from "../features/vision-analysis";
+import { ScheduleSpec, validateScheduleSpec } from "../features/schedule";
+import { ModelPrice } from "../features/cost-accounting";
+import { SamplingConfig } from "../features/consensus";
+import {
+  COMMITTEE_RULES,
+  CommitteeConfig,
+} from "../features/verdict-committee";
+import {
+  BudgetConfig,
+  DEFAULT_COST_LEDGER_PATH,
+} from "../features/cost-ledger";
+import {
+  ControlServerConfig,
+  DEFAULT_CONTROL_HOST,
+  getControlToken,
+  isLoopbackHost,
+} from "../features/control-server";
+import {
+  CropConfig,
+  CROP_PRESETS,
+  DEFAULT_JUPITER_CROP,
+  getCropPreset,
+} from "../utils/image-cropping";
+import { timeframeToMinutes } from "../utils/timeframes";
+import { ArtifactRetention } from "../utils/artifact-retention";
+import { InstrumentOverrides, WatchlistEntry } from "./markets";
+
+/**
+ * Chart capture settings used by each cycle
+ */
+export interface ChartCaptureConfig {
+  url: string;
+  timeframes: string[];
+  waitTime: number;
+  cropScreenshots: boolean;
+  cropConfig?: CropConfig;
+  symbol?: string; // Chart symbol override for watchlist entries
+  screenshotsDir?: string;
+}
+
+/**
+ * Start each cycle just after a candle of the given timeframe has closed
+ */
+export interface CandleAlignment {
+  timeframe: string;
+  settleSeconds: number; // Give the chart time to draw the closed bar
+}
+
+/**
+ * Configuration for the auto trader
+ */
+export interface AutoTraderConfig {
+  intervalMinutes: number;
+  capture: ChartCaptureConfig;
+  analysis: VisionAnalysisConfig;
+  maxRetries: number;
+  retryDelayMs: number; // Base delay for exponential backoff
+  maxRetryDelayMs: number;
+  journalPath: string;
+  resumeFromJournal: boolean;
+  shutdownTimeoutMs: number;
+  watchlist?: WatchlistEntry[]; // Run one pipeline per symbol instead of the default chart
+  maxConcurrentSymbols: number;
+  captureTimeoutMs: number; // Watchdog for the capture step, including retries
+  analysisTimeoutMs: number; // Watchdog for the analysis step, including retries
+  cycleTimeoutMs: number; // Cap on the whole cycle
+  schedule?: ScheduleSpec;
+  candleAlignment?: CandleAlignment;
+  controlApi?: ControlServerConfig; // Local HTTP status and control API
+  controlFile?: string; // Commands written here are applied, then the file is removed
+  costLedgerPath: string; // Every model call's cost, shared by all symbols
+  budget?: BudgetConfig; // Spend caps checked before each cycle and model call
+  retention: ArtifactRetention; // Screenshots and analysis files of older cycles are deleted
+}
+
+/**
+ * Auto trader configuration file (JSON)
+ * Every field is optional and overrides the matching default.
+ */
+export interface AutoTraderFileConfig {
+  intervalMinutes?: number;
+  timeframes?: string[]; // Shared by capture and analysis
+  maxRetries?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  journalPath?: string;
+  resumeFromJournal?: boolean;
+  shutdownTimeoutMs?: number;
+  captureTimeoutMs?: number;
+  analysisTimeoutMs?: number;
+  cycleTimeoutMs?: number;
+  maxConcurrentSymbols?: number;
+  watchlist?: WatchlistEntry[];
+  schedule?: ScheduleSpec;
+  candleAlignment?: {
+    timeframe: string;
+    settleSeconds?: number;
+  };
+  controlApi?: {
+    port: number;
+    host?: string;
+    token?: string;
+  };
+  controlFile?: string;
+  costLedgerPath?: string;
+  budget?: BudgetConfig;
+  retention?: ArtifactRetention;
+  capture?: {
+    url?: string;
+    waitTime?: number;
+    screenshotsDir?: string;
+  };
+  crop?: {
+    enabled?: boolean;
+    preset?: keyof typeof CROP_PRESETS;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+  };
+  analysis?: {
+    model?: string; // "provider:model", e.g. "openai-compatible:llava"
+    baseUrl?: string;
+    toolCalling?: boolean;
+    billable?: boolean; // openai-compatible: count calls as paid
+    prices?: Record<string, ModelPrice>; // USD per 1M tokens, by model
+    promptSet?: string; // Folder in prompts/ or a directory of templates
+    symbol?: string; // Market shown on the chart (default: BTCUSD)
+    instrument?: InstrumentOverrides;
+    detail?: "low" | "high" | "auto";
+    maxTokens?: number;
+    temperature?: number;
+    sampling?: SamplingConfig; // Several analyses per timeframe, combined
+    committee?: CommitteeConfig; // Several models vote on the final verdict
+    historyDepth?: number; // Earlier verdicts shown to the model (0 for none)
+    outputDir?: string;
+    saveText?: boolean;
+  };
+  sound?: {
+    enabled?: boolean;
+    volume?: number;
+  };
+}
+
+export const DEFAULT_TIMEFRAMES = ["5m", "15m", "1h", "2h", "6h"];
+export const DEFAULT_CANDLE_SETTLE_SECONDS = 10;
+
+// Picked up automatically from the working directory when --config is not given
+export const DEFAULT_CONFIG_PATH = "auto-trader.config.json";
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: AutoTraderConfig = {
+  intervalMinutes: 13,
+  capture: {
+    url: createJupiterAutomation().url,
+    timeframes: DEFAULT_TIMEFRAMES,
+    waitTime: 8000,
+    cropScreenshots: true, // Enable cropping by default for better AI analysis
+    cropConfig: DEFAULT_JUPITER_CROP,
+  },
+  analysis: createVisionAnalysisConfig({ timeframes: DEFAULT_TIMEFRAMES }),
+  maxRetries: 3,
+  retryDelayMs: 30000, // 30 seconds, doubled on each transient failure
+  maxRetryDelayMs: 300000, // 5 minutes
+  journalPath: "logs/auto-trader-journal.jsonl",
+  resumeFromJournal: true,
+  shutdownTimeoutMs: 90000, // 90 seconds for the in-flight step on shutdown
+  maxConcurrentSymbols: 2,
+  captureTimeoutMs: 90000, // 90 seconds
+  analysisTimeoutMs: 180000, // 3 minutes
+  cycleTimeoutMs: 360000, // 6 minutes
+  costLedgerPath: DEFAULT_COST_LEDGER_PATH,
+  retention: { cycles: 100 },
+};
+
+/**
+ * Checks one value of the config file, collecting readable errors
+ */
+type FieldCheck = (value: unknown, field: string, errors: string[]) => void;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const numberField =
+  (
+    options: { min?: number; max?: number; integer?: boolean } = {}
+  ): FieldCheck =>
+  (value, field, errors) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`);
+    } else if (options.integer && !Number.isInteger(value)) {
+      errors.push(`${field} must be a whole number`);
+    } else if (options.min !== undefined && value < options.min) {
+      errors.push(`${field} must be at least ${options.min}`);
+    } else if (options.max !== undefined && value > options.max) {
+      errors.push(`${field} must be at most ${options.max}`);
+    }
+  };
+
+const stringField: FieldCheck = (value, field, errors) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    errors.push(`${field} must be a non-empty string`);
+  }
+};
+
+const booleanField: FieldCheck = (value, field, errors) => {
+  if (typeof value !== "boolean") {
+    errors.push(`${field} must be true or false`);
+  }
+};
+
+const oneOfField =
+  (allowed: readonly string[]): FieldCheck =>
+  (value, field, errors) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      errors.push(`${field} must be one of: ${allowed.join(", ")}`);
+    }
+  };
+
+const timeframeField: FieldCheck = (value, field, errors) => {
+  try {
+    timeframeToMinutes(String(value));
+  } catch (error) {
+    errors.push(`${field}: ${(error as Error).message}`);
+  }
+};
+
+const arrayField =
+  (item: FieldCheck, options: { nonEmpty?: boolean } = {}): FieldCheck =>
+  (value, field, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${field} must be an array`);
+      return;
+    }
+    if (options.nonEmpty && value.length === 0) {
+      errors.push(`${field} must not be empty`);
+    }
+    value.forEach((entry, index) => item(entry, `${field}[${index}]`, errors));
+  };
+
+// Object with free-form keys, e.g. model names
+const recordField =
+  (entry: FieldCheck): FieldCheck =>
+  (value, field, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) =>
+      entry(item, `${field}.${key}`, errors)
+    );
+  };
+
+const sectionField =
+  (fields: Record<string, FieldCheck>, required: string[] = []): FieldCheck =>
+  (value, field, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${field} must be an object`);
+      return;
+    }
+
+    required
+      .filter((key) => value[key] === undefined)
+      .forEach((key) => errors.push(`${field}.${key} is required`));
+
+    Object.entries(value).forEach(([key, entry]) => {
+      const check = fields[key];
+      if (!check) {
+        // Catch typos instead of silently ignoring them
+        errors.push(`${field}.${key} is not a known setting`);
+      } else {
+        check(entry, `${field}.${key}`, errors);
+      }
+    });
+  };
+
+const controlApiField: FieldCheck = (value, field, errors) => {
+  const shapeErrors: string[] = [];
+  sectionField(
+    {
+      port: numberField({ min: 0, max: 65535, integer: true }),
+      host: stringField,
+      token: stringField,
+    },
+    ["port"]
+  )(value, field, shapeErrors);
+
+  if (shapeErrors.length > 0) {
+    errors.push(...shapeErrors);
+    return;
+  }
+
+  const { host, token } = value as { host?: string; token?: string };
+  if (
+    host &&
+    !isLoopbackHost(host) &&
+    !getControlToken({ ...(token && { token }) })
+  ) {
+    errors.push(
+      `${field}.host ${host} is reachable from other machines: set ${field}.token or CONTROL_API_TOKEN`
+    );
+  }
+};
+
+const scheduleField: FieldCheck = (value, field, errors) => {
+  const shapeErrors: string[] = [];
+  const window = sectionField({ start: stringField, end: stringField }, [
+    "start",
+    "end",
+  ]);
+
+  sectionField({
+    cron: stringField,
+    windows: arrayField(window),
+    blackouts: arrayField(
+      sectionField(
+        { start: stringField, end: stringField, reason: stringField },
+        ["start", "end"]
+      )
+    ),
+  })(value, field, shapeErrors);
+
+  if (shapeErrors.length > 0) {
+    errors.push(...shapeErrors);
+    return;
+  }
+
+  try {
+    validateScheduleSpec(value as ScheduleSpec);
+  } catch (error) {
+    errors.push(`${field}: ${(error as Error).message}`);
+  }
+};
+
+const positiveMs = numberField({ min: 1, integer: true });
+
+const instrumentField = sectionField({
+  name: stringField,
+  venue: stringField,
+  contractType: oneOfField(["perpetual", "future", "spot"]),
+  tickSize: numberField({ min: 0 }),
+  priceRange: sectionField(
+    { min: numberField({ min: 0 }), max: numberField({ min: 0 }) },
+    ["min", "max"]
+  ),
+  maxLeverage: numberField({ min: 1 }),
+});
+
+/**
+ * Shape of the configuration file
+ */
+const CONFIG_FILE_SCHEMA = sectionField({
+  $schema: stringField, // Allow editors to attach a schema
+  intervalMinutes: numberField({ min: 1, integer: true }),
+  timeframes: arrayField(timeframeField, { nonEmpty: true }),
+  maxRetries: numberField({ min: 1, integer: true }),
+  retryDelayMs: numberField({ min: 0, integer: true }),
+  maxRetryDelayMs: numberField({ min: 0, integer: true }),
+  journalPath: stringField,
+  resumeFromJournal: booleanField,
+  shutdownTimeoutMs: positiveMs,
+  captureTimeoutMs: positiveMs,
+  analysisTimeoutMs: positiveMs,
+  cycleTimeoutMs: positiveMs,
+  maxConcurrentSymbols: numberField({ min: 1, integer: true }),
+  watchlist: arrayField(
+    sectionField(
+      {
+        symbol: stringField,
+        url: stringField,
+        intervalMinutes: numberField({ min: 1, integer: true }),
+        instrument: instrumentField,
+      },
+      ["symbol", "url"]
+    ),
+    { nonEmpty: true }
+  ),
+  schedule: scheduleField,
+  candleAlignment: sectionField(
+    {
+      timeframe: timeframeField,
+      settleSeconds: numberField({ min: 0, integer: true }),
+    },
+    ["timeframe"]
+  ),
+  controlApi: controlApiField,
+  controlFile: stringField,
+  costLedgerPath: stringField,
+  budget: sectionField({
+    perCycle: numberField({ min: 0 }),
+    daily: numberField({ min: 0 }),
+    monthly: numberField({ min: 0 }),
+    onExceed: oneOfField(["downgrade", "skip"]),
+    downgradeModel: stringField,
+    downgradeDetail: oneOfField(["low", "high", "auto"]),
+  }),
+  retention: sectionField({
+    cycles: numberField({ min: 0, integer: true }),
+    days: numberField({ min: 0 }),
+  }),
+  capture: sectionField({
+    url: stringField,
+    waitTime: numberField({ min: 0, integer: true }),
+    screenshotsDir: stringField,
+  }),
+  crop: sectionField({
+    enabled: booleanField,
+    preset: oneOfField(Object.keys(CROP_PRESETS)),
+    x: numberField({ min: 0, integer: true }),
+    y: numberField({ min: 0, integer: true }),
+    width: numberField({ min: 1, integer: true }),
+    height: numberField({ min: 1, integer: true }),
+  }),
+  analysis: sectionField({
+    model: stringField,
+    baseUrl: stringField,
+    toolCalling: booleanField,
+    billable: booleanField,
+    prices: recordField(
+      sectionField(
+        {
+          input: numberField({ min: 0 }),
+          output: numberField({ min: 0 }),
+          imageInput: numberField({ min: 0 }),
+          imageBaseTokens: numberField({ min: 0, integer: true }),
+          imageTileTokens: numberField({ min: 0, integer: true }),
+        },
+        ["input", "output"]
+      )
+    ),
+    promptSet: stringField,
+    symbol: stringField,
+    instrument: instrumentField,
+    detail: oneOfField(["low", "high", "auto"]),
+    maxTokens: numberField({ min: 1, integer: true }),
+    temperature: numberField({ min: 0, max: 2 }),
+    sampling: sectionField(
+      {
+        samples: numberField({ min: 1, integer: true }),
+        temperatures: arrayField(numberField({ min: 0, max: 2 }), {
+          nonEmpty: true,
+        }),
+        details: arrayField(oneOfField(["low", "high", "auto"]), {
+          nonEmpty: true,
+        }),
+      },
+      ["samples"]
+    ),
+    historyDepth: numberField({ min: 0, integer: true }),
+    committee: sectionField(
+      {
+        members: arrayField(
+          sectionField(
+            {
+              model: stringField,
+              baseUrl: stringField,
+              toolCalling: booleanField,
+              billable: booleanField,
+            },
+            ["model"]
+          ),
+          { nonEmpty: true }
+        ),
+        rule: oneOfField(COMMITTEE_RULES),
+      },
+      ["members"]
+    ),
+    outputDir: stringField,
+    saveText: booleanField,
+  }),
+  sound: sectionField({
+    enabled: booleanField,
+    volume: numberField({ min: 0, max: 1 }),
+  }),
+});
+
+/**
+ * Validate parsed config file contents, throwing one error that lists every problem
+ */
+export const validateFileConfig = (
+  data: unknown,
+  source: string
+): AutoTraderFileConfig => {
+  const errors: string[] = [];
+  CONFIG_FILE_SCHEMA(data, "config", errors);
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid auto-trader config ${source}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+
+  return data as AutoTraderFileConfig;
+};
+
+/**
+ * Parse and validate config file contents
+ */
+export const parseConfigFile = (
+  contents: string,
+  source: string
+): AutoTraderFileConfig => {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(
+      `Config file ${source} is not valid JSON: ${(error as Error).message}`
+    );
+  }
+
+  return validateFileConfig(data, source);
+};
+
+/**
+ * Read and validate a JSON config file
+ */
+export const loadConfigFile = (configPath: string): AutoTraderFileConfig => {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  return parseConfigFile(fs.readFileSync(configPath, "utf8"), configPath);
+};
+
+/**
+ * Layer config file values over a base configuration
+ */
+export const applyFileConfig = (
+  base: AutoTraderConfig,
+  file: AutoTraderFileConfig
+): AutoTraderConfig => {
+  const timeframes = file.timeframes ?? base.capture.timeframes;
+  const { crop } = file;
+
+  let cropConfig = base.capture.cropConfig;
+  if (crop) {
+    cropConfig = {
+      ...(crop.preset
+        ? getCropPreset(crop.preset)
+        : base.capture.cropConfig ?? DEFAULT_JUPITER_CROP),
+      ...(crop.x !== undefined && { x: crop.x }),
+      ...(crop.y !== undefined && { y: crop.y }),
+      ...(crop.width !== undefined && { width: crop.width }),
+      ...(crop.height !== undefined && { height: crop.height }),
+    };
+  }
+
+  return {
+    ...base,
+    ...(file.intervalMinutes !== undefined && {
+      intervalMinutes: file.intervalMinutes,
+    }),
+    ...(file.maxRetries !== undefined && { maxRetries: file.maxRetries }),
+    ...(file.retryDelayMs !== undefined && {
+      retryDelayMs: file.retryDelayMs,
+    }),
+    ...(file.maxRetryDelayMs !== undefined && {
+      maxRetryDelayMs: file.maxRetryDelayMs,
+    }),
+    ...(file.journalPath && { journalPath: file.journalPath }),
+    ...(file.resumeFromJournal !== undefined && {
+      resumeFromJournal: file.resumeFromJournal,
+    }),
+    ...(file.shutdownTimeoutMs !== undefined && {
+      shutdownTimeoutMs: file.shutdownTimeoutMs,
+    }),
+    ...(file.captureTimeoutMs !== undefined && {
+      captureTimeoutMs: file.captureTimeoutMs,
+    }),
+    ...(file.analysisTimeoutMs !== undefined && {
+      analysisTimeoutMs: file.analysisTimeoutMs,
+    }),
+    ...(file.cycleTimeoutMs !== undefined && {
+      cycleTimeoutMs: file.cycleTimeoutMs,
+    }),
+    ...(file.maxConcurrentSymbols !== undefined && {
+      maxConcurrentSymbols: file.maxConcurrentSymbols,
+    }),
+    ...(file.watchlist && { watchlist: file.watchlist }),
+    ...(file.schedule && { schedule: file.schedule }),
+    ...(file.candleAlignment && {
+      candleAlignment: {
+        timeframe: file.candleAlignment.timeframe,
+        settleSeconds:
+          file.candleAlignment.settleSeconds ?? DEFAULT_CANDLE_SETTLE_SECONDS,
+      },
+    }),
+    ...(file.controlApi && {
+      controlApi: {
+        port: file.controlApi.port,
+        host: file.controlApi.host ?? DEFAULT_CONTROL_HOST,
+        ...(file.controlApi.token && { token: file.controlApi.token }),
+      },
+    }),
+    ...(file.controlFile && { controlFile: file.controlFile }),
+    ...(file.costLedgerPath && { costLedgerPath: file.costLedgerPath }),
+    ...(file.budget && { budget: file.budget }),
+    ...(file.retention && { retention: file.retention }),
+    capture: {
+      ...base.capture,
+      ...file.capture,
+      timeframes,
+      cropScreenshots: crop?.enabled ?? base.capture.cropScreenshots,
+      ...(cropConfig && { cropConfig }),
+    },
+    analysis: {
+      ...base.analysis,
+      ...file.analysis,
+      timeframes,
+      ...(file.capture?.screenshotsDir && {
+        screenshotsDir: file.capture.screenshotsDir,
+      }),
+      ...(file.sound?.enabled !== undefined && {
+        soundEffects: file.sound.enabled,
+      }),
+      ...(file.sound?.volume !== undefined && {
+        soundVolume: file.sound.volume,
+      }),
+    },
+  };
+};
@@ -173,16 +173,19 @@ export class ChartSettingsManager {
   }
 
   /**
-   * Get technical indicators from the first pane
+   * Get technical indicators from every pane
+   * Oscillators such as Stoch RSI sit in their own pane below the price.
    */
   getTechnicalIndicators(): SourceConfig[] {
     const chart = this.getChartConfig(0);
-    if (!chart || !chart.panes || !chart.panes[0]) {
+    if (!chart || !chart.panes) {
       return [];
     }
 
-    return chart.panes[0].sources.filter(
-      (source) => source.type === "Study" || source.type === "study_Volume"
+    return chart.panes.flatMap((pane) =>
+      pane.sources.filter(
+        (source) => source.type === "Study" || source.type === "study_Volume"
+      )
     );
   }
 
@@ -279,9 +282,9 @@ export class ChartSettingsManager {
   }
 
   /**
-   * Get settings with a specific timeframe
+   * Get settings with a specific timeframe, optionally for another symbol
    */
-  getSettingsForTimeframe(timeframe: string): ChartSettings {
+  getSettingsForTimeframe(timeframe: string, symbol?: string): ChartSettings {
     const settings = JSON.parse(JSON.stringify(this.settings)) as ChartSettings;
 
     // Map timeframe to interval minutes
@@ -304,6 +307,10 @@ export class ChartSettingsManager {
               pane.sources.forEach((source) => {
                 if (source.type === "MainSeries" && source.state) {
                   source.state.interval = interval;
+                  if (symbol) {
+                    source.state.symbol = symbol;
+                    source.state.shortName = symbol;
+                  }
                 }
               });
             }
@@ -318,8 +325,8 @@ export class ChartSettingsManager {
   /**
    * Get localStorage format for a specific timeframe
    */
-  toLocalStorageFormatForTimeframe(timeframe: string): string {
-    const settings = this.getSettingsForTimeframe(timeframe);
+  toLocalStorageFormatForTimeframe(timeframe: string, symbol?: string): string {
+    const settings = this.getSettingsForTimeframe(timeframe, symbol);
     return JSON.stringify(settings, null, 0);
   }
 }
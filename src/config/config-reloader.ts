@@ -0,0 +1,211 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import { logger } from "../utils/logger";
+import {
+  AutoTraderConfig,
+  AutoTraderFileConfig,
+  parseConfigFile,
+} from "./auto-trader-config";
+
+/**
+ * A configuration together with the version cycles record in the journal
+ */
+export interface ConfigSnapshot {
+  config: AutoTraderConfig;
+  version: string; // Hash of the resolved settings, stable across restarts
+}
+
+/**
+ * The config file to watch and how to turn it into a full configuration
+ */
+export interface ConfigSource {
+  path: string;
+  resolve: (file: AutoTraderFileConfig) => AutoTraderConfig; // Defaults < file < command line
+}
+
+/**
+ * Tracks config file edits and hands them out at cycle boundaries
+ */
+export interface ConfigReloader {
+  current: () => ConfigSnapshot;
+  atCycleBoundary: () => ConfigSnapshot; // Applies a pending valid change first
+  close: () => void;
+}
+
+/**
+ * Settings wired up once at startup; edits to these wait for a restart
+ */
+const RESTART_ONLY_SETTINGS: Array<keyof AutoTraderConfig> = [
+  "watchlist",
+  "maxConcurrentSymbols",
+  "journalPath",
+  "resumeFromJournal",
+  "shutdownTimeoutMs",
+  "controlApi",
+  "controlFile",
+  "costLedgerPath",
+];
+
+// Sections whose individual settings are listed when they change
+const NESTED_SECTIONS: Array<keyof AutoTraderConfig> = ["capture", "analysis"];
+
+const CONFIG_POLL_MS = 5000;
+
+/**
+ * Short hash identifying a resolved configuration
+ */
+export const getConfigVersion = (config: AutoTraderConfig): string =>
+  createHash("sha256")
+    .update(JSON.stringify(config))
+    .digest("hex")
+    .slice(0, 12);
+
+/**
+ * Read the config file, or undefined while it is missing
+ */
+const readContents = (configPath: string): string | undefined => {
+  try {
+    return fs.readFileSync(configPath, "utf8");
+  } catch {
+    return undefined;
+  }
+};
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * List the settings that differ between two configurations
+ */
+const describeChanges = (
+  before: AutoTraderConfig,
+  after: AutoTraderConfig
+): string[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keys].flatMap((key) => {
+    const name = key as keyof AutoTraderConfig;
+    if (isSame(before[name], after[name])) {
+      return [];
+    }
+    if (!NESTED_SECTIONS.includes(name)) {
+      return [key];
+    }
+
+    const beforeSection = (before[name] ?? {}) as Record<string, unknown>;
+    const afterSection = (after[name] ?? {}) as Record<string, unknown>;
+    const fields = new Set([
+      ...Object.keys(beforeSection),
+      ...Object.keys(afterSection),
+    ]);
+    return [...fields]
+      .filter((field) => !isSame(beforeSection[field], afterSection[field]))
+      .map((field) => `${key}.${field}`);
+  });
+};
+
+/**
+ * Watch the config file and keep the last valid configuration
+ * Without a source the initial configuration is used for the whole run.
+ */
+export const createConfigReloader = (
+  initial: AutoTraderConfig,
+  source?: ConfigSource
+): ConfigReloader => {
+  let current: ConfigSnapshot = {
+    config: initial,
+    version: getConfigVersion(initial),
+  };
+  let pending: ConfigSnapshot | undefined;
+  let lastContents = source ? readContents(source.path) : undefined;
+
+  // Validate edits as soon as they are saved so mistakes show up right away
+  const check = () => {
+    if (!source) {
+      return;
+    }
+
+    const contents = readContents(source.path);
+    if (contents === lastContents) {
+      return;
+    }
+    lastContents = contents;
+
+    if (contents === undefined) {
+      logger.warn(
+        `⚠️  Config file ${source.path} is gone, keeping config ${current.version}`
+      );
+      return;
+    }
+
+    let config: AutoTraderConfig;
+    try {
+      config = source.resolve(parseConfigFile(contents, source.path));
+    } catch (error) {
+      pending = undefined;
+      logger.error(`❌ Rejected config change: ${(error as Error).message}`);
+      logger.info(`   Keeping config ${current.version}`);
+      return;
+    }
+
+    const ignored = RESTART_ONLY_SETTINGS.filter(
+      (key) => !isSame(config[key], initial[key])
+    );
+    if (ignored.length > 0) {
+      logger.warn(
+        `⚠️  ${ignored.join(", ")} only change${
+          ignored.length === 1 ? "s" : ""
+        } on restart, keeping the running value${
+          ignored.length === 1 ? "" : "s"
+        }`
+      );
+    }
+
+    // Restart-only settings keep their startup values
+    const merged: Record<string, unknown> = { ...config };
+    RESTART_ONLY_SETTINGS.forEach((key) => {
+      if (initial[key] === undefined) {
+        delete merged[key];
+      } else {
+        merged[key] = initial[key];
+      }
+    });
+
+    const next = merged as unknown as AutoTraderConfig;
+    const version = getConfigVersion(next);
+    const changes = describeChanges(current.config, next);
+    if (version === current.version || changes.length === 0) {
+      pending = undefined;
+      logger.info(`📄 Config file saved, no settings changed`);
+      return;
+    }
+
+    pending = { config: next, version };
+    logger.info(
+      `📄 Config change detected (${changes.join(
+        ", "
+      )}), applying at the next cycle as ${version}`
+    );
+  };
+
+  const poller = source ? setInterval(check, CONFIG_POLL_MS) : undefined;
+  poller?.unref();
+
+  return {
+    current: () => current,
+    atCycleBoundary: () => {
+      check();
+      if (pending) {
+        logger.info(`🔄 Config ${pending.version} is now active`);
+        current = pending;
+        pending = undefined;
+      }
+      return current;
+    },
+    close: () => {
+      if (poller) {
+        clearInterval(poller);
+      }
+    },
+  };
+};
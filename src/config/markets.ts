@@ -0,0 +1,128 @@
+/**
+ * A market watched by the auto trader
+ */
+export interface WatchlistEntry {
+  symbol: string; // TradingView symbol shown on the chart, e.g. "SOLUSD"
+  url: string; // Jupiter perps page that hosts the chart
+  intervalMinutes?: number; // Starting interval before the AI adapts it
+  instrument?: InstrumentOverrides;
+}
+
+/**
+ * What a chart shows, as described to the model
+ */
+export interface InstrumentSpec {
+  symbol: string; // e.g. "SOLUSD"
+  name?: string; // e.g. "Solana"
+  venue: string;
+  contractType: "perpetual" | "future" | "spot";
+  tickSize?: number; // Smallest price increment
+  priceRange?: { min: number; max: number }; // Typical prices; levels outside it are dropped
+  maxLeverage?: number;
+}
+
+/**
+ * Instrument settings from the config, layered over the known market
+ */
+export type InstrumentOverrides = Partial<Omit<InstrumentSpec, "symbol">>;
+
+/**
+ * Jupiter perps chart pages for the markets we trade
+ */
+export const JUPITER_MARKETS: Record<string, string> = {
+  BTCUSD: "https://jup.ag/perps/short/USDC-WBTC",
+  ETHUSD: "https://jup.ag/perps/short/USDC-WETH",
+  SOLUSD: "https://jup.ag/perps/short/USDC-SOL",
+};
+
+// Price ranges are deliberately wide: they catch levels of the wrong
+// magnitude, not unusual moves
+export const KNOWN_INSTRUMENTS: Record<string, InstrumentSpec> = {
+  BTCUSD: {
+    symbol: "BTCUSD",
+    name: "Bitcoin",
+    venue: "Jupiter Perps",
+    contractType: "perpetual",
+    tickSize: 0.01,
+    priceRange: { min: 10000, max: 500000 },
+    maxLeverage: 100,
+  },
+  ETHUSD: {
+    symbol: "ETHUSD",
+    name: "Ethereum",
+    venue: "Jupiter Perps",
+    contractType: "perpetual",
+    tickSize: 0.01,
+    priceRange: { min: 300, max: 30000 },
+    maxLeverage: 100,
+  },
+  SOLUSD: {
+    symbol: "SOLUSD",
+    name: "Solana",
+    venue: "Jupiter Perps",
+    contractType: "perpetual",
+    tickSize: 0.001,
+    priceRange: { min: 3, max: 3000 },
+    maxLeverage: 100,
+  },
+};
+
+/**
+ * Metadata of a symbol: the known market, then any configured overrides
+ * Unknown symbols are assumed to be Jupiter perps with no price checks.
+ */
+export const resolveInstrument = (
+  symbol: string,
+  overrides: InstrumentOverrides = {}
+): InstrumentSpec => ({
+  venue: "Jupiter Perps",
+  contractType: "perpetual",
+  ...KNOWN_INSTRUMENTS[symbol],
+  ...overrides,
+  symbol,
+});
+
+/**
+ * Parse a command line watchlist such as "BTCUSD,SOLUSD@10,ETHUSD=<url>"
+ * - SYMBOL uses the known Jupiter market page
+ * - @minutes sets the starting interval for that symbol
+ * - =url points at a different chart page
+ */
+export const parseWatchlist = (value: string): WatchlistEntry[] =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const urlIndex = item.indexOf("=");
+      const head = urlIndex === -1 ? item : item.slice(0, urlIndex);
+      const customUrl = urlIndex === -1 ? undefined : item.slice(urlIndex + 1);
+      const [symbolPart, intervalPart] = head.split("@");
+      const symbol = (symbolPart ?? "").toUpperCase();
+      const url = customUrl || JUPITER_MARKETS[symbol];
+
+      if (!symbol || !url) {
+        throw new Error(
+          `Unknown watchlist symbol "${head}": use one of ${Object.keys(
+            JUPITER_MARKETS
+          ).join(", ")} or give a chart URL as SYMBOL=<url>`
+        );
+      }
+
+      const intervalMinutes =
+        intervalPart === undefined ? undefined : parseInt(intervalPart, 10);
+      if (
+        intervalMinutes !== undefined &&
+        (isNaN(intervalMinutes) || intervalMinutes < 1)
+      ) {
+        throw new Error(
+          `Invalid interval "${intervalPart}" for watchlist symbol ${symbol}`
+        );
+      }
+
+      return {
+        symbol,
+        url,
+        ...(intervalMinutes !== undefined && { intervalMinutes }),
+      };
+    });
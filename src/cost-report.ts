@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+import { logger } from "./utils/logger";
+import {
+  createCostLedger,
+  DEFAULT_COST_LEDGER_PATH,
+  LedgerEntry,
+  summarizeSpend,
+} from "./features/cost-ledger";
+
+/**
+ * Command line options for the cost report
+ */
+interface CostReportArgs {
+  help?: boolean;
+  ledgerPath?: string;
+  days?: number;
+}
+
+function parseArgs(): CostReportArgs {
+  const args = process.argv.slice(2);
+  const result: CostReportArgs = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--help" || arg === "-h") {
+      result.help = true;
+    } else if (arg === "--ledger" && i + 1 < args.length) {
+      const ledgerPath = args[++i];
+      if (ledgerPath) {
+        result.ledgerPath = ledgerPath;
+      }
+    } else if (arg === "--days" && i + 1 < args.length) {
+      const days = args[++i];
+      if (days) {
+        result.days = parseInt(days, 10);
+      }
+    }
+  }
+
+  return result;
+}
+
+function showHelp(): void {
+  console.log(`
+💰 AI Spend Report
+
+Summarizes the cost ledger written by the auto trader and vision analysis.
+
+Usage: npm run cost-report [options]
+
+Options:
+  --ledger <path>   Cost ledger file (default: ${DEFAULT_COST_LEDGER_PATH})
+  --days <n>        Only include the last n days, today included
+  --help, -h        Show this help message
+`);
+}
+
+/**
+ * Local calendar day of a ledger entry, e.g. 2025-06-18
+ */
+function getDay(entry: LedgerEntry): string {
+  const date = new Date(entry.timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+function logSpendTable(
+  title: string,
+  rows: ReturnType<typeof summarizeSpend>
+): void {
+  logger.info("");
+  logger.info(title);
+  rows.forEach((row) => {
+    logger.info(
+      `   ${row.key.padEnd(24)} $${row.cost.toFixed(4).padStart(10)}  ${
+        row.calls
+      } calls, ${row.cycles} cycles`
+    );
+  });
+}
+
+function main(): void {
+  const args = parseArgs();
+  if (args.help) {
+    showHelp();
+    return;
+  }
+
+  const ledger = createCostLedger(args.ledgerPath);
+  const now = new Date();
+  const since =
+    args.days !== undefined
+      ? new Date(
+          now.getFullYear(),
+          now.getMonth(),
+          now.getDate() - args.days + 1
+        )
+      : undefined;
+  const entries = ledger
+    .entries()
+    .filter((entry) => !since || new Date(entry.timestamp) >= since);
+
+  if (entries.length === 0) {
+    logger.info(`📭 No model calls recorded in ${ledger.path}`);
+    return;
+  }
+
+  const byCost = (rows: ReturnType<typeof summarizeSpend>) =>
+    [...rows].sort((a, b) => b.cost - a.cost);
+  const total = entries.reduce((sum, entry) => sum + entry.cost, 0);
+
+  logger.info(
+    `💰 AI spend from ${ledger.path}${
+      args.days !== undefined ? ` (last ${args.days} days)` : ""
+    }`
+  );
+  logger.info(
+    `   Today: $${ledger
+      .spentSince(new Date(now.getFullYear(), now.getMonth(), now.getDate()))
+      .toFixed(4)}   This month: $${ledger
+      .spentSince(new Date(now.getFullYear(), now.getMonth(), 1))
+      .toFixed(4)}`
+  );
+
+  logSpendTable(
+    "🤖 By model:",
+    byCost(summarizeSpend(entries, (entry) => entry.model))
+  );
+  logSpendTable(
+    "📅 By day:",
+    summarizeSpend(entries, getDay).sort((a, b) => a.key.localeCompare(b.key))
+  );
+  logSpendTable(
+    "📈 By symbol:",
+    byCost(summarizeSpend(entries, (entry) => entry.symbol ?? "(default)"))
+  );
+
+  logger.info("");
+  logger.info(`   Total: $${total.toFixed(4)} over ${entries.length} calls`);
+}
+
+main();
@@ -0,0 +1,191 @@
+import type { SourceConfig } from "../config/chart-settings";
+import type { JsonSchema } from "../utils/schema-generator";
+import type { StructuredOutputSpec } from "./vision-provider";
+import type { ChartAnalysis } from "./vision-analysis";
+
+type Indicators = ChartAnalysis["indicators"];
+
+/**
+ * Readings that are only asked for when their study is on the chart
+ */
+type StudyField = Exclude<
+  keyof Indicators,
+  "volume" | "bollinger" | "momentum"
+>;
+
+const STUDY_FIELDS: StudyField[] = ["bollingerBands", "stochRsi"];
+
+/**
+ * A study on the chart and what the model is asked to read from it
+ */
+export interface ChartIndicator {
+  name: string; // As shown in the chart legend, e.g. "Stoch RSI"
+  field?: StudyField; // Reading recorded for the study
+  prompt?: string; // What to read off the chart
+}
+
+// Asked on every chart, whatever studies it shows
+const BASE_PROMPTS = [
+  "Volume analysis (high/medium/low)",
+  "Bollinger Bands condition (squeeze/expansion/neutral)",
+  "Overall momentum (increasing/decreasing/stable)",
+];
+
+/**
+ * What to read from each known study, keyed by its TradingView study id
+ * without the version (metaInfo.id "Stochastic RSI@tv-basicstudies-1").
+ * A new study gets its own fields from an entry here and a reading interface
+ * on ChartAnalysis.indicators; unknown studies are only mentioned.
+ */
+const STUDY_READINGS: Record<
+  string,
+  (label: string) => Omit<ChartIndicator, "name">
+> = {
+  Volume: () => ({}), // Covered by the volume analysis every chart gets
+  "Bollinger Bands": (label) => ({
+    field: "bollingerBands",
+    prompt: `${label} → bollingerBands: where the last close sits against the bands, whether the band width is expanding, contracting or flat, and the upper/basis/lower values if the legend shows them`,
+  }),
+  "Stochastic RSI": (label) => ({
+    field: "stochRsi",
+    prompt: `${label}, in its own pane below the price → stochRsi: the %K/%D zone (overbought above 80, oversold below 20), the latest %K/%D crossover, and the %K and %D values if the legend shows them`,
+  }),
+};
+
+/**
+ * Study label with its numeric inputs, e.g. "Stoch RSI (14, 14, 3, 3)"
+ */
+const getStudyLabel = (name: string, study: SourceConfig): string => {
+  const inputs = Object.values(
+    (study.state?.inputs ?? {}) as Record<string, unknown>
+  ).filter((input): input is number => typeof input === "number");
+  return inputs.length > 0 ? `${name} (${inputs.join(", ")})` : name;
+};
+
+/**
+ * The chart's studies, e.g. from ChartSettingsManager.getTechnicalIndicators()
+ */
+export const getChartIndicators = (studies: SourceConfig[]): ChartIndicator[] =>
+  studies.map((study) => {
+    const name: string =
+      study.metaInfo?.shortDescription ||
+      study.metaInfo?.description ||
+      study.type;
+    const id = String(study.metaInfo?.id ?? "").split("@")[0] ?? "";
+    const label = getStudyLabel(name, study);
+    const reading = STUDY_READINGS[id];
+    return {
+      name,
+      ...(reading
+        ? reading(label)
+        : { prompt: `${label}: anything notable, in the signals` }),
+    };
+  });
+
+/**
+ * Indicator lines of the chart analysis prompt
+ */
+export const getIndicatorPrompt = (indicators: ChartIndicator[]): string =>
+  [
+    ...BASE_PROMPTS,
+    ...indicators.flatMap((indicator) =>
+      indicator.prompt ? [indicator.prompt] : []
+    ),
+  ]
+    .map((line) => `   - ${line}`)
+    .join("\n");
+
+/**
+ * Chart analysis output with a required reading for each study on the chart
+ * Readings of studies the chart does not show are left out.
+ */
+export const getChartAnalysisSchema = (
+  spec: StructuredOutputSpec,
+  indicators: ChartIndicator[]
+): StructuredOutputSpec => {
+  const shown = indicators.flatMap((indicator) =>
+    indicator.field ? [indicator.field] : []
+  );
+  const schema = JSON.parse(JSON.stringify(spec.schema)) as JsonSchema;
+  const readings = schema.properties?.indicators;
+  if (readings?.properties) {
+    STUDY_FIELDS.filter((field) => !shown.includes(field)).forEach(
+      (field) => delete readings.properties?.[field]
+    );
+    readings.required = [...new Set([...(readings.required ?? []), ...shown])];
+  }
+  return { ...spec, schema: schema as Record<string, unknown> };
+};
+
+/**
+ * JSON layout of a schema as the prompts show it, e.g. "high|medium|low"
+ */
+const formatSchema = (schema: JsonSchema, indent: string): string => {
+  if (schema.type === "object") {
+    const inner = `${indent}  `;
+    const fields = Object.entries(schema.properties ?? {}).map(
+      ([key, field]) =>
+        `${inner}"${key}": ${formatSchema(field, inner)}${
+          schema.required?.includes(key) ? "" : " or null"
+        }`
+    );
+    return `{\n${fields.join(",\n")}\n${indent}}`;
+  }
+  if (schema.enum) {
+    return `"${schema.enum.join("|")}"`;
+  }
+  if (schema.type === "array") {
+    return `[${formatSchema(schema.items ?? {}, indent)}]`;
+  }
+  return schema.type === "number" || schema.type === "integer"
+    ? "number"
+    : `"${schema.type ?? "text"}"`;
+};
+
+/**
+ * The indicators object of a chart analysis schema, for JSON format prompts
+ */
+export const getIndicatorFormat = (spec: StructuredOutputSpec): string => {
+  const indicators = (spec.schema as JsonSchema).properties?.indicators;
+  return indicators ? formatSchema(indicators, "  ") : "{}";
+};
+
+/**
+ * One line per study reading, e.g. "Stoch RSI: oversold, bullish crossover"
+ */
+export const describeIndicatorReadings = (indicators: Indicators): string[] => {
+  const { bollingerBands, stochRsi } = indicators;
+  const lines: string[] = [];
+
+  if (bollingerBands) {
+    const bands = [
+      bollingerBands.upper !== undefined && `upper ${bollingerBands.upper}`,
+      bollingerBands.basis !== undefined && `basis ${bollingerBands.basis}`,
+      bollingerBands.lower !== undefined && `lower ${bollingerBands.lower}`,
+    ].filter(Boolean);
+    lines.push(
+      `Bollinger Bands: ${bollingerBands.position.replace(
+        /_/g,
+        " "
+      )}, bandwidth ${bollingerBands.bandwidth}${
+        bands.length > 0 ? ` (${bands.join(", ")})` : ""
+      }`
+    );
+  }
+
+  if (stochRsi) {
+    const values = [
+      stochRsi.k !== undefined && `%K ${stochRsi.k}`,
+      stochRsi.d !== undefined && `%D ${stochRsi.d}`,
+    ].filter(Boolean);
+    lines.push(
+      `Stoch RSI: ${stochRsi.zone}, ${
+        stochRsi.crossover === "none"
+          ? "no crossover"
+          : `${stochRsi.crossover} crossover`
+      }${values.length > 0 ? ` (${values.join(", ")})` : ""}`
+    );
+  }
+
+  return lines;
+};
@@ -0,0 +1,255 @@
+import type { ChartAgreement, ChartAnalysis } from "./vision-analysis";
+
+/**
+ * Analyze each timeframe several times and keep the consensus
+ * Temperatures and detail levels are cycled through, one per sample.
+ */
+export interface SamplingConfig {
+  samples: number; // Analyses per timeframe
+  temperatures?: number[]; // Default: the configured temperature
+  details?: Array<"low" | "high" | "auto">; // Default: the configured detail
+}
+
+// Levels within 0.5% of their neighbour count as the same level
+const LEVEL_TOLERANCE = 0.005;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+};
+
+/**
+ * Most common value and the share of samples that gave it
+ * Ties go to the value seen first, so the result does not depend on timing.
+ */
+const majority = <T>(values: T[]): { value: T; agreement: number } => {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  let best = values[0] as T;
+  counts.forEach((count, value) => {
+    if (count > (counts.get(best) ?? 0)) {
+      best = value;
+    }
+  });
+  return { value: best, agreement: (counts.get(best) ?? 0) / values.length };
+};
+
+/**
+ * Median of a 1-10 score and the share of samples within a point of it
+ */
+const medianScore = (
+  values: number[]
+): { value: number; agreement: number } => {
+  const value = median(values);
+  const close = values.filter((score) => Math.abs(score - value) <= 1);
+  return { value, agreement: close.length / values.length };
+};
+
+/**
+ * Median of the largest cluster of nearby price levels
+ * Samples without a level count against it, unless none of them gave one.
+ */
+const clusterLevels = (
+  levels: Array<number | undefined>
+): { value?: number; agreement: number } => {
+  const prices = levels
+    .filter((level): level is number => level !== undefined)
+    .sort((a, b) => a - b);
+  if (prices.length === 0) {
+    return { agreement: 1 };
+  }
+
+  const clusters: number[][] = [];
+  prices.forEach((price, index) => {
+    const previous = prices[index - 1];
+    const current = clusters[clusters.length - 1];
+    if (current && previous && price - previous <= previous * LEVEL_TOLERANCE) {
+      current.push(price);
+    } else {
+      clusters.push([price]);
+    }
+  });
+
+  const largest = clusters.reduce((best, cluster) =>
+    cluster.length > best.length ? cluster : best
+  );
+  return {
+    value: median(largest),
+    agreement: largest.length / levels.length,
+  };
+};
+
+/**
+ * Consensus of a study reading such as stochRsi, over the samples that gave it
+ * Majority per label, median per value; samples without it count against it.
+ */
+const combineReading = (
+  readings: unknown[]
+): { value?: Record<string, unknown>; agreement: number } => {
+  const present = readings.filter(
+    (reading): reading is Record<string, unknown> =>
+      typeof reading === "object" && reading !== null
+  );
+  if (present.length === 0) {
+    return { agreement: 1 };
+  }
+
+  const value: Record<string, unknown> = {};
+  const labelAgreement: number[] = [];
+  [...new Set(present.flatMap((reading) => Object.keys(reading)))].forEach(
+    (key) => {
+      const values = present
+        .map((reading) => reading[key])
+        .filter((field) => field !== undefined);
+      if (values.every((field) => typeof field === "number")) {
+        value[key] = median(values as number[]);
+      } else {
+        const label = majority(values);
+        value[key] = label.value;
+        labelAgreement.push(label.agreement);
+      }
+    }
+  );
+
+  const mean =
+    labelAgreement.reduce((sum, share) => sum + share, 0) /
+    Math.max(labelAgreement.length, 1);
+  return { value, agreement: (mean * present.length) / readings.length };
+};
+
+/**
+ * Combine samples of one timeframe into a single analysis
+ * Majority trend and indicator labels, median scores and clustered levels;
+ * the text and signals come from the samples that share the majority trend.
+ */
+export const buildConsensus = (samples: ChartAnalysis[]): ChartAnalysis => {
+  const [first] = samples;
+  if (!first) {
+    throw new Error("No chart analyses to build a consensus from");
+  }
+
+  const trend = majority(samples.map((sample) => sample.trend));
+  const strength = medianScore(samples.map((sample) => sample.strength));
+  const confidence = medianScore(samples.map((sample) => sample.confidence));
+  const support = clusterLevels(
+    samples.map((sample) => sample.keyLevels.support)
+  );
+  const resistance = clusterLevels(
+    samples.map((sample) => sample.keyLevels.resistance)
+  );
+
+  const prices = samples
+    .map((sample) => sample.lastPrice)
+    .filter((price): price is number => price !== undefined);
+
+  const indicators: Record<string, unknown> = {};
+  const indicatorAgreement: Record<string, number> = {};
+  // Study readings are only there when their study is on the chart
+  const keys = new Set(
+    samples.flatMap((sample) => Object.keys(sample.indicators))
+  );
+  keys.forEach((key) => {
+    const values = samples.map(
+      (sample) => (sample.indicators as Record<string, unknown>)[key]
+    );
+    const reading = values.some((value) => typeof value === "object")
+      ? combineReading(values)
+      : majority(values);
+    if (reading.value !== undefined) {
+      indicators[key] = reading.value;
+    }
+    indicatorAgreement[key] = reading.agreement;
+  });
+
+  // The majority sample whose strength is closest to the consensus
+  const agreeing = samples.filter((sample) => sample.trend === trend.value);
+  const representative = agreeing.reduce((best, sample) =>
+    Math.abs(sample.strength - strength.value) <
+    Math.abs(best.strength - strength.value)
+      ? sample
+      : best
+  );
+
+  const seen = new Set<string>();
+  const signals = agreeing
+    .flatMap((sample) => sample.signals)
+    .filter((signal) => {
+      const key = signal.trim().toLowerCase();
+      return seen.has(key) ? false : (seen.add(key), true);
+    });
+
+  const scores = [
+    trend.agreement,
+    strength.agreement,
+    confidence.agreement,
+    support.agreement,
+    resistance.agreement,
+    ...Object.values(indicatorAgreement),
+  ];
+  const agreement: ChartAgreement = {
+    samples: samples.length,
+    overall: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    trend: trend.agreement,
+    strength: strength.agreement,
+    confidence: confidence.agreement,
+    support: support.agreement,
+    resistance: resistance.agreement,
+    indicators: indicatorAgreement,
+  };
+
+  return {
+    timeframe: first.timeframe,
+    trend: trend.value,
+    strength: strength.value,
+    keyLevels: {
+      ...(support.value !== undefined && { support: support.value }),
+      ...(resistance.value !== undefined && { resistance: resistance.value }),
+    },
+    ...(prices.length > 0 && { lastPrice: median(prices) }),
+    indicators: indicators as ChartAnalysis["indicators"],
+    signals,
+    confidence: confidence.value,
+    analysis: representative.analysis,
+    agreement,
+  };
+};
+
+const percent = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * One-line agreement summary, e.g. for the decision prompt and the report
+ */
+export const describeAgreement = (agreement: ChartAgreement): string =>
+  `${percent(agreement.overall)} across ${agreement.samples} samples (${[
+    `trend ${percent(agreement.trend)}`,
+    `strength ${percent(agreement.strength)}`,
+    `confidence ${percent(agreement.confidence)}`,
+    `support ${percent(agreement.support)}`,
+    `resistance ${percent(agreement.resistance)}`,
+    ...Object.entries(agreement.indicators).map(
+      ([name, share]) => `${name} ${percent(share)}`
+    ),
+  ].join(", ")})`;
+
+/**
+ * Settings of one sample: the next temperature and detail in the rotation
+ */
+export const getSampleSettings = (
+  sampling: SamplingConfig,
+  index: number
+): { temperature?: number; detail?: "low" | "high" | "auto" } => {
+  const temperature = sampling.temperatures?.length
+    ? sampling.temperatures[index % sampling.temperatures.length]
+    : undefined;
+  const detail = sampling.details?.length
+    ? sampling.details[index % sampling.details.length]
+    : undefined;
+  return {
+    ...(temperature !== undefined && { temperature }),
+    ...(detail !== undefined && { detail }),
+  };
+};
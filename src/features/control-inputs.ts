@@ -0,0 +1,188 @@
+import fs from "fs";
+import readline from "readline";
+import { logger } from "../utils/logger";
+import { ControlCommand, TraderControl } from "./trader-control";
+
+/**
+ * Where a running auto trader takes control commands from
+ */
+export interface ControlInputOptions {
+  stdin: boolean; // Commands typed into the terminal, one per line
+  signals: boolean; // SIGUSR1 = run now, SIGUSR2 = toggle pause
+  controlFile?: string; // Commands written to this file are applied and the file removed
+}
+
+type InputCommand = ControlCommand | "toggle_pause" | "status" | "help";
+
+const COMMAND_ALIASES: Record<string, InputCommand> = {
+  run: "run_now",
+  now: "run_now",
+  "run-now": "run_now",
+  run_now: "run_now",
+  pause: "pause",
+  resume: "resume",
+  continue: "resume",
+  toggle: "toggle_pause",
+  stop: "stop",
+  quit: "stop",
+  status: "status",
+  help: "help",
+};
+
+const CONTROL_FILE_POLL_MS = 2000;
+
+/**
+ * Parse a command typed on stdin or written to the control file
+ */
+export const parseControlCommand = (text: string): InputCommand | undefined =>
+  COMMAND_ALIASES[text.trim().toLowerCase()];
+
+/**
+ * Log a one-line summary per trading loop
+ */
+const logStatus = (control: TraderControl): void => {
+  const status = control.getStatus();
+  logger.info(
+    `📋 ${
+      status.paused ? "Paused" : "Running"
+    }, cost so far $${status.cumulativeCost.toFixed(4)}`
+  );
+
+  status.lanes.forEach((lane) => {
+    const parts = [
+      `${lane.symbol ?? "default"}: ${lane.state}`,
+      `${lane.cyclesCompleted} cycles`,
+      `${lane.consecutiveFailures} consecutive failures`,
+      ...(lane.currentCycle ? [`running ${lane.currentCycle.cycleId}`] : []),
+      ...(lane.nextRunAt
+        ? [`next run ${new Date(lane.nextRunAt).toLocaleTimeString()}`]
+        : []),
+      ...(lane.lastVerdict
+        ? [
+            `last verdict ${lane.lastVerdict.action} (${lane.lastVerdict.confidence}%)`,
+          ]
+        : []),
+    ];
+    logger.info(`   ${parts.join(", ")}`);
+  });
+};
+
+/**
+ * Apply a parsed input command to the trader
+ */
+const applyCommand = (
+  control: TraderControl,
+  text: string,
+  source: string
+): void => {
+  const command = parseControlCommand(text);
+
+  switch (command) {
+    case undefined:
+      logger.warn(
+        `⚠️  Unknown command "${text.trim()}" from ${source} (try: run, pause, resume, toggle, stop, status)`
+      );
+      break;
+    case "status":
+      logStatus(control);
+      break;
+    case "help":
+      logger.info(
+        `⌨️  Commands: run (start the next cycle now), pause, resume, toggle, stop, status`
+      );
+      break;
+    case "toggle_pause":
+      control.command(control.isPaused() ? "resume" : "pause", source);
+      break;
+    default:
+      control.command(command, source);
+  }
+};
+
+/**
+ * Read commands from the control file, then remove it so each is applied once
+ */
+const consumeControlFile = (
+  control: TraderControl,
+  controlFile: string
+): void => {
+  if (!fs.existsSync(controlFile)) {
+    return;
+  }
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(controlFile, "utf8");
+    fs.unlinkSync(controlFile);
+  } catch {
+    return; // Removed between the check and the read
+  }
+
+  contents
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .forEach((line) =>
+      applyCommand(control, line, `control file ${controlFile}`)
+    );
+};
+
+/**
+ * Listen for control commands from stdin, a control file and Unix signals
+ * Returns a function that detaches every listener again.
+ */
+export const attachControlInputs = (
+  control: TraderControl,
+  options: ControlInputOptions
+): (() => void) => {
+  const detachers: Array<() => void> = [];
+
+  if (options.stdin) {
+    // No terminal mode, so Ctrl+C still reaches the shutdown handler
+    const input = readline.createInterface({
+      input: process.stdin,
+      terminal: false,
+    });
+    input.on("line", (line) => {
+      if (line.trim()) {
+        applyCommand(control, line, "stdin");
+      }
+    });
+    detachers.push(() => input.close());
+    logger.info(
+      `⌨️  Type run, pause, resume, toggle, stop or status and press Enter`
+    );
+  }
+
+  if (options.signals && process.platform !== "win32") {
+    const runNow = () => control.command("run_now", "SIGUSR1");
+    const togglePause = () =>
+      control.command(control.isPaused() ? "resume" : "pause", "SIGUSR2");
+    process.on("SIGUSR1", runNow);
+    process.on("SIGUSR2", togglePause);
+    detachers.push(() => {
+      process.off("SIGUSR1", runNow);
+      process.off("SIGUSR2", togglePause);
+    });
+  }
+
+  const { controlFile } = options;
+  if (controlFile) {
+    // A command left over from an earlier run should not act on this one
+    if (fs.existsSync(controlFile)) {
+      logger.warn(`⚠️  Removing stale control file ${controlFile}`);
+      fs.unlinkSync(controlFile);
+    }
+
+    const poller = setInterval(
+      () => consumeControlFile(control, controlFile),
+      CONTROL_FILE_POLL_MS
+    );
+    poller.unref();
+    detachers.push(() => clearInterval(poller));
+    logger.info(
+      `📝 Watching ${controlFile} for commands (e.g. echo pause > ${controlFile})`
+    );
+  }
+
+  return () => detachers.forEach((detach) => detach());
+};
@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { logger } from "../utils/logger";
+import { ControlCommand, TraderControl } from "./trader-control";
+
+/**
+ * Where the local control API listens
+ */
+export interface ControlServerConfig {
+  port: number; // 0 picks a free port
+  host: string;
+  token?: string; // Required as "Authorization: Bearer <token>"; default: CONTROL_API_TOKEN
+}
+
+// Only reachable from this machine unless a host is configured explicitly
+export const DEFAULT_CONTROL_HOST = "127.0.0.1";
+
+/**
+ * Whether a host name or address only reaches this machine
+ */
+export const isLoopbackHost = (host: string): boolean => {
+  const name = host.replace(/^\[|\]$/g, "").toLowerCase();
+  return (
+    name === "localhost" || name === "::1" || /^127(\.\d{1,3}){3}$/.test(name)
+  );
+};
+
+/**
+ * Token the API requires, from the config or the environment
+ */
+export const getControlToken = (
+  config: Pick<ControlServerConfig, "token">
+): string | undefined =>
+  config.token || process.env.CONTROL_API_TOKEN || undefined;
+
+/**
+ * Why a request may not use the API, or undefined when it may
+ * With a token, only the token counts. Without one, web pages open in a local
+ * browser are kept out: requests must name a loopback Host, and any Origin
+ * must be loopback too.
+ */
+const getRejection = (
+  request: http.IncomingMessage,
+  token?: string
+): { statusCode: number; error: string } | undefined => {
+  if (token) {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(request.headers.authorization ?? "");
+    return given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+      ? undefined
+      : { statusCode: 401, error: "Missing or wrong bearer token" };
+  }
+
+  const host = (request.headers.host ?? "").replace(/:\d+$/, "");
+  if (!isLoopbackHost(host)) {
+    return { statusCode: 403, error: `Host ${host || "(none)"} not allowed` };
+  }
+
+  const { origin } = request.headers;
+  if (origin !== undefined) {
+    let originHost = "";
+    try {
+      originHost = new URL(origin).hostname;
+    } catch {
+      // "null" and other opaque origins are rejected below
+    }
+    if (!isLoopbackHost(originHost)) {
+      return { statusCode: 403, error: `Origin ${origin} not allowed` };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * A running control API
+ */
+export interface ControlServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const COMMAND_ROUTES: Record<string, ControlCommand> = {
+  "/run-now": "run_now",
+  "/pause": "pause",
+  "/resume": "resume",
+  "/stop": "stop",
+};
+
+/**
+ * Write a JSON response
+ */
+const sendJson = (
+  response: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+): void => {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, null, 2));
+};
+
+/**
+ * Start the local HTTP status and control API
+ *
+ * GET  /status                          current cycle, last verdict, next run, failures, cost
+ * POST /run-now | /pause | /resume | /stop   with Content-Type: application/json
+ *
+ * Listening beyond this machine requires a token.
+ */
+export const startControlServer = (
+  control: TraderControl,
+  config: ControlServerConfig
+): Promise<ControlServer> => {
+  const token = getControlToken(config);
+  if (!token && !isLoopbackHost(config.host)) {
+    return Promise.reject(
+      new Error(
+        `Control API host ${config.host} is reachable from other machines: set controlApi.token or CONTROL_API_TOKEN`
+      )
+    );
+  }
+
+  const server = http.createServer((request, response) => {
+    const route = new URL(request.url ?? "/", "http://localhost").pathname;
+
+    const rejection = getRejection(request, token);
+    if (rejection) {
+      request.resume();
+      sendJson(response, rejection.statusCode, { error: rejection.error });
+      return;
+    }
+
+    if (route === "/" || route === "/status") {
+      if (request.method !== "GET") {
+        sendJson(response, 405, { error: "Use GET for status" });
+        return;
+      }
+      sendJson(response, 200, control.getStatus());
+      return;
+    }
+
+    const command = COMMAND_ROUTES[route];
+    if (!command) {
+      sendJson(response, 404, {
+        error: `Unknown route ${route}`,
+        routes: [
+          "GET /status",
+          ...Object.keys(COMMAND_ROUTES).map((r) => `POST ${r}`),
+        ],
+      });
+      return;
+    }
+
+    if (request.method !== "POST") {
+      sendJson(response, 405, { error: `Use POST for ${route}` });
+      return;
+    }
+
+    // A JSON content type cannot be sent by a plain form or no-cors request
+    if (!/^application\/json\b/i.test(request.headers["content-type"] ?? "")) {
+      request.resume();
+      sendJson(response, 415, {
+        error: "Send commands with Content-Type: application/json",
+      });
+      return;
+    }
+
+    // Commands carry no body; drain anything sent so the socket is released
+    request.resume();
+    control.command(command, "control API");
+    sendJson(response, 202, { accepted: command, status: control.getStatus() });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port, config.host, () => {
+      server.off("error", reject);
+      const { port } = server.address() as AddressInfo;
+      const url = `http://${config.host}:${port}`;
+      logger.info(
+        `🌐 Control API listening on ${url}${
+          token ? " (bearer token required)" : ""
+        }`
+      );
+
+      resolve({
+        url,
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            server.close(() => resolveClose());
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+};
@@ -0,0 +1,251 @@
+import { logger } from "../utils/logger";
+import {
+  VisionImage,
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+  VisionStage,
+} from "./vision-provider";
+
+/**
+ * Prices for one model, in USD per million tokens
+ * Images are billed as input tokens: a base cost per image plus a cost per
+ * 512px tile at high detail.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  imageInput?: number; // Price of image tokens (default: input)
+  imageBaseTokens?: number; // Tokens per image at any detail (default: 85)
+  imageTileTokens?: number; // Tokens per 512px tile at high detail (default: 170)
+}
+
+/**
+ * Tokens and cost of one model call
+ */
+export interface CallCost {
+  stage: VisionStage;
+  timeframe?: string;
+  model: string; // As reported by the provider, e.g. gpt-4o-2024-08-06
+  detail?: VisionImage["detail"]; // Image detail of chart calls
+  inputTokens: number; // Including image tokens
+  imageTokens: number;
+  outputTokens: number;
+  cost: number;
+  estimated?: boolean; // No usage reported: tokens estimated from the text
+}
+
+/**
+ * Spend of one analysis, per stage and per timeframe
+ */
+export interface CostBreakdown {
+  total: number;
+  inputTokens: number;
+  outputTokens: number;
+  byStage: Partial<Record<VisionStage, number>>;
+  byTimeframe: Record<string, number>; // Chart analysis calls only
+  calls: CallCost[];
+}
+
+/**
+ * Collects the cost of every call a provider makes
+ */
+export interface CostTracker {
+  provider: VisionProvider; // Use this provider for calls to be counted
+  breakdown: () => CostBreakdown;
+}
+
+// Published OpenAI list prices; override or extend with analysis.prices
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": {
+    input: 0.15,
+    output: 0.6,
+    imageBaseTokens: 2833,
+    imageTileTokens: 5667,
+  },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+const DEFAULT_IMAGE_BASE_TOKENS = 85;
+const DEFAULT_IMAGE_TILE_TOKENS = 170;
+
+/**
+ * Price entry for a model, matching dated names such as gpt-4o-2024-08-06
+ */
+export const findModelPrice = (
+  model: string,
+  prices: Record<string, ModelPrice>
+): ModelPrice | undefined => {
+  const match = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+};
+
+/**
+ * Width and height of a base64 PNG, read from its header
+ */
+const getPngSize = (
+  base64: string
+): { width: number; height: number } | undefined => {
+  const header = Buffer.from(base64.slice(0, 44), "base64");
+  if (header.length < 24 || header.toString("ascii", 12, 16) !== "IHDR") {
+    return undefined;
+  }
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+};
+
+/**
+ * Tokens an image is billed as
+ * High detail fits the image in 2048x2048, scales the short side to 768 and
+ * counts 512px tiles.
+ */
+export const getImageTokens = (
+  image: VisionImage,
+  price?: ModelPrice
+): number => {
+  const baseTokens = price?.imageBaseTokens ?? DEFAULT_IMAGE_BASE_TOKENS;
+  const tileTokens = price?.imageTileTokens ?? DEFAULT_IMAGE_TILE_TOKENS;
+  const size =
+    image.mimeType === "image/png" ? getPngSize(image.base64) : undefined;
+
+  if (image.detail === "low" || !size) {
+    return baseTokens;
+  }
+
+  const fit = Math.min(1, 2048 / Math.max(size.width, size.height));
+  const shortSide = Math.min(size.width, size.height) * fit;
+  const scale = fit * Math.min(1, 768 / shortSide);
+  const tiles =
+    Math.ceil((size.width * scale) / 512) *
+    Math.ceil((size.height * scale) / 512);
+
+  return baseTokens + tiles * tileTokens;
+};
+
+/**
+ * Price one call from the usage the provider reported
+ * Without usage, text tokens are estimated at four characters per token.
+ */
+export const getCallCost = (
+  request: VisionRequest,
+  response: VisionResponse,
+  prices: Record<string, ModelPrice>,
+  billable: boolean
+): CallCost => {
+  const price =
+    findModelPrice(response.model, prices) ??
+    findModelPrice(request.model, prices);
+  const imageTokens = (request.images ?? []).reduce(
+    (sum, image) => sum + getImageTokens(image, price),
+    0
+  );
+  const inputTokens =
+    response.usage?.inputTokens ??
+    Math.ceil(request.prompt.length / 4) + imageTokens;
+  const outputTokens =
+    response.usage?.outputTokens ?? Math.ceil(response.content.length / 4);
+
+  // Usage includes image tokens, which may be priced differently
+  const textTokens = Math.max(0, inputTokens - imageTokens);
+  const cost =
+    billable && price
+      ? (textTokens * price.input +
+          imageTokens * (price.imageInput ?? price.input) +
+          outputTokens * price.output) /
+        1_000_000
+      : 0;
+
+  return {
+    stage: request.stage,
+    ...(request.timeframe && { timeframe: request.timeframe }),
+    model: response.model,
+    ...(request.images?.[0] && {
+      detail: request.images[0].detail ?? "high",
+    }),
+    inputTokens,
+    imageTokens,
+    outputTokens,
+    cost,
+    ...(!response.usage && { estimated: true }),
+  };
+};
+
+/**
+ * Total calls per stage and per timeframe
+ */
+export const summarizeCosts = (calls: CallCost[]): CostBreakdown => {
+  const breakdown: CostBreakdown = {
+    total: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    byStage: {},
+    byTimeframe: {},
+    calls,
+  };
+
+  calls.forEach((call) => {
+    breakdown.total += call.cost;
+    breakdown.inputTokens += call.inputTokens;
+    breakdown.outputTokens += call.outputTokens;
+    breakdown.byStage[call.stage] =
+      (breakdown.byStage[call.stage] ?? 0) + call.cost;
+    if (call.timeframe) {
+      breakdown.byTimeframe[call.timeframe] =
+        (breakdown.byTimeframe[call.timeframe] ?? 0) + call.cost;
+    }
+  });
+
+  return breakdown;
+};
+
+/**
+ * Hooks around every tracked call
+ */
+export interface CostTrackerHooks {
+  beforeCall?: (request: VisionRequest) => void; // Throw to refuse the call
+  onCall?: (call: CallCost, request: VisionRequest) => void;
+}
+
+/**
+ * Wrap a provider so the cost of every call is recorded
+ */
+export const createCostTracker = (
+  inner: VisionProvider,
+  prices: Record<string, ModelPrice> = {},
+  hooks: CostTrackerHooks = {}
+): CostTracker => {
+  const table = { ...DEFAULT_MODEL_PRICES, ...prices };
+  const calls: CallCost[] = [];
+  const unpriced = new Set<string>();
+
+  return {
+    provider: {
+      ...inner,
+      complete: async (request) => {
+        hooks.beforeCall?.(request);
+        const response = await inner.complete(request);
+        const call = getCallCost(request, response, table, inner.billable);
+
+        if (
+          inner.billable &&
+          !findModelPrice(response.model, table) &&
+          !findModelPrice(request.model, table) &&
+          !unpriced.has(request.model)
+        ) {
+          unpriced.add(request.model);
+          logger.warn(
+            `⚠️  No price for ${request.model}, its calls are counted as free (add it to analysis.prices)`
+          );
+        }
+
+        calls.push(call);
+        hooks.onCall?.(call, request);
+        return response;
+      },
+    },
+    breakdown: () => summarizeCosts(calls),
+  };
+};
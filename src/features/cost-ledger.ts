@@ -0,0 +1,357 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "../utils/logger";
+import {
+  CallCost,
+  DEFAULT_MODEL_PRICES,
+  findModelPrice,
+  ModelPrice,
+} from "./cost-accounting";
+import { parseModelSpec, VisionImage } from "./vision-provider";
+
+type ImageDetail = NonNullable<VisionImage["detail"]>;
+
+/**
+ * Spend caps in USD, and what to do when a cycle would exceed one
+ */
+export interface BudgetConfig {
+  perCycle?: number;
+  daily?: number; // Local calendar day
+  monthly?: number; // Local calendar month
+  onExceed?: "downgrade" | "skip"; // Default: downgrade, then skip if that is not enough
+  downgradeModel?: string; // Default: gpt-4o-mini, on the configured provider unless prefixed
+  downgradeDetail?: ImageDetail; // Default: low
+}
+
+/**
+ * One priced model call, one JSON object per line
+ */
+export interface LedgerEntry extends CallCost {
+  timestamp: string;
+  requestedModel: string; // Model asked for, without the provider prefix
+  cycleId?: string;
+  symbol?: string;
+}
+
+/**
+ * Append-only record of every model call's cost
+ */
+export interface CostLedger {
+  path: string;
+  record: (entry: Omit<LedgerEntry, "timestamp">) => void;
+  entries: () => LedgerEntry[];
+  spentSince: (since: Date) => number;
+  spentOnCycle: (cycleId: string) => number;
+}
+
+/**
+ * What the budget allows the next cycle to do
+ */
+export type BudgetDecision =
+  | { action: "run"; projectedCost: number }
+  | {
+      action: "downgrade";
+      model: string;
+      detail: ImageDetail;
+      projectedCost: number;
+      reason: string;
+    }
+  | { action: "skip"; projectedCost: number; reason: string };
+
+export const DEFAULT_COST_LEDGER_PATH = "logs/cost-ledger.jsonl";
+
+const DEFAULT_DOWNGRADE_MODEL = "gpt-4o-mini";
+
+// Cycles averaged to project the cost of the next one
+const PROJECTION_CYCLES = 5;
+
+/**
+ * Load ledger entries, skipping lines cut short by a crash
+ */
+const readEntries = (ledgerPath: string): LedgerEntry[] => {
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  const lines = fs.readFileSync(ledgerPath, "utf8").split("\n");
+  const entries: LedgerEntry[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      logger.warn(
+        `⚠️  Skipping unreadable cost ledger line ${index + 1} in ${ledgerPath}`
+      );
+    }
+  });
+  return entries;
+};
+
+/**
+ * Open the cost ledger, creating it on the first recorded call
+ */
+export const createCostLedger = (
+  ledgerPath: string = DEFAULT_COST_LEDGER_PATH
+): CostLedger => {
+  const entries = readEntries(ledgerPath);
+
+  const sumCost = (selected: LedgerEntry[]): number =>
+    selected.reduce((sum, entry) => sum + entry.cost, 0);
+
+  return {
+    path: ledgerPath,
+    record: (entry) => {
+      const full: LedgerEntry = {
+        timestamp: new Date().toISOString(),
+        ...entry,
+      };
+      entries.push(full);
+      try {
+        fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+        fs.appendFileSync(ledgerPath, `${JSON.stringify(full)}\n`);
+      } catch (error) {
+        logger.warn(
+          `⚠️  Failed to write cost ledger ${ledgerPath}: ${
+            (error as Error).message
+          }`
+        );
+      }
+    },
+    entries: () => entries,
+    spentSince: (since) =>
+      sumCost(entries.filter((entry) => new Date(entry.timestamp) >= since)),
+    spentOnCycle: (cycleId) =>
+      sumCost(entries.filter((entry) => entry.cycleId === cycleId)),
+  };
+};
+
+const startOfDay = (now: Date): Date =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+const startOfMonth = (now: Date): Date =>
+  new Date(now.getFullYear(), now.getMonth(), 1);
+
+/**
+ * Error raised to refuse a model call once a spend cap is reached
+ */
+export class SpendCapError extends Error {
+  constructor(cap: string) {
+    super(`Spend cap reached: ${cap}`);
+    this.name = "SpendCapError";
+  }
+}
+
+/**
+ * The first cap already reached, if any
+ * Checked before every model call so a runaway loop cannot keep spending.
+ */
+export const getReachedCap = (
+  ledger: CostLedger,
+  budget: BudgetConfig,
+  cycleId?: string,
+  now: Date = new Date()
+): string | undefined => {
+  const caps: Array<[string, number | undefined, () => number]> = [
+    [
+      "per-cycle",
+      budget.perCycle,
+      () => (cycleId ? ledger.spentOnCycle(cycleId) : 0),
+    ],
+    ["daily", budget.daily, () => ledger.spentSince(startOfDay(now))],
+    ["monthly", budget.monthly, () => ledger.spentSince(startOfMonth(now))],
+  ];
+
+  for (const [name, cap, spent] of caps) {
+    if (cap !== undefined && spent() >= cap) {
+      return `${name} spend cap of $${cap.toFixed(
+        2
+      )} reached ($${spent().toFixed(4)} spent)`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Rough cost of a cycle with no history: one image call per timeframe and
+ * three text calls
+ */
+const estimateCycleCost = (
+  model: string,
+  detail: ImageDetail,
+  timeframeCount: number,
+  prices: Record<string, ModelPrice>
+): number => {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    return 0;
+  }
+
+  // A 1920x1080 screenshot is 6 tiles at high detail
+  const imageTokens =
+    (price.imageBaseTokens ?? 85) +
+    (detail === "low" ? 0 : 6 * (price.imageTileTokens ?? 170));
+  const chartCost =
+    (800 * price.input +
+      imageTokens * (price.imageInput ?? price.input) +
+      400 * price.output) /
+    1_000_000;
+  const textCost = (1500 * price.input + 500 * price.output) / 1_000_000;
+
+  return timeframeCount * chartCost + 3 * textCost;
+};
+
+/**
+ * Projected cost of the next cycle: the average of recent cycles with the
+ * same model and detail, or an estimate when there are none
+ */
+export const projectCycleCost = (
+  ledger: CostLedger,
+  modelSpec: string,
+  detail: ImageDetail,
+  timeframeCount: number,
+  prices: Record<string, ModelPrice> = {}
+): number => {
+  const { model } = parseModelSpec(modelSpec);
+  const totals = new Map<string, number>();
+  const otherDetail = new Set<string>();
+
+  ledger.entries().forEach((entry) => {
+    if (!entry.cycleId || entry.requestedModel !== model) {
+      return;
+    }
+    if (entry.stage === "chart_analysis" && entry.detail !== detail) {
+      otherDetail.add(entry.cycleId);
+    }
+    totals.set(entry.cycleId, (totals.get(entry.cycleId) ?? 0) + entry.cost);
+  });
+
+  const recent = [...totals.entries()]
+    .filter(([cycleId]) => !otherDetail.has(cycleId))
+    .map(([, cost]) => cost)
+    .slice(-PROJECTION_CYCLES);
+  if (recent.length > 0) {
+    return recent.reduce((sum, cost) => sum + cost, 0) / recent.length;
+  }
+
+  return estimateCycleCost(model, detail, timeframeCount, {
+    ...DEFAULT_MODEL_PRICES,
+    ...prices,
+  });
+};
+
+/**
+ * Decide whether the next cycle fits the budget, possibly with a cheaper
+ * model or lower detail
+ */
+export const planCycleBudget = (
+  ledger: CostLedger,
+  budget: BudgetConfig,
+  analysis: {
+    model?: string; // Model spec, as in analysis.model
+    detail: ImageDetail;
+    timeframeCount: number;
+    prices?: Record<string, ModelPrice>;
+  },
+  now: Date = new Date()
+): BudgetDecision => {
+  const spentToday = ledger.spentSince(startOfDay(now));
+  const spentThisMonth = ledger.spentSince(startOfMonth(now));
+
+  const check = (projected: number): string | undefined => {
+    if (budget.perCycle !== undefined && projected > budget.perCycle) {
+      return `projected cycle cost $${projected.toFixed(
+        4
+      )} exceeds the per-cycle cap of $${budget.perCycle.toFixed(2)}`;
+    }
+    if (budget.daily !== undefined && spentToday + projected > budget.daily) {
+      return `$${spentToday.toFixed(4)} spent today + $${projected.toFixed(
+        4
+      )} projected exceeds the daily cap of $${budget.daily.toFixed(2)}`;
+    }
+    if (
+      budget.monthly !== undefined &&
+      spentThisMonth + projected > budget.monthly
+    ) {
+      return `$${spentThisMonth.toFixed(
+        4
+      )} spent this month + $${projected.toFixed(
+        4
+      )} projected exceeds the monthly cap of $${budget.monthly.toFixed(2)}`;
+    }
+    return undefined;
+  };
+
+  const { provider, model: configuredModel } = parseModelSpec(analysis.model);
+  const current = `${provider}:${configuredModel}`;
+  const project = (model: string, detail: ImageDetail) =>
+    projectCycleCost(
+      ledger,
+      model,
+      detail,
+      analysis.timeframeCount,
+      analysis.prices
+    );
+
+  const projectedCost = project(current, analysis.detail);
+  const reason = check(projectedCost);
+  if (!reason) {
+    return { action: "run", projectedCost };
+  }
+
+  // An unprefixed downgrade model stays on the configured provider
+  const downgradeSpec = budget.downgradeModel ?? DEFAULT_DOWNGRADE_MODEL;
+  const downgrade = parseModelSpec(downgradeSpec);
+  const model = downgradeSpec.startsWith(`${downgrade.provider}:`)
+    ? downgradeSpec
+    : `${provider}:${downgrade.model}`;
+  const detail = budget.downgradeDetail ?? "low";
+  const isDowngrade = model !== current || detail !== analysis.detail;
+  if (budget.onExceed !== "skip" && isDowngrade) {
+    const downgradedCost = project(model, detail);
+    if (!check(downgradedCost)) {
+      return {
+        action: "downgrade",
+        model,
+        detail,
+        projectedCost: downgradedCost,
+        reason,
+      };
+    }
+  }
+
+  return { action: "skip", projectedCost, reason };
+};
+
+/**
+ * Spend totals grouped by a ledger field
+ */
+export const summarizeSpend = (
+  entries: LedgerEntry[],
+  groupBy: (entry: LedgerEntry) => string
+): Array<{ key: string; cost: number; calls: number; cycles: number }> => {
+  const groups = new Map<
+    string,
+    { cost: number; calls: number; cycles: Set<string> }
+  >();
+
+  entries.forEach((entry) => {
+    const key = groupBy(entry);
+    const group = groups.get(key) ?? { cost: 0, calls: 0, cycles: new Set() };
+    group.cost += entry.cost;
+    group.calls++;
+    if (entry.cycleId) {
+      group.cycles.add(entry.cycleId);
+    }
+    groups.set(key, group);
+  });
+
+  return [...groups.entries()].map(([key, group]) => ({
+    key,
+    cost: group.cost,
+    calls: group.calls,
+    cycles: group.cycles.size,
+  }));
+};
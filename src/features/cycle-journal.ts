@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import { FailureClass } from "../utils/failures";
+import { logger } from "../utils/logger";
+
+/**
+ * Pipeline steps recorded in the journal
+ */
+export type JournalStep = "capture" | "analysis" | "artifact";
+
+/**
+ * Append-only journal entry, one JSON object per line
+ */
+export type JournalEntry =
+  | {
+      type: "cycle_start";
+      timestamp: string;
+      cycleNumber: number;
+      cycleId: string;
+      configVersion?: string; // Which resolved settings this cycle ran with
+    }
+  | {
+      type: "step";
+      timestamp: string;
+      cycleNumber: number;
+      cycleId: string;
+      step: JournalStep;
+      success: boolean;
+      error?: string;
+      failureClass?: FailureClass;
+      timedOut?: boolean;
+    }
+  | {
+      type: "cycle_end";
+      timestamp: string;
+      cycleNumber: number;
+      cycleId: string;
+      success: boolean;
+      consecutiveFailures: number;
+      verdict?: {
+        action: string;
+        confidence: number;
+        nextCheckMinutes: number;
+        entryPrice?: number;
+        stopLoss?: number;
+        takeProfit?: number;
+      };
+      price?: number; // Latest chart price seen by the analysis
+      error?: string;
+    }
+  | {
+      type: "scheduled";
+      timestamp: string;
+      nextCycleNumber: number;
+      nextRunAt: string;
+      reason: "interval" | "retry" | "error" | "schedule" | "budget";
+    }
+  | {
+      type: "budget";
+      timestamp: string;
+      cycleNumber: number;
+      cycleId: string;
+      action: "downgrade" | "skip";
+      reason: string;
+      projectedCost: number;
+      model?: string; // Downgraded model and detail
+      detail?: string;
+    }
+  | {
+      type: "shutdown";
+      timestamp: string;
+      reason:
+        | "stop_requested"
+        | "grace_timeout"
+        | "force_quit"
+        | "single_cycle"
+        | "max_failures"
+        | "fatal_error";
+      inFlightCycle?: {
+        cycleNumber: number;
+        cycleId: string;
+      };
+    };
+
+/**
+ * Distributive omit so each journal entry variant keeps its own fields
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * State reconstructed from the journal after a restart
+ */
+export interface RecoveredJournalState {
+  lastCycleNumber: number;
+  consecutiveFailures: number;
+  nextRunAt?: Date;
+  interruptedCycle?: {
+    cycleNumber: number;
+    cycleId: string;
+  };
+}
+
+/**
+ * Journal handle used by the auto trader
+ */
+export interface CycleJournal {
+  path: string;
+  append: (entry: DistributiveOmit<JournalEntry, "timestamp">) => void;
+  recover: () => RecoveredJournalState | null;
+}
+
+/**
+ * Read all well-formed entries from a journal file
+ */
+export const readJournalEntries = (journalPath: string): JournalEntry[] => {
+  if (!fs.existsSync(journalPath)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  const lines = fs.readFileSync(journalPath, "utf8").split("\n");
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      // A crash can leave a partially written last line behind
+      logger.warn(
+        `⚠️  Skipping malformed journal line ${index + 1} in ${journalPath}`
+      );
+    }
+  });
+
+  return entries;
+};
+
+/**
+ * Fold journal entries into the state the auto trader needs to resume
+ */
+export const recoverJournalState = (
+  entries: JournalEntry[]
+): RecoveredJournalState | null => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const state: RecoveredJournalState = {
+    lastCycleNumber: 0,
+    consecutiveFailures: 0,
+  };
+  let openCycle: RecoveredJournalState["interruptedCycle"];
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case "cycle_start":
+        state.lastCycleNumber = Math.max(
+          state.lastCycleNumber,
+          entry.cycleNumber
+        );
+        openCycle = { cycleNumber: entry.cycleNumber, cycleId: entry.cycleId };
+        delete state.nextRunAt;
+        break;
+      case "cycle_end":
+        state.consecutiveFailures = entry.consecutiveFailures;
+        if (openCycle?.cycleId === entry.cycleId) {
+          openCycle = undefined;
+        }
+        break;
+      case "scheduled":
+        state.nextRunAt = new Date(entry.nextRunAt);
+        break;
+      case "budget":
+        // Skipped cycles never start, but their number is used up
+        state.lastCycleNumber = Math.max(
+          state.lastCycleNumber,
+          entry.cycleNumber
+        );
+        break;
+      case "step":
+      case "shutdown":
+        break;
+    }
+  }
+
+  if (openCycle) {
+    state.interruptedCycle = openCycle;
+  }
+
+  return state;
+};
+
+/**
+ * Create a JSONL cycle journal at the given path
+ */
+export const createCycleJournal = (journalPath: string): CycleJournal => ({
+  path: journalPath,
+  append: (entry) => {
+    const dir = path.dirname(journalPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      ...entry,
+    });
+    fs.appendFileSync(journalPath, `${line}\n`);
+  },
+  recover: () => recoverJournalState(readJournalEntries(journalPath)),
+});
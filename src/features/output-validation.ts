@@ -0,0 +1,436 @@
+import type {
+  ChartAnalysis,
+  ComprehensiveAnalysis,
+  TradingDecision,
+  TradingVerdict,
+} from "./vision-analysis";
+import type { InstrumentSpec } from "../config/markets";
+
+type PriceRange = NonNullable<InstrumentSpec["priceRange"]>;
+
+/**
+ * Outcome of checking one model reply
+ * - repairs: fields that were coerced into shape (recorded, not fatal)
+ * - errors: fields that could not be repaired; value is undefined when present
+ */
+export interface ValidationResult<T> {
+  value?: T;
+  repairs: string[];
+  errors: string[];
+}
+
+interface Issues {
+  repairs: string[];
+  errors: string[];
+  priceRange?: PriceRange; // Typical prices of the instrument being analyzed
+}
+
+/**
+ * Coerce one field, returning undefined to leave it out
+ */
+type FieldCoercer = (value: unknown, field: string, issues: Issues) => unknown;
+
+const describe = (value: unknown): string =>
+  JSON.stringify(value) ?? "undefined";
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Read numbers the model wrote as text, e.g. "$65,100.50" or "7/10"
+ */
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const match = value.replace(/[$,\s]/g, "").match(/^-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+};
+
+const required =
+  (coerce: FieldCoercer): FieldCoercer =>
+  (value, field, issues) => {
+    if (isMissing(value)) {
+      issues.errors.push(`${field} is required`);
+      return undefined;
+    }
+    return coerce(value, field, issues);
+  };
+
+// null is how the prompts ask for "no value"
+const optional =
+  (coerce: FieldCoercer): FieldCoercer =>
+  (value, field, issues) =>
+    isMissing(value) ? undefined : coerce(value, field, issues);
+
+const text: FieldCoercer = (value, field, issues) => {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    issues.repairs.push(`${field}: converted ${describe(value)} to text`);
+    return String(value);
+  }
+  issues.errors.push(`${field} must be a string, got ${describe(value)}`);
+  return undefined;
+};
+
+/**
+ * Enum value, matched case-insensitively and through common synonyms
+ */
+const oneOf =
+  <T extends string>(
+    allowed: readonly T[],
+    synonyms: Record<string, T> = {}
+  ): FieldCoercer =>
+  (value, field, issues) => {
+    if (allowed.includes(value as T)) {
+      return value;
+    }
+
+    const normalized = String(value).trim().toLowerCase();
+    const match =
+      allowed.find((option) => option.toLowerCase() === normalized) ??
+      synonyms[normalized];
+    if (match && typeof value === "string") {
+      issues.repairs.push(`${field}: ${describe(value)} → "${match}"`);
+      return match;
+    }
+
+    issues.errors.push(
+      `${field} must be one of ${allowed.join(", ")}, got ${describe(value)}`
+    );
+    return undefined;
+  };
+
+/**
+ * Number in a range; out-of-range values are clamped
+ */
+const numberIn =
+  (options: {
+    min: number;
+    max?: number;
+    integer?: boolean;
+    percentScale?: boolean; // 1-10 fields: read 70 as 7
+  }): FieldCoercer =>
+  (value, field, issues) => {
+    const parsed = toNumber(value);
+    if (parsed === undefined) {
+      issues.errors.push(`${field} must be a number, got ${describe(value)}`);
+      return undefined;
+    }
+
+    let result = parsed;
+    if (
+      options.percentScale &&
+      options.max !== undefined &&
+      result > options.max &&
+      result <= 100
+    ) {
+      result = result / 10;
+    }
+    if (options.integer) {
+      result = Math.round(result);
+    }
+    result = Math.max(options.min, Math.min(options.max ?? Infinity, result));
+
+    if (result !== value) {
+      issues.repairs.push(`${field}: ${describe(value)} → ${result}`);
+    }
+    return result;
+  };
+
+/**
+ * Optional price level; unusable values are dropped rather than guessed
+ */
+const price: FieldCoercer = (value, field, issues) => {
+  // Models sometimes list several levels, keep the first
+  const candidate = Array.isArray(value) ? value[0] : value;
+  const parsed = toNumber(candidate);
+
+  if (parsed === undefined || parsed <= 0) {
+    issues.repairs.push(`${field}: dropped unusable price ${describe(value)}`);
+    return undefined;
+  }
+  // A level of the wrong magnitude was read off another market or made up
+  const range = issues.priceRange;
+  if (range && (parsed < range.min || parsed > range.max)) {
+    issues.repairs.push(
+      `${field}: dropped ${parsed}, outside the typical price range ${range.min}-${range.max}`
+    );
+    return undefined;
+  }
+  if (parsed !== value) {
+    issues.repairs.push(`${field}: ${describe(value)} → ${parsed}`);
+  }
+  return parsed;
+};
+
+/**
+ * List of strings; a lone string becomes a one-item list, missing becomes []
+ */
+const textList: FieldCoercer = (value, field, issues) => {
+  if (isMissing(value)) {
+    issues.repairs.push(`${field}: missing, using []`);
+    return [];
+  }
+  if (typeof value === "string") {
+    issues.repairs.push(`${field}: wrapped a single string in a list`);
+    return [value];
+  }
+  if (!Array.isArray(value)) {
+    issues.errors.push(`${field} must be a list of strings`);
+    return undefined;
+  }
+  return value
+    .map((item, index) => text(item, `${field}[${index}]`, issues))
+    .filter((item) => item !== undefined);
+};
+
+/**
+ * Object with known fields; unknown fields are left out
+ */
+const object =
+  (fields: Record<string, FieldCoercer>): FieldCoercer =>
+  (value, field, issues) => {
+    if (!isPlainObject(value)) {
+      issues.errors.push(`${field} must be an object, got ${describe(value)}`);
+      return undefined;
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(fields).forEach(([key, coerce]) => {
+      const coerced = coerce(value[key], `${field}.${key}`, issues);
+      if (coerced !== undefined) {
+        result[key] = coerced;
+      }
+    });
+    return result;
+  };
+
+/**
+ * Run a coercer over a whole reply
+ */
+const validate = <T>(
+  coerce: FieldCoercer,
+  data: unknown,
+  root: string,
+  priceRange?: PriceRange
+): ValidationResult<T> => {
+  const issues: Issues = {
+    repairs: [],
+    errors: [],
+    ...(priceRange && { priceRange }),
+  };
+  const value = coerce(data, root, issues) as T;
+  return {
+    ...(issues.errors.length === 0 && { value }),
+    repairs: issues.repairs.map((repair) => repair.replace(`${root}.`, "")),
+    errors: issues.errors.map((error) => error.replace(`${root}.`, "")),
+  };
+};
+
+const TREND_SYNONYMS: Record<string, ChartAnalysis["trend"]> = {
+  up: "bullish",
+  uptrend: "bullish",
+  bull: "bullish",
+  down: "bearish",
+  downtrend: "bearish",
+  bear: "bearish",
+  flat: "sideways",
+  range: "sideways",
+  ranging: "sideways",
+  consolidation: "sideways",
+  mixed: "neutral",
+};
+
+const BAND_POSITIONS = [
+  "above_upper",
+  "upper_half",
+  "middle",
+  "lower_half",
+  "below_lower",
+] as const;
+
+const BAND_POSITION_SYNONYMS: Record<string, (typeof BAND_POSITIONS)[number]> =
+  {
+    "above upper": "above_upper",
+    "above upper band": "above_upper",
+    "upper half": "upper_half",
+    basis: "middle",
+    "lower half": "lower_half",
+    "below lower": "below_lower",
+    "below lower band": "below_lower",
+  };
+
+const CHART_ANALYSIS = object({
+  timeframe: required(text),
+  trend: required(
+    oneOf(["bullish", "bearish", "neutral", "sideways"], TREND_SYNONYMS)
+  ),
+  strength: required(numberIn({ min: 1, max: 10 })),
+  keyLevels: required(
+    object({ support: optional(price), resistance: optional(price) })
+  ),
+  lastPrice: optional(price),
+  indicators: required(
+    object({
+      volume: required(oneOf(["high", "medium", "low"])),
+      bollinger: required(oneOf(["squeeze", "expansion", "neutral"])),
+      momentum: required(oneOf(["increasing", "decreasing", "stable"])),
+      bollingerBands: optional(
+        object({
+          position: required(oneOf(BAND_POSITIONS, BAND_POSITION_SYNONYMS)),
+          bandwidth: required(
+            oneOf(["expanding", "contracting", "flat"], {
+              expansion: "expanding",
+              widening: "expanding",
+              squeeze: "contracting",
+              narrowing: "contracting",
+              stable: "flat",
+            })
+          ),
+          upper: optional(price),
+          basis: optional(price),
+          lower: optional(price),
+        })
+      ),
+      stochRsi: optional(
+        object({
+          zone: required(oneOf(["overbought", "neutral", "oversold"])),
+          crossover: required(
+            oneOf(["bullish", "bearish", "none"], {
+              "bullish crossover": "bullish",
+              "bearish crossover": "bearish",
+              no: "none",
+            })
+          ),
+          k: optional(numberIn({ min: 0, max: 100 })),
+          d: optional(numberIn({ min: 0, max: 100 })),
+        })
+      ),
+    })
+  ),
+  signals: textList,
+  confidence: required(numberIn({ min: 1, max: 10, percentScale: true })),
+  analysis: required(text),
+});
+
+const TRADING_DECISION = object({
+  action: required(
+    oneOf(["long", "short", "hold", "close"], {
+      buy: "long",
+      sell: "short",
+      wait: "hold",
+      neutral: "hold",
+      exit: "close",
+    })
+  ),
+  confidence: required(numberIn({ min: 1, max: 10, percentScale: true })),
+  reasoning: required(text),
+  entryPrice: optional(price),
+  stopLoss: optional(price),
+  takeProfit: optional(price),
+  riskReward: optional(numberIn({ min: 0 })),
+  overallTrend: required(
+    oneOf(["bullish", "bearish", "neutral"], {
+      ...TREND_SYNONYMS,
+      sideways: "neutral",
+      flat: "neutral",
+      range: "neutral",
+      ranging: "neutral",
+      consolidation: "neutral",
+    })
+  ),
+  marketStructure: required(text),
+  warnings: textList,
+});
+
+const count = required(numberIn({ min: 0, integer: true }));
+
+const COMPREHENSIVE_ANALYSIS = object({
+  executiveSummary: required(text),
+  marketOverview: required(text),
+  quantitativeMetrics: required(
+    object({
+      bullishSignals: count,
+      bearishSignals: count,
+      neutralSignals: count,
+      avgConfidence: required(numberIn({ min: 0, max: 100 })),
+      timeframeAlignment: required(numberIn({ min: 1, max: 10 })),
+    })
+  ),
+  riskAssessment: required(
+    object({
+      riskLevel: required(oneOf(["low", "medium", "high"])),
+      keyRisks: textList,
+      riskMitigation: textList,
+    })
+  ),
+  strategicRecommendations: required(
+    object({
+      primary: required(text),
+      alternative: required(text),
+      timeHorizon: required(text),
+      positionSizing: required(text),
+    })
+  ),
+  nextSteps: textList,
+});
+
+const TRADING_VERDICT = object({
+  action: required(
+    oneOf(["HOLD", "LONG", "SHORT"], {
+      buy: "LONG",
+      sell: "SHORT",
+      wait: "HOLD",
+      neutral: "HOLD",
+    })
+  ),
+  confidence: required(numberIn({ min: 1, max: 100, integer: true })),
+  positionSize: required(numberIn({ min: 1, max: 100, integer: true })),
+  timeHorizon: required(
+    oneOf(["short", "medium", "long"], {
+      intraday: "short",
+      days: "medium",
+      weeks: "long",
+    })
+  ),
+  riskLevel: required(oneOf(["LOW", "MEDIUM", "HIGH"])),
+  keyReason: required(text),
+  nextCheckMinutes: required(numberIn({ min: 2, max: 60, integer: true })),
+  entryPrice: optional(price),
+  stopLoss: optional(price),
+  takeProfit: optional(price),
+  criticalWarnings: textList,
+});
+
+export const validateChartAnalysis = (
+  data: unknown,
+  priceRange?: PriceRange
+): ValidationResult<ChartAnalysis> =>
+  validate(CHART_ANALYSIS, data, "analysis", priceRange);
+
+// The per-timeframe analyses are attached by the pipeline, not the model
+export const validateTradingDecision = (
+  data: unknown,
+  priceRange?: PriceRange
+): ValidationResult<Omit<TradingDecision, "timeframes">> =>
+  validate(TRADING_DECISION, data, "decision", priceRange);
+
+export const validateComprehensiveAnalysis = (
+  data: unknown
+): ValidationResult<ComprehensiveAnalysis> =>
+  validate(COMPREHENSIVE_ANALYSIS, data, "analysis");
+
+export const validateTradingVerdict = (
+  data: unknown,
+  priceRange?: PriceRange
+): ValidationResult<TradingVerdict> =>
+  validate(TRADING_VERDICT, data, "verdict", priceRange);
@@ -0,0 +1,203 @@
+import fs from "fs";
+import path from "path";
+import { VisionStage } from "./vision-provider";
+
+/**
+ * One prompt, loaded from a template file
+ */
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  set: string; // Prompt set the file came from
+  path: string;
+  body: string; // Text with {{variable}} placeholders
+}
+
+/**
+ * Which template produced a stage's prompt, recorded in the outputs
+ */
+export type PromptVersion = Pick<PromptTemplate, "id" | "version" | "set">;
+
+/**
+ * A template for every stage
+ */
+export interface PromptSet {
+  name: string;
+  templates: Record<VisionStage, PromptTemplate>;
+}
+
+// prompts/ at the repository root, from both src/features and dist/features
+export const DEFAULT_PROMPTS_DIR = path.resolve(
+  __dirname,
+  "..",
+  "..",
+  "prompts"
+);
+export const DEFAULT_PROMPT_SET = "default";
+
+// Filled in for every stage
+const SHARED_VARIABLES = [
+  "symbol",
+  "market",
+  "contract",
+  "instrument",
+  "priorVerdict",
+];
+
+/**
+ * Variables each stage fills in; templates may use any of them
+ */
+export const PROMPT_VARIABLES: Record<VisionStage, readonly string[]> = {
+  chart_analysis: [
+    ...SHARED_VARIABLES,
+    "timeframe",
+    "indicators",
+    "indicatorFormat",
+  ],
+  multi_timeframe_decision: [...SHARED_VARIABLES, "analyses", "verdictHistory"],
+  comprehensive_analysis: [...SHARED_VARIABLES, "analyses", "decision"],
+  final_verdict: [
+    ...SHARED_VARIABLES,
+    "timeframeSignals",
+    "decision",
+    "riskLevel",
+    "alignment",
+    "verdictHistory",
+  ],
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Template file of a stage, e.g. chart-analysis.md
+ */
+const getTemplateFile = (stage: VisionStage): string =>
+  `${stage.replace(/_/g, "-")}.md`;
+
+/**
+ * Read a template file: front matter with its id and version, then the body
+ *
+ * ---
+ * id: chart-analysis
+ * version: 2
+ * ---
+ * Analyze this {{timeframe}} chart...
+ */
+const readTemplate = (
+  filePath: string,
+  set: string,
+  stage: VisionStage
+): PromptTemplate => {
+  const contents = fs.readFileSync(filePath, "utf8").replace(/\r\n/g, "\n");
+  const match = contents.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(
+      `Prompt template ${filePath} must start with front matter (---, id, version, ---)`
+    );
+  }
+
+  const fields: Record<string, string> = {};
+  (match[1] ?? "").split("\n").forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator !== -1) {
+      fields[line.slice(0, separator).trim()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  });
+
+  const { id, version } = fields;
+  if (!id || !version) {
+    throw new Error(
+      `Prompt template ${filePath} needs an id and a version in its front matter`
+    );
+  }
+
+  // Catch typos when the set is loaded, not halfway through a cycle
+  const body = (match[2] ?? "").trim();
+  const unknown = [...body.matchAll(VARIABLE_PATTERN)]
+    .map(([, name]) => name ?? "")
+    .filter((name) => !PROMPT_VARIABLES[stage].includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Prompt template ${filePath} uses unknown variables: ${[
+        ...new Set(unknown),
+      ].join(", ")} (available: ${PROMPT_VARIABLES[stage].join(", ")})`
+    );
+  }
+
+  return { id, version, set, path: filePath, body };
+};
+
+/**
+ * Load a prompt set by name (a folder in prompts/) or by directory path
+ * Stages without a file in the set use the default set's template, so an
+ * A/B set only needs the prompts it changes.
+ */
+export const loadPromptSet = (
+  nameOrDir: string = DEFAULT_PROMPT_SET,
+  promptsDir: string = DEFAULT_PROMPTS_DIR
+): PromptSet => {
+  const dir = fs.existsSync(nameOrDir)
+    ? nameOrDir
+    : path.join(promptsDir, nameOrDir);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Prompt set not found: ${nameOrDir} (looked in ${dir})`);
+  }
+  const name = path.basename(path.resolve(dir));
+  const defaultDir = path.join(promptsDir, DEFAULT_PROMPT_SET);
+
+  const load = (stage: VisionStage): PromptTemplate => {
+    const file = getTemplateFile(stage);
+    const own = path.join(dir, file);
+    if (fs.existsSync(own)) {
+      return readTemplate(own, name, stage);
+    }
+    const fallback = path.join(defaultDir, file);
+    if (!fs.existsSync(fallback)) {
+      throw new Error(`Prompt template ${file} not found in ${dir}`);
+    }
+    return readTemplate(fallback, DEFAULT_PROMPT_SET, stage);
+  };
+
+  return {
+    name,
+    templates: {
+      chart_analysis: load("chart_analysis"),
+      multi_timeframe_decision: load("multi_timeframe_decision"),
+      comprehensive_analysis: load("comprehensive_analysis"),
+      final_verdict: load("final_verdict"),
+    },
+  };
+};
+
+/**
+ * Fill in a template's variables
+ */
+export const renderPrompt = (
+  template: PromptTemplate,
+  variables: Record<string, string | number>
+): string =>
+  template.body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(
+        `Prompt ${template.id}@${template.version} has no value for ${placeholder}`
+      );
+    }
+    return String(value);
+  });
+
+/**
+ * Id, version and set of every stage's template
+ */
+export const getPromptVersions = (
+  prompts: PromptSet
+): Record<VisionStage, PromptVersion> => {
+  const versions = {} as Record<VisionStage, PromptVersion>;
+  (Object.keys(prompts.templates) as VisionStage[]).forEach((stage) => {
+    const { id, version, set } = prompts.templates[stage];
+    versions[stage] = { id, version, set };
+  });
+  return versions;
+};
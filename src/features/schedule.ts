@@ -0,0 +1,388 @@
+import { timeframeToMinutes } from "../utils/timeframes";
+
+/**
+ * Daily window of allowed run times in UTC, e.g. { start: "07:00", end: "22:00" }
+ * The end is exclusive; a window whose end is before its start wraps midnight.
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Absolute period during which no cycle may start (e.g. around a planned event)
+ */
+export interface BlackoutWindow {
+  start: string; // ISO 8601 timestamp
+  end: string; // ISO 8601 timestamp
+  reason?: string;
+}
+
+/**
+ * Schedule constraints combined with the AI-recommended interval
+ */
+export interface ScheduleSpec {
+  cron?: string; // 5-field cron expression evaluated in UTC
+  windows?: TimeWindow[];
+  blackouts?: BlackoutWindow[];
+}
+
+/**
+ * Parsed cron expression
+ */
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MINUTE_MS = 60 * 1000;
+
+// Give up looking for an allowed slot after a year
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+/**
+ * Parse a single cron field such as "*", "*\/15", "7-21", "1,3,5" or "0-30/10"
+ */
+const parseCronField = (
+  field: string,
+  spec: (typeof CRON_FIELDS)[number]
+): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron ${spec.name} field`);
+    }
+
+    let start: number = spec.min;
+    let end: number = spec.max;
+
+    if (rangePart !== "*") {
+      const [startText, endText] = (rangePart ?? "").split("-");
+      start = Number(startText);
+      end =
+        endText === undefined ? (stepPart ? spec.max : start) : Number(endText);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < spec.min ||
+      end > spec.max ||
+      start > end
+    ) {
+      throw new Error(
+        `Invalid cron ${spec.name} value "${part}" (allowed ${spec.min}-${spec.max})`
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+const parseCronExpression = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseCronField(field, CRON_FIELDS[index]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in Vixie cron, a day field starting with "*" (e.g. "*/2") is unrestricted
+    dayOfMonthRestricted: !fields[2]!.startsWith("*"),
+    dayOfWeekRestricted: !fields[4]!.startsWith("*"),
+  };
+};
+
+/**
+ * Check whether a UTC minute matches the cron schedule
+ */
+const matchesCron = (cron: CronSchedule, date: Date): boolean => {
+  if (
+    !cron.minutes.has(date.getUTCMinutes()) ||
+    !cron.hours.has(date.getUTCHours()) ||
+    !cron.months.has(date.getUTCMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonthMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  // Standard cron semantics: if both day fields are restricted, either may match
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+
+  return dayOfMonthMatch && dayOfWeekMatch;
+};
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+const parseClockTime = (value: string): number => {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+
+  if (!match || hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    throw new Error(`Invalid time "${value}": expected HH:MM in UTC`);
+  }
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a moment falls inside any of the daily windows
+ */
+const isInsideWindows = (windows: TimeWindow[], date: Date): boolean => {
+  const minuteOfDay =
+    date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+
+  return windows.some((window) => {
+    const start = parseClockTime(window.start);
+    const end = parseClockTime(window.end);
+
+    return end > start
+      ? minuteOfDay >= start && minuteOfDay < end
+      : minuteOfDay >= start || minuteOfDay < end;
+  });
+};
+
+/**
+ * Find the blackout window covering a moment, if any
+ */
+export const findBlackout = (
+  spec: ScheduleSpec,
+  date: Date
+): BlackoutWindow | undefined =>
+  spec.blackouts?.find(
+    (blackout) =>
+      date.getTime() >= new Date(blackout.start).getTime() &&
+      date.getTime() < new Date(blackout.end).getTime()
+  );
+
+/**
+ * Check whether a cycle may start at the given moment
+ */
+export const isRunAllowed = (spec: ScheduleSpec, date: Date): boolean => {
+  if (spec.windows?.length && !isInsideWindows(spec.windows, date)) {
+    return false;
+  }
+
+  if (findBlackout(spec, date)) {
+    return false;
+  }
+
+  return spec.cron ? matchesCron(parseCronExpression(spec.cron), date) : true;
+};
+
+/**
+ * Find the first allowed run time at or after the earliest desired time
+ * With a candle timeframe, only slots on a candle close of it count.
+ */
+export const getNextAllowedRun = (
+  spec: ScheduleSpec,
+  earliest: Date,
+  candleTimeframe?: string
+): Date => {
+  const candleMs = candleTimeframe
+    ? timeframeToMinutes(candleTimeframe) * MINUTE_MS
+    : MINUTE_MS;
+  const isCandleClose = (date: Date): boolean =>
+    !candleTimeframe || date.getTime() % candleMs === 0;
+
+  // Without a cron expression any moment inside the windows is a valid slot
+  if (!spec.cron && isRunAllowed(spec, earliest) && isCandleClose(earliest)) {
+    return earliest;
+  }
+
+  const cron = spec.cron ? parseCronExpression(spec.cron) : undefined;
+  let candidate = new Date(
+    Math.ceil(earliest.getTime() / MINUTE_MS) * MINUTE_MS
+  );
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    const blackout = findBlackout(spec, candidate);
+
+    if (blackout) {
+      // Jump straight to the first whole minute after the blackout
+      candidate = new Date(
+        Math.ceil(new Date(blackout.end).getTime() / MINUTE_MS) * MINUTE_MS
+      );
+      continue;
+    }
+
+    const insideWindows =
+      !spec.windows?.length || isInsideWindows(spec.windows, candidate);
+
+    if (
+      insideWindows &&
+      (!cron || matchesCron(cron, candidate)) &&
+      isCandleClose(candidate)
+    ) {
+      return candidate;
+    }
+
+    candidate = new Date(candidate.getTime() + MINUTE_MS);
+  }
+
+  throw new Error(
+    candleTimeframe
+      ? `Schedule allows no run on a ${candleTimeframe} candle close within the next year`
+      : "Schedule allows no run within the next year"
+  );
+};
+
+/**
+ * Check that cycles aligned to a candle timeframe can still run on schedule
+ * Blackouts end, so only the cron expression and windows can rule every close out.
+ */
+export const validateCandleAlignment = (
+  spec: ScheduleSpec,
+  timeframe: string
+): void => {
+  try {
+    getNextAllowedRun(
+      {
+        ...(spec.cron && { cron: spec.cron }),
+        ...(spec.windows && { windows: spec.windows }),
+      },
+      new Date(),
+      timeframe
+    );
+  } catch {
+    throw new Error(
+      `Schedule${
+        spec.cron ? ` "${spec.cron}"` : ""
+      } never falls on a ${timeframe} candle close: change the cron expression, windows or candle alignment`
+    );
+  }
+};
+
+/**
+ * Project the upcoming run times assuming the default interval is used
+ * With a candle timeframe, runs land on its candle closes like real cycles.
+ */
+export const getUpcomingRuns = (
+  spec: ScheduleSpec,
+  from: Date,
+  intervalMinutes: number,
+  count: number,
+  candleTimeframe?: string
+): Date[] => {
+  const runs: Date[] = [];
+  let earliest = from;
+
+  for (let i = 0; i < count; i++) {
+    const run = getNextAllowedRun(spec, earliest, candleTimeframe);
+    runs.push(run);
+    earliest = new Date(run.getTime() + intervalMinutes * MINUTE_MS);
+  }
+
+  return runs;
+};
+
+/**
+ * Validate a schedule spec, throwing a descriptive error if it is invalid
+ */
+export const validateScheduleSpec = (spec: ScheduleSpec): void => {
+  if (spec.cron) {
+    parseCronExpression(spec.cron);
+  }
+
+  spec.windows?.forEach((window) => {
+    parseClockTime(window.start);
+    parseClockTime(window.end);
+    if (window.start === window.end) {
+      throw new Error(
+        `Invalid window ${window.start}-${window.end}: start and end are equal`
+      );
+    }
+  });
+
+  spec.blackouts?.forEach((blackout) => {
+    const start = new Date(blackout.start).getTime();
+    const end = new Date(blackout.end).getTime();
+
+    if (isNaN(start) || isNaN(end)) {
+      throw new Error(
+        `Invalid blackout ${blackout.start}/${blackout.end}: expected ISO 8601 timestamps`
+      );
+    }
+    if (end <= start) {
+      throw new Error(
+        `Invalid blackout ${blackout.start}/${blackout.end}: end must be after start`
+      );
+    }
+  });
+};
+
+/**
+ * Parse a "HH:MM-HH:MM" command line window
+ */
+export const parseTimeWindow = (value: string): TimeWindow => {
+  const [start, end] = value.split("-");
+
+  if (!start || !end) {
+    throw new Error(
+      `Invalid window "${value}": expected HH:MM-HH:MM (e.g. "07:00-22:00")`
+    );
+  }
+
+  return { start, end };
+};
+
+/**
+ * Parse a "start/end" command line blackout of ISO 8601 timestamps
+ */
+export const parseBlackoutWindow = (value: string): BlackoutWindow => {
+  const [start, end] = value.split("/");
+
+  if (!start || !end) {
+    throw new Error(
+      `Invalid blackout "${value}": expected <start>/<end> ISO timestamps`
+    );
+  }
+
+  return { start, end };
+};
@@ -0,0 +1,155 @@
+import { logger } from "../utils/logger";
+import { TradingVerdict } from "./vision-analysis";
+
+/**
+ * Commands accepted by a running auto trader
+ */
+export type ControlCommand = "run_now" | "pause" | "resume" | "stop";
+
+/**
+ * What a single trading loop (one per watchlist symbol) is doing right now
+ */
+export interface LaneStatus {
+  symbol?: string;
+  state: "starting" | "running" | "waiting" | "stopped";
+  currentCycle?: {
+    cycleNumber: number;
+    cycleId: string;
+    startedAt: string;
+  };
+  lastVerdict?: TradingVerdict & {
+    cycleId: string;
+    receivedAt: string;
+  };
+  nextRunAt?: string;
+  configVersion?: string;
+  consecutiveFailures: number;
+  cyclesCompleted: number;
+  cumulativeCost: number;
+}
+
+/**
+ * Snapshot of the whole auto trader, as served by the control API
+ */
+export interface TraderStatus {
+  startedAt: string;
+  paused: boolean;
+  stopping: boolean;
+  cumulativeCost: number;
+  lanes: LaneStatus[];
+}
+
+/**
+ * Handle a trading loop uses to publish its progress
+ */
+export interface LaneHandle {
+  update: (changes: Partial<Omit<LaneStatus, "symbol">>) => void;
+  clear: (field: "currentCycle" | "nextRunAt") => void;
+  get: () => LaneStatus;
+}
+
+/**
+ * Shared state between the trading loops and the control sources
+ */
+export interface TraderControl {
+  registerLane: (symbol?: string) => LaneHandle;
+  getStatus: () => TraderStatus;
+  command: (command: ControlCommand, source: string) => void;
+  isPaused: () => boolean;
+  runNowGeneration: () => number;
+  changeSignal: () => AbortSignal;
+  onStop: (handler: (source: string) => void) => void;
+}
+
+/**
+ * Create the control state for one auto trader run
+ */
+export const createTraderControl = (): TraderControl => {
+  const startedAt = new Date().toISOString();
+  const lanes: LaneStatus[] = [];
+  const stopHandlers: Array<(source: string) => void> = [];
+  let paused = false;
+  let stopping = false;
+  let runNowCount = 0;
+  let changeController = new AbortController();
+
+  // Wake up every waiting loop so it re-checks pause and run-now state
+  const notifyChange = () => {
+    changeController.abort();
+    changeController = new AbortController();
+  };
+
+  const command = (command: ControlCommand, source: string) => {
+    switch (command) {
+      case "run_now":
+        runNowCount++;
+        logger.info(`⚡ Run-now requested via ${source}`);
+        break;
+      case "pause":
+        if (paused) {
+          logger.info(`⏸️  Already paused (${source})`);
+          return;
+        }
+        paused = true;
+        logger.info(
+          `⏸️  Paused via ${source}: no new cycles until resumed (the current cycle finishes)`
+        );
+        break;
+      case "resume":
+        if (!paused) {
+          logger.info(`▶️  Not paused (${source})`);
+          return;
+        }
+        paused = false;
+        logger.info(`▶️  Resumed via ${source}`);
+        break;
+      case "stop":
+        if (stopping) {
+          logger.info(`🛑 Already stopping (${source})`);
+          return;
+        }
+        stopping = true;
+        stopHandlers.forEach((handler) => handler(source));
+        break;
+    }
+
+    notifyChange();
+  };
+
+  return {
+    registerLane: (symbol) => {
+      const lane: LaneStatus = {
+        ...(symbol && { symbol }),
+        state: "starting",
+        consecutiveFailures: 0,
+        cyclesCompleted: 0,
+        cumulativeCost: 0,
+      };
+      lanes.push(lane);
+
+      return {
+        update: (changes) => {
+          Object.assign(lane, changes);
+        },
+        clear: (field) => {
+          delete lane[field];
+        },
+        get: () => ({ ...lane }),
+      };
+    },
+    getStatus: () => ({
+      startedAt,
+      paused,
+      stopping,
+      cumulativeCost: lanes.reduce((sum, lane) => sum + lane.cumulativeCost, 0),
+      lanes: lanes.map((lane) => ({ ...lane })),
+    }),
+    command,
+    isPaused: () => paused,
+    runNowGeneration: () => runNowCount,
+    changeSignal: () => changeController.signal,
+    onStop: (handler) => {
+      stopHandlers.push(handler);
+    },
+  };
+};
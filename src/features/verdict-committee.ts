@@ -0,0 +1,161 @@
+import type { TradingVerdict } from "./vision-analysis";
+
+export const COMMITTEE_RULES = [
+  "majority",
+  "confidence-weighted",
+  "unanimous-for-entry",
+] as const;
+
+/**
+ * How the committee's votes are turned into one verdict
+ * - majority: most votes wins
+ * - confidence-weighted: highest summed confidence wins
+ * - unanimous-for-entry: LONG or SHORT only when every member agrees
+ * A tie at the top is a HOLD.
+ */
+export type CommitteeRule = (typeof COMMITTEE_RULES)[number];
+
+/**
+ * One model voting on the final verdict
+ */
+export interface CommitteeMember {
+  model: string; // Model spec, e.g. "openai:gpt-4o" or "openai-compatible:llava"
+  baseUrl?: string; // Default: the analysis baseUrl
+  toolCalling?: boolean; // Default: the analysis toolCalling
+  billable?: boolean; // Default: the analysis billable
+}
+
+/**
+ * Several models give the final verdict instead of one
+ */
+export interface CommitteeConfig {
+  members: CommitteeMember[];
+  rule?: CommitteeRule; // Default: majority
+}
+
+/**
+ * A member's verdict, or why it has none
+ */
+export interface CommitteeVote {
+  model: string;
+  verdict?: TradingVerdict;
+  error?: string;
+}
+
+/**
+ * How the committee decided, recorded next to the final verdict
+ */
+export interface CommitteeResult {
+  rule: CommitteeRule;
+  action: TradingVerdict["action"];
+  tally: Partial<Record<TradingVerdict["action"], number>>; // Votes, or summed confidence
+  votes: CommitteeVote[];
+  dissent: string[]; // Members that voted against the decision, or failed
+}
+
+type Action = TradingVerdict["action"];
+
+const ENTRY_ACTIONS: Action[] = ["LONG", "SHORT"];
+
+/**
+ * Action chosen by the rule
+ */
+const chooseAction = (
+  verdicts: TradingVerdict[],
+  rule: CommitteeRule,
+  tally: Partial<Record<Action, number>>
+): Action => {
+  if (rule === "unanimous-for-entry") {
+    const [first] = verdicts;
+    const unanimous = verdicts.every(
+      (verdict) => verdict.action === first?.action
+    );
+    return unanimous && first && ENTRY_ACTIONS.includes(first.action)
+      ? first.action
+      : "HOLD";
+  }
+
+  const top = Math.max(...Object.values(tally));
+  const leaders = (Object.keys(tally) as Action[]).filter(
+    (action) => tally[action] === top
+  );
+  return leaders.length === 1 && leaders[0] ? leaders[0] : "HOLD";
+};
+
+/**
+ * One line per dissenting member, e.g. for criticalWarnings
+ */
+export const describeDissent = (vote: CommitteeVote): string =>
+  vote.verdict
+    ? `Committee dissent: ${vote.model} voted ${vote.verdict.action} (${vote.verdict.confidence}%): ${vote.verdict.keyReason}`
+    : `Committee member ${vote.model} gave no verdict: ${vote.error}`;
+
+/**
+ * Combine the members' votes into the verdict that will be acted upon
+ * The decision takes the levels and reasoning of its most confident
+ * supporter. A HOLD nobody voted for (a split committee) keeps no levels.
+ */
+export const decideVerdict = (
+  votes: CommitteeVote[],
+  rule: CommitteeRule = "majority"
+): { verdict: TradingVerdict; committee: CommitteeResult } => {
+  const verdicts = votes
+    .map((vote) => vote.verdict)
+    .filter((verdict): verdict is TradingVerdict => verdict !== undefined);
+  if (verdicts.length === 0) {
+    throw new Error("No committee member gave a verdict");
+  }
+
+  const tally: Partial<Record<Action, number>> = {};
+  verdicts.forEach((verdict) => {
+    tally[verdict.action] =
+      (tally[verdict.action] ?? 0) +
+      (rule === "confidence-weighted" ? verdict.confidence : 1);
+  });
+
+  const action = chooseAction(verdicts, rule, tally);
+  const dissent = votes
+    .filter((vote) => vote.verdict?.action !== action)
+    .map(describeDissent);
+
+  const supporter = verdicts
+    .filter((verdict) => verdict.action === action)
+    .reduce<TradingVerdict | undefined>(
+      (best, verdict) =>
+        !best || verdict.confidence > best.confidence ? verdict : best,
+      undefined
+    );
+
+  let verdict: TradingVerdict;
+  if (supporter) {
+    verdict = {
+      ...supporter,
+      criticalWarnings: [...supporter.criticalWarnings, ...dissent],
+    };
+  } else {
+    const [first] = verdicts as [TradingVerdict, ...TradingVerdict[]];
+    const votesFor = Object.entries(tally)
+      .map(([candidate, score]) => `${candidate} ${score}`)
+      .join(", ");
+    verdict = {
+      action: "HOLD",
+      confidence: Math.min(
+        ...verdicts.map((candidate) => candidate.confidence)
+      ),
+      positionSize: first.positionSize,
+      timeHorizon: first.timeHorizon,
+      riskLevel: "HIGH",
+      keyReason: `The committee did not agree (${votesFor}), so no position is taken`,
+      // Look again soon, the split may resolve
+      nextCheckMinutes: Math.min(
+        ...verdicts.map((candidate) => candidate.nextCheckMinutes)
+      ),
+      criticalWarnings: dissent,
+    };
+  }
+
+  return {
+    verdict,
+    committee: { rule, action, tally, votes, dissent },
+  };
+};
@@ -0,0 +1,130 @@
+import { readJournalEntries } from "./cycle-journal";
+
+export const DEFAULT_HISTORY_DEPTH = 5;
+
+/**
+ * An earlier verdict, with the prices seen since it was given
+ */
+export interface VerdictRecord {
+  cycleId: string;
+  timestamp: string;
+  action: string;
+  confidence: number;
+  entryPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  price?: number; // Chart price when the verdict was given
+  low?: number; // Lowest and highest chart price seen at later cycles
+  high?: number;
+}
+
+/**
+ * Fold a newly seen price into the range of every record
+ */
+export const addObservedPrice = (
+  records: VerdictRecord[],
+  price?: number
+): VerdictRecord[] =>
+  price === undefined
+    ? records
+    : records.map((record) => ({
+        ...record,
+        low: Math.min(record.low ?? price, price),
+        high: Math.max(record.high ?? price, price),
+      }));
+
+/**
+ * The last `depth` verdicts of a journal, oldest first
+ * Prices come from later cycles only, so moves between two cycles are missed.
+ */
+export const readVerdictHistory = (
+  journalPath: string,
+  depth: number = DEFAULT_HISTORY_DEPTH
+): VerdictRecord[] => {
+  if (depth <= 0) {
+    return [];
+  }
+
+  let records: VerdictRecord[] = [];
+  readJournalEntries(journalPath).forEach((entry) => {
+    if (entry.type !== "cycle_end" || !entry.success) {
+      return;
+    }
+
+    records = addObservedPrice(records, entry.price);
+    if (entry.verdict) {
+      const { action, confidence, entryPrice, stopLoss, takeProfit } =
+        entry.verdict;
+      records.push({
+        cycleId: entry.cycleId,
+        timestamp: entry.timestamp,
+        action,
+        confidence,
+        ...(entryPrice !== undefined && { entryPrice }),
+        ...(stopLoss !== undefined && { stopLoss }),
+        ...(takeProfit !== undefined && { takeProfit }),
+        ...(entry.price !== undefined && { price: entry.price }),
+      });
+      // Older verdicts are never shown, so stop tracking them
+      records = records.slice(-depth);
+    }
+  });
+  return records;
+};
+
+/**
+ * Which levels of a LONG or SHORT the later prices reached
+ */
+const describeLevelHits = (record: VerdictRecord): string | undefined => {
+  if (record.action !== "LONG" && record.action !== "SHORT") {
+    return undefined;
+  }
+  if (record.low === undefined || record.high === undefined) {
+    return "levels not checked yet";
+  }
+
+  const isLong = record.action === "LONG";
+  const low = Math.min(record.low, record.price ?? record.low);
+  const high = Math.max(record.high, record.price ?? record.high);
+  const { entryPrice, stopLoss, takeProfit } = record;
+  const hits = [
+    entryPrice !== undefined &&
+      low <= entryPrice &&
+      entryPrice <= high &&
+      "entry reached",
+    stopLoss !== undefined &&
+      (isLong ? low <= stopLoss : high >= stopLoss) &&
+      "stop loss hit",
+    takeProfit !== undefined &&
+      (isLong ? high >= takeProfit : low <= takeProfit) &&
+      "take profit hit",
+  ].filter((hit): hit is string => Boolean(hit));
+
+  return hits.length > 0
+    ? hits.join(", ")
+    : `no level hit (price since: ${record.low}-${record.high})`;
+};
+
+/**
+ * One line per verdict, oldest first, for the decision and verdict prompts
+ *
+ * - 2025-06-18 12:05 UTC LONG (72%), entry 65100, SL 64700, TP 65900: entry reached, stop loss hit
+ */
+export const describeVerdictHistory = (records: VerdictRecord[]): string =>
+  records.length === 0
+    ? "None (no earlier verdicts)"
+    : records
+        .map((record) => {
+          const levels = [
+            record.entryPrice !== undefined && `entry ${record.entryPrice}`,
+            record.stopLoss !== undefined && `SL ${record.stopLoss}`,
+            record.takeProfit !== undefined && `TP ${record.takeProfit}`,
+          ].filter(Boolean);
+          const hits = describeLevelHits(record);
+          return `- ${record.timestamp.slice(0, 16).replace("T", " ")} UTC ${
+            record.action
+          } (${record.confidence}%)${
+            levels.length > 0 ? `, ${levels.join(", ")}` : ""
+          }${hits ? `: ${hits}` : ""}`;
+        })
+        .join("\n");
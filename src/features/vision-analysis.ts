@@ -1,8 +1,80 @@
 import fs from "fs";
 import path from "path";
-import OpenAI from "openai";
 import { logger, createStepLogger } from "../utils/logger";
 import { playTradingAlert, TradingAction } from "../utils/sound-effects";
+import { getTimeframeScreenshotName } from "../utils/browser";
+import { getErrorDetails } from "../utils/failures";
+import {
+  createVisionProvider,
+  parseModelSpec,
+  StructuredOutputSpec,
+  VisionProvider,
+  VisionRequest,
+  VisionStage,
+} from "./vision-provider";
+import { VisionFixtureOptions } from "./vision-fixtures";
+import {
+  validateChartAnalysis,
+  validateComprehensiveAnalysis,
+  validateTradingDecision,
+  validateTradingVerdict,
+  ValidationResult,
+} from "./output-validation";
+import outputSchemas from "./output-schemas.json";
+import {
+  CostBreakdown,
+  CostTracker,
+  createCostTracker,
+  ModelPrice,
+  summarizeCosts,
+} from "./cost-accounting";
+import {
+  buildConsensus,
+  describeAgreement,
+  getSampleSettings,
+  SamplingConfig,
+} from "./consensus";
+import {
+  CommitteeConfig,
+  CommitteeMember,
+  CommitteeResult,
+  CommitteeVote,
+  decideVerdict,
+} from "./verdict-committee";
+import {
+  addObservedPrice,
+  DEFAULT_HISTORY_DEPTH,
+  describeVerdictHistory,
+  VerdictRecord,
+} from "./verdict-history";
+import { timeframeToMinutes } from "../utils/timeframes";
+import { chartSettings } from "../config/chart-settings";
+import {
+  describeIndicatorReadings,
+  getChartAnalysisSchema,
+  getChartIndicators,
+  getIndicatorFormat,
+  getIndicatorPrompt,
+} from "./chart-indicators";
+import {
+  BudgetConfig,
+  CostLedger,
+  getReachedCap,
+  SpendCapError,
+} from "./cost-ledger";
+import {
+  DEFAULT_PROMPT_SET,
+  getPromptVersions,
+  loadPromptSet,
+  PromptSet,
+  PromptVersion,
+  renderPrompt,
+} from "./prompt-templates";
+import {
+  InstrumentOverrides,
+  InstrumentSpec,
+  resolveInstrument,
+} from "../config/markets";
 
 /**
  * Vision analysis configuration
@@ -10,17 +82,39 @@ import { playTradingAlert, TradingAction } from "../utils/sound-effects";
 export interface VisionAnalysisConfig {
   screenshotsDir?: string;
   timeframes?: string[];
-  model?: string;
+  model?: string; // "gpt-4o", or "provider:model" e.g. "openai-compatible:llava", "offline"
+  baseUrl?: string; // Server for openai-compatible models
+  fixtures?: VisionFixtureOptions; // Record model replies, or replay them offline
+  toolCalling?: boolean; // False for models without tool calling (JSON in the prompt)
+  billable?: boolean; // openai-compatible: count calls as paid (default: unless the server is local)
+  prices?: Record<string, ModelPrice>; // USD per 1M tokens, merged over the defaults
+  costLedger?: CostLedger; // Records the cost of every call
+  budget?: BudgetConfig; // Calls are refused once a cap in the ledger is reached
   detail?: "low" | "high" | "auto";
   maxTokens?: number;
   temperature?: number;
+  sampling?: SamplingConfig; // Analyze each timeframe several times and keep the consensus
   outputDir?: string;
   saveJson?: boolean;
   saveText?: boolean;
   soundEffects?: boolean;
   soundVolume?: number;
+  cycleId?: string; // Only analyze screenshots stamped with this cycle ID
+  symbol?: string; // Instrument shown on the charts (default: BTCUSD)
+  instrument?: InstrumentOverrides; // Venue, contract, tick size, price range, leverage
+  promptSet?: string; // Folder in prompts/ or a directory of templates (default: default)
+  priorVerdict?: TradingVerdict; // Previous cycle's verdict, for the prompts
+  verdictHistory?: VerdictRecord[]; // Earlier verdicts, oldest first (e.g. from the journal)
+  historyDepth?: number; // Earlier verdicts described in the prompts (default: 5, 0 for none)
+  committee?: CommitteeConfig; // Several models vote on the final verdict
+  signal?: AbortSignal; // Cancels in-flight model requests (e.g. on a watchdog timeout)
 }
 
+/**
+ * Whole number (generated output schemas use "integer")
+ */
+export type Integer = number;
+
 /**
  * Chart analysis result for a single timeframe
  */
@@ -32,14 +126,58 @@ export interface ChartAnalysis {
     support?: number;
     resistance?: number;
   };
+  lastPrice?: number; // Latest price shown on the chart
   indicators: {
     volume: "high" | "medium" | "low";
     bollinger: "squeeze" | "expansion" | "neutral";
     momentum: "increasing" | "decreasing" | "stable";
+    bollingerBands?: BollingerReading; // Bollinger Bands study
+    stochRsi?: StochRsiReading; // Stochastic RSI study
   };
   signals: string[];
   confidence: number; // 1-10 scale
   analysis: string;
+  agreement?: ChartAgreement; // Set when the timeframe was sampled
+}
+
+/**
+ * Bollinger Bands reading, asked for when the study is on the chart
+ */
+export interface BollingerReading {
+  position:
+    | "above_upper"
+    | "upper_half"
+    | "middle"
+    | "lower_half"
+    | "below_lower"; // Last close relative to the bands
+  bandwidth: "expanding" | "contracting" | "flat"; // Band width trend
+  upper?: number; // Upper band, when the legend shows it
+  basis?: number; // Middle band, when the legend shows it
+  lower?: number; // Lower band, when the legend shows it
+}
+
+/**
+ * Stochastic RSI reading, asked for when the study is on the chart
+ */
+export interface StochRsiReading {
+  zone: "overbought" | "neutral" | "oversold"; // %K above 80, between, below 20
+  crossover: "bullish" | "bearish" | "none"; // Latest %K cross of %D
+  k?: number; // %K 0-100, when the legend shows it
+  d?: number; // %D 0-100, when the legend shows it
+}
+
+/**
+ * Share of samples (0-1) that agreed with each field of a consensus analysis
+ */
+export interface ChartAgreement {
+  samples: Integer; // Analyses the consensus was built from
+  overall: number; // Mean of the field scores
+  trend: number;
+  strength: number; // Within a point of the median
+  confidence: number; // Within a point of the median
+  support: number; // In the same price cluster
+  resistance: number; // In the same price cluster
+  indicators: Record<string, number>;
 }
 
 /**
@@ -66,9 +204,9 @@ export interface ComprehensiveAnalysis {
   executiveSummary: string;
   marketOverview: string;
   quantitativeMetrics: {
-    bullishSignals: number;
-    bearishSignals: number;
-    neutralSignals: number;
+    bullishSignals: Integer;
+    bearishSignals: Integer;
+    neutralSignals: Integer;
     avgConfidence: number;
     timeframeAlignment: number; // 1-10 scale
   };
@@ -91,16 +229,27 @@ export interface ComprehensiveAnalysis {
  */
 export interface TradingVerdict {
   action: "HOLD" | "LONG" | "SHORT";
-  confidence: number; // 1-100 percentage
-  positionSize: number; // 1-100 percentage of portfolio
+  confidence: Integer; // 1-100 percentage
+  positionSize: Integer; // 1-100 percentage of portfolio
   timeHorizon: "short" | "medium" | "long"; // short=intraday, medium=days, long=weeks
   riskLevel: "LOW" | "MEDIUM" | "HIGH";
   keyReason: string; // Single sentence reasoning
-  nextCheckMinutes: number; // Minutes until next analysis (2-60 range)
-  entryPrice?: number;
-  stopLoss?: number;
-  takeProfit?: number;
-  criticalWarnings: string[];
+  nextCheckMinutes: Integer; // Minutes until next analysis (2-60 range)
+  entryPrice?: number; // Only for LONG/SHORT actions
+  stopLoss?: number; // Only for LONG/SHORT actions
+  takeProfit?: number; // Only for LONG/SHORT actions
+  criticalWarnings: string[]; // Key risks that could invalidate this decision
+}
+
+/**
+ * Fixes applied to one model reply before it was used
+ */
+export interface OutputRepair {
+  stage: VisionStage;
+  timeframe?: string;
+  model?: string; // Committee member whose reply it was
+  repairs: string[]; // Fields coerced into shape
+  reaskedFor?: string[]; // Validation errors that made us ask the model again
 }
 
 /**
@@ -110,21 +259,109 @@ export interface VisionAnalysisResult {
   success: boolean;
   tradingDecision?: TradingDecision;
   individualAnalyses: ChartAnalysis[];
+  observedPrice?: number; // Latest chart price, from the shortest timeframe showing one
+  chartSamples?: Record<string, ChartAnalysis[]>; // Raw samples behind each consensus, by timeframe
   comprehensiveAnalysis?: ComprehensiveAnalysis;
   finalVerdict?: TradingVerdict;
+  committee?: CommitteeResult; // Every member's vote, when a committee decided
   totalCost?: number;
+  costs?: CostBreakdown; // Tokens and cost of every model call
+  repairs?: OutputRepair[];
+  cycleId?: string;
+  symbol?: string;
+  instrument?: InstrumentSpec; // What the prompts described the charts as
+  prompts?: Record<VisionStage, PromptVersion>; // Template behind each stage's prompt
+  savedFiles?: {
+    json?: string;
+    text?: string;
+  };
   error?: string;
+  errorStatus?: number; // HTTP status of the failing model API call, if any
+  retryAfterMs?: number; // Retry-After requested by the API when rate limited
 }
 
 /**
- * Initialize OpenAI client
+ * A committee member and the provider that reaches it
+ */
+interface CommitteeProvider {
+  member: CommitteeMember;
+  provider: VisionProvider;
+}
+
+// Generated from the interfaces above by `npm run generate-schemas`
+const OUTPUT_SCHEMAS: Record<
+  | "ChartAnalysis"
+  | "TradingDecision"
+  | "ComprehensiveAnalysis"
+  | "TradingVerdict",
+  StructuredOutputSpec
+> = outputSchemas;
+
+// Studies on the captured charts, each with its own reading where known
+const CHART_INDICATORS = getChartIndicators(
+  chartSettings.getTechnicalIndicators()
+);
+
+// Chart analysis output with the readings of the studies shown
+const CHART_ANALYSIS_OUTPUT = getChartAnalysisSchema(
+  OUTPUT_SCHEMAS.ChartAnalysis,
+  CHART_INDICATORS
+);
+
+// Instrument analyzed when no symbol is configured
+const DEFAULT_SYMBOL = "BTCUSD";
+
+/**
+ * Model name to send to the provider, falling back to a stage default
+ */
+const getModelName = (config: VisionAnalysisConfig, fallback: string): string =>
+  parseModelSpec(config.model || fallback).model;
+
+/**
+ * Instrument of the charts, from the known markets and the config
  */
-const initializeOpenAI = (): OpenAI => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is required");
+const getInstrument = (config: VisionAnalysisConfig): InstrumentSpec =>
+  resolveInstrument(config.symbol || DEFAULT_SYMBOL, config.instrument);
+
+const CONTRACT_LABELS: Record<InstrumentSpec["contractType"], string> = {
+  perpetual: "perpetual futures",
+  future: "futures",
+  spot: "spot",
+};
+
+/**
+ * Short market name, e.g. "SOLUSD perpetual futures on Jupiter Perps"
+ */
+const getMarketLabel = (instrument: InstrumentSpec): string =>
+  `${instrument.symbol} ${CONTRACT_LABELS[instrument.contractType]} on ${
+    instrument.venue
+  }`;
+
+/**
+ * Instrument facts given to every prompt, so levels come out at the right
+ * magnitude
+ */
+const describeInstrument = (instrument: InstrumentSpec): string => {
+  const lines = [
+    `- Symbol: ${instrument.symbol}${
+      instrument.name ? ` (${instrument.name})` : ""
+    }`,
+    `- Venue: ${instrument.venue}`,
+    `- Contract: ${CONTRACT_LABELS[instrument.contractType]}${
+      instrument.maxLeverage
+        ? `, up to ${instrument.maxLeverage}x leverage`
+        : ""
+    }`,
+  ];
+  if (instrument.tickSize) {
+    lines.push(`- Tick size: ${instrument.tickSize}`);
   }
-  return new OpenAI({ apiKey });
+  if (instrument.priceRange) {
+    lines.push(
+      `- Typical price range: ${instrument.priceRange.min} to ${instrument.priceRange.max}. Every price level must be a ${instrument.symbol} price of this magnitude.`
+    );
+  }
+  return `INSTRUMENT:\n${lines.join("\n")}`;
 };
 
 /**
@@ -135,6 +372,27 @@ const generateTimestamp = (): string => {
   return now.toISOString().replace(/[:.]/g, "-").slice(0, 19);
 };
 
+/**
+ * Write a file via a temporary sibling so readers never see a partial file
+ */
+const writeFileAtomic = (filepath: string, data: string): void => {
+  const tempPath = `${filepath}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filepath);
+};
+
+/**
+ * Build the analysis artifact filename, stamped with the cycle ID if present
+ */
+const getAnalysisFilename = (
+  result: VisionAnalysisResult,
+  extension: "json" | "txt"
+): string => {
+  const timestamp = generateTimestamp();
+  const cycleSuffix = result.cycleId ? `-${result.cycleId}` : "";
+  return `analysis-${timestamp}${cycleSuffix}.${extension}`;
+};
+
 /**
  * Save analysis results to JSON file
  */
@@ -142,8 +400,7 @@ const saveAnalysisToJson = (
   result: VisionAnalysisResult,
   outputDir: string
 ): string => {
-  const timestamp = generateTimestamp();
-  const filename = `analysis-${timestamp}.json`;
+  const filename = getAnalysisFilename(result, "json");
   const filepath = path.join(outputDir, filename);
 
   // Ensure output directory exists
@@ -154,13 +411,21 @@ const saveAnalysisToJson = (
   // Save structured data
   const jsonData = {
     timestamp: new Date().toISOString(),
+    cycleId: result.cycleId,
+    symbol: result.symbol,
+    instrument: result.instrument,
+    prompts: result.prompts,
     success: result.success,
     analysisData: {
       individualAnalyses: result.individualAnalyses,
+      chartSamples: result.chartSamples,
       tradingDecision: result.tradingDecision,
       comprehensiveAnalysis: result.comprehensiveAnalysis,
       finalVerdict: result.finalVerdict,
+      committee: result.committee,
       totalCost: result.totalCost,
+      costs: result.costs,
+      repairs: result.repairs,
     },
     metadata: {
       timeframes: result.individualAnalyses.map((a) => a.timeframe),
@@ -169,10 +434,11 @@ const saveAnalysisToJson = (
       finalAction: result.finalVerdict?.action,
       finalConfidence: result.finalVerdict?.confidence,
       nextCheckMinutes: result.finalVerdict?.nextCheckMinutes,
+      observedPrice: result.observedPrice,
     },
   };
 
-  fs.writeFileSync(filepath, JSON.stringify(jsonData, null, 2));
+  writeFileAtomic(filepath, JSON.stringify(jsonData, null, 2));
   return filepath;
 };
 
@@ -183,8 +449,7 @@ const saveAnalysisToText = (
   result: VisionAnalysisResult,
   outputDir: string
 ): string => {
-  const timestamp = generateTimestamp();
-  const filename = `analysis-${timestamp}.txt`;
+  const filename = getAnalysisFilename(result, "txt");
   const filepath = path.join(outputDir, filename);
 
   // Ensure output directory exists
@@ -197,12 +462,26 @@ const saveAnalysisToText = (
   // Header
   report += `VISION AI ANALYSIS REPORT\n`;
   report += `Generated: ${new Date().toISOString()}\n`;
+  if (result.symbol) {
+    report += `Symbol: ${result.symbol}\n`;
+  }
+  if (result.instrument) {
+    report += `Market: ${getMarketLabel(result.instrument)}\n`;
+  }
+  if (result.prompts) {
+    report += `Prompts: ${Object.values(result.prompts)
+      .map(({ id, version, set }) => `${set}/${id}@${version}`)
+      .join(", ")}\n`;
+  }
+  if (result.cycleId) {
+    report += `Cycle ID: ${result.cycleId}\n`;
+  }
   report += `${"=".repeat(50)}\n\n`;
 
   if (!result.success) {
     report += `❌ ANALYSIS FAILED\n`;
     report += `Error: ${result.error}\n`;
-    fs.writeFileSync(filepath, report);
+    writeFileAtomic(filepath, report);
     return filepath;
   }
 
@@ -221,6 +500,12 @@ const saveAnalysisToText = (
     report += `Trend: ${analysis.trend.toUpperCase()}\n`;
     report += `Strength: ${analysis.strength}/10\n`;
     report += `Confidence: ${analysis.confidence}/10\n`;
+    if (analysis.lastPrice) {
+      report += `Last Price: $${analysis.lastPrice.toLocaleString()}\n`;
+    }
+    if (analysis.agreement) {
+      report += `Agreement: ${describeAgreement(analysis.agreement)}\n`;
+    }
 
     if (analysis.keyLevels.support || analysis.keyLevels.resistance) {
       report += `Key Levels:\n`;
@@ -236,6 +521,9 @@ const saveAnalysisToText = (
     report += `  Volume: ${analysis.indicators.volume}\n`;
     report += `  Bollinger: ${analysis.indicators.bollinger}\n`;
     report += `  Momentum: ${analysis.indicators.momentum}\n`;
+    describeIndicatorReadings(analysis.indicators).forEach((reading) => {
+      report += `  ${reading}\n`;
+    });
 
     if (analysis.signals.length > 0) {
       report += `Signals: ${analysis.signals.join(", ")}\n`;
@@ -356,10 +644,74 @@ const saveAnalysisToText = (
     report += `${"=".repeat(30)}\n\n`;
   }
 
+  // Every committee member's vote
+  if (result.committee) {
+    const { committee } = result;
+    report += `🏛️ VERDICT COMMITTEE (${committee.rule})\n`;
+    report += `${"=".repeat(30)}\n`;
+    report += `Decision: ${committee.action} (${Object.entries(committee.tally)
+      .map(([action, score]) => `${action} ${score}`)
+      .join(", ")})\n`;
+    committee.votes.forEach(({ model, verdict, error }) => {
+      if (!verdict) {
+        report += `  ✗ ${model}: no verdict (${error})\n`;
+        return;
+      }
+      const mark = verdict.action === committee.action ? "✓" : "✗";
+      report += `  ${mark} ${model}: ${verdict.action} (${verdict.confidence}%) - ${verdict.keyReason}\n`;
+    });
+    if (committee.dissent.length > 0) {
+      report += `Dissent: ${committee.dissent.length} of ${committee.votes.length} members\n`;
+    }
+    report += `\n`;
+  }
+
+  // Spend per stage and timeframe
+  if (result.costs) {
+    const { costs } = result;
+    report += `💰 COST BREAKDOWN\n`;
+    report += `${"=".repeat(30)}\n`;
+    report += `Total: $${costs.total.toFixed(4)} (${
+      costs.inputTokens
+    } input + ${costs.outputTokens} output tokens)\n`;
+    report += `By Stage:\n`;
+    Object.entries(costs.byStage).forEach(([stage, cost]) => {
+      report += `  ${stage}: $${cost.toFixed(4)}\n`;
+    });
+    if (Object.keys(costs.byTimeframe).length > 0) {
+      report += `By Timeframe (chart analysis):\n`;
+      Object.entries(costs.byTimeframe).forEach(([timeframe, cost]) => {
+        report += `  ${timeframe}: $${cost.toFixed(4)}\n`;
+      });
+    }
+    if (costs.calls.some((call) => call.estimated)) {
+      report += `Some calls reported no usage; their tokens are estimated\n`;
+    }
+    report += `\n`;
+  }
+
+  // Model replies that needed fixing
+  if (result.repairs) {
+    report += `🩹 OUTPUT REPAIRS\n`;
+    report += `${"=".repeat(30)}\n`;
+    result.repairs.forEach((repair) => {
+      report += `${repair.stage}${
+        repair.timeframe ? ` (${repair.timeframe})` : ""
+      }${repair.model ? ` [${repair.model}]` : ""}:\n`;
+      if (repair.reaskedFor) {
+        report += `  Asked again for: ${repair.reaskedFor.join("; ")}\n`;
+      }
+      repair.repairs.forEach((fix) => {
+        report += `  • ${fix}\n`;
+      });
+    });
+    report += `\n`;
+  }
+
   report += `${"=".repeat(50)}\n`;
   report += `End of Report\n`;
 
-  fs.writeFileSync(filepath, report);
+  writeFileAtomic(filepath, report);
   return filepath;
 };
 
@@ -375,101 +727,148 @@ const imageToBase64 = (imagePath: string): string => {
 };
 
 /**
- * Get chart analysis prompt for a specific timeframe
+ * One line about the previous verdict, for prompts that compare against it
  */
-const getChartAnalysisPrompt = (timeframe: string): string => {
-  return `
-You are an expert cryptocurrency trader and technical analyst. Analyze this ${timeframe} chart image for BTCUSD perpetual futures trading.
-
-Please provide a detailed analysis focusing on:
-
-1. **Trend Analysis**: Current trend direction and strength
-2. **Key Levels**: Important support and resistance levels (provide specific price levels if visible)
-3. **Technical Indicators**: 
-   - Volume analysis (high/medium/low)
-   - Bollinger Bands condition (squeeze/expansion/neutral)
-   - Overall momentum (increasing/decreasing/stable)
-4. **Chart Patterns**: Any recognizable patterns or formations
-5. **Entry Signals**: Trading signals for this timeframe
-6. **Risk Assessment**: Key risks and invalidation levels
-
-Respond in JSON format with this exact structure:
-{
-  "timeframe": "${timeframe}",
-  "trend": "bullish|bearish|neutral|sideways",
-  "strength": 1-10,
-  "keyLevels": {
-    "support": number or null,
-    "resistance": number or null
-  },
-  "indicators": {
-    "volume": "high|medium|low",
-    "bollinger": "squeeze|expansion|neutral", 
-    "momentum": "increasing|decreasing|stable"
-  },
-  "signals": ["array", "of", "trading", "signals"],
-  "confidence": 1-10,
-  "analysis": "detailed analysis text"
-}
+const describePriorVerdict = (verdict?: TradingVerdict): string =>
+  verdict
+    ? `${verdict.action} (${verdict.confidence}% confidence, ${verdict.timeHorizon} term): ${verdict.keyReason}`
+    : "None (first analysis)";
 
-Focus on actionable insights for perpetual futures trading. Be specific about price levels when visible on the chart.
-`;
+/**
+ * Template variables every stage fills in
+ */
+const getSharedPromptVariables = (
+  config: VisionAnalysisConfig
+): Record<string, string> => {
+  const instrument = getInstrument(config);
+  return {
+    symbol: instrument.symbol,
+    market: getMarketLabel(instrument),
+    contract: CONTRACT_LABELS[instrument.contractType],
+    instrument: describeInstrument(instrument),
+    priorVerdict: describePriorVerdict(config.priorVerdict),
+  };
 };
 
 /**
- * Get multi-timeframe decision prompt
+ * Timeframe analyses as given to the decision prompt
  */
-const getMultiTimeframePrompt = (analyses: ChartAnalysis[]): string => {
-  const analysesText = analyses
+const describeAnalyses = (analyses: ChartAnalysis[]): string =>
+  analyses
     .map(
       (a) =>
         `${a.timeframe}: ${a.trend} (strength: ${a.strength}/10, confidence: ${a.confidence}/10)\n` +
+        (a.agreement
+          ? `Sample agreement: ${describeAgreement(a.agreement)}\n`
+          : "") +
+        (describeIndicatorReadings(a.indicators).length > 0
+          ? `Indicators: ${describeIndicatorReadings(a.indicators).join(
+              "; "
+            )}\n`
+          : "") +
         `Signals: ${a.signals.join(", ")}\n` +
         `Analysis: ${a.analysis}\n`
     )
     .join("\n---\n");
 
-  return `
-You are an expert cryptocurrency trader making a multi-timeframe trading decision for BTCUSD perpetual futures.
-
-Based on the following individual timeframe analyses:
-
-${analysesText}
-
-Provide a comprehensive trading decision that considers:
-
-1. **Multi-Timeframe Alignment**: How timeframes align or conflict
-2. **Market Structure**: Overall market structure and phase
-3. **Risk Management**: Appropriate position sizing and risk levels
-4. **Entry Strategy**: Best entry approach given the multi-timeframe view
-5. **Exit Strategy**: Stop loss and take profit recommendations
-
-Respond in JSON format with this exact structure:
-{
-  "action": "long|short|hold|close",
-  "confidence": 1-10,
-  "reasoning": "detailed reasoning for the decision",
-  "entryPrice": number or null,
-  "stopLoss": number or null, 
-  "takeProfit": number or null,
-  "riskReward": number or null,
-  "overallTrend": "bullish|bearish|neutral",
-  "marketStructure": "description of current market structure",
-  "warnings": ["array", "of", "important", "warnings"]
-}
+/**
+ * Latest chart price, from the shortest timeframe that shows one
+ */
+const getObservedPrice = (analyses: ChartAnalysis[]): number | undefined =>
+  [...analyses]
+    .filter((analysis) => analysis.lastPrice !== undefined)
+    .sort(
+      (a, b) =>
+        timeframeToMinutes(a.timeframe) - timeframeToMinutes(b.timeframe)
+    )[0]?.lastPrice;
 
-Focus on practical trading advice with specific price levels and risk management.
-`;
+/**
+ * Parse the JSON object in a model reply and validate it
+ */
+const parseReply = <T>(
+  content: string,
+  validate: (data: unknown) => ValidationResult<T>
+): ValidationResult<T> => {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { repairs: [], errors: ["No JSON found in response"] };
+  }
+
+  try {
+    return validate(JSON.parse(jsonMatch[0]));
+  } catch (error) {
+    return {
+      repairs: [],
+      errors: [`Invalid JSON: ${(error as Error).message}`],
+    };
+  }
+};
+
+/**
+ * Ask for a reply that passes validation, re-asking once with the errors
+ */
+const completeValidated = async <T>(
+  provider: VisionProvider,
+  request: VisionRequest,
+  validate: (data: unknown) => ValidationResult<T>,
+  repairs: OutputRepair[]
+): Promise<T> => {
+  const first = await provider.complete(request);
+  let result = parseReply(first.content, validate);
+  let reaskedFor: string[] | undefined;
+
+  if (!result.value) {
+    reaskedFor = result.errors;
+    logger.warn(
+      `⚠️  Invalid ${request.stage} reply (${result.errors.join(
+        "; "
+      )}), asking again`
+    );
+
+    const prompt = `${request.prompt}
+
+Your previous reply was rejected:
+${result.errors.map((error) => `- ${error}`).join("\n")}
+
+Reply again with corrected JSON in the exact format requested.`;
+    const second = await provider.complete({ ...request, prompt });
+    result = parseReply(second.content, validate);
+  }
+
+  if (!result.value) {
+    throw new Error(
+      `Invalid ${request.stage} reply after asking again: ${result.errors.join(
+        "; "
+      )}`
+    );
+  }
+
+  if (result.repairs.length > 0 || reaskedFor) {
+    result.repairs.forEach((repair) =>
+      logger.info(`🩹 ${request.stage}: ${repair}`)
+    );
+    repairs.push({
+      stage: request.stage,
+      ...(request.timeframe && { timeframe: request.timeframe }),
+      repairs: result.repairs,
+      ...(reaskedFor && { reaskedFor }),
+    });
+  }
+
+  return result.value;
 };
 
 /**
- * Analyze a single chart image
+ * Analyze a single chart image, as the given sample when the timeframe is sampled
  */
 const analyzeChartImage = async (
-  openai: OpenAI,
+  provider: VisionProvider,
   imagePath: string,
   timeframe: string,
-  config: VisionAnalysisConfig
+  config: VisionAnalysisConfig,
+  prompts: PromptSet,
+  repairs: OutputRepair[],
+  sample?: number
 ): Promise<ChartAnalysis> => {
   const stepLogger = createStepLogger(`Chart Analysis ${timeframe}`);
 
@@ -477,46 +876,53 @@ const analyzeChartImage = async (
     stepLogger.start();
 
     const base64Image = imageToBase64(imagePath);
-    const prompt = getChartAnalysisPrompt(timeframe);
-
-    logger.info(`🔍 Analyzing ${timeframe} chart: ${path.basename(imagePath)}`);
-
-    const response = await openai.chat.completions.create({
-      model: config.model || "gpt-4o",
-      max_tokens: config.maxTokens || 1000,
-      temperature: config.temperature || 0.1,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/png;base64,${base64Image}`,
-                detail: config.detail || "high",
-              },
-            },
-          ],
-        },
-      ],
+    const instrument = getInstrument(config);
+    const prompt = renderPrompt(prompts.templates.chart_analysis, {
+      ...getSharedPromptVariables(config),
+      timeframe,
+      indicators: getIndicatorPrompt(CHART_INDICATORS),
+      indicatorFormat: getIndicatorFormat(CHART_ANALYSIS_OUTPUT),
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response content from OpenAI");
-    }
+    logger.info(`🔍 Analyzing ${timeframe} chart: ${path.basename(imagePath)}`);
 
-    // Parse JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
+    // The timeframe is known, whatever the model labels the chart
+    const validate = (data: unknown): ValidationResult<ChartAnalysis> => {
+      const result = validateChartAnalysis(data, instrument.priceRange);
+      if (result.value && result.value.timeframe !== timeframe) {
+        result.repairs.push(
+          `timeframe: ${JSON.stringify(
+            result.value.timeframe
+          )} → "${timeframe}"`
+        );
+        result.value.timeframe = timeframe;
+      }
+      return result;
+    };
 
-    const analysis: ChartAnalysis = JSON.parse(jsonMatch[0]);
+    const analysis = await completeValidated(
+      provider,
+      {
+        stage: "chart_analysis",
+        structuredOutput: CHART_ANALYSIS_OUTPUT,
+        model: getModelName(config, "gpt-4o"),
+        prompt,
+        images: [
+          {
+            base64: base64Image,
+            mimeType: "image/png",
+            detail: config.detail || "high",
+          },
+        ],
+        maxTokens: config.maxTokens || 1000,
+        temperature: config.temperature ?? 0.1,
+        timeframe,
+        ...(sample !== undefined && { sample }),
+        ...(config.signal && { signal: config.signal }),
+      },
+      validate,
+      repairs
+    );
 
     logger.info(
       `📊 ${timeframe} Analysis: ${analysis.trend} (${analysis.confidence}/10 confidence)`
@@ -530,50 +936,112 @@ const analyzeChartImage = async (
   }
 };
 
+/**
+ * Analyze a timeframe once, or sample it several times and take the consensus
+ */
+const analyzeTimeframe = async (
+  provider: VisionProvider,
+  imagePath: string,
+  timeframe: string,
+  config: VisionAnalysisConfig,
+  prompts: PromptSet,
+  repairs: OutputRepair[]
+): Promise<{ analysis: ChartAnalysis; samples?: ChartAnalysis[] }> => {
+  const { sampling } = config;
+  if (!sampling || sampling.samples <= 1) {
+    return {
+      analysis: await analyzeChartImage(
+        provider,
+        imagePath,
+        timeframe,
+        config,
+        prompts,
+        repairs
+      ),
+    };
+  }
+
+  // One sample at a time, so sampling does not multiply concurrent requests
+  const samples: ChartAnalysis[] = [];
+  let firstSampleError: unknown;
+  for (let index = 0; index < sampling.samples; index++) {
+    try {
+      samples.push(
+        await analyzeChartImage(
+          provider,
+          imagePath,
+          timeframe,
+          { ...config, ...getSampleSettings(sampling, index) },
+          prompts,
+          repairs,
+          index
+        )
+      );
+    } catch (error) {
+      if (config.signal?.aborted || error instanceof SpendCapError) {
+        throw error;
+      }
+      logger.warn(
+        `⚠️  ${timeframe} sample ${index + 1}/${sampling.samples} failed: ${
+          (error as Error).message
+        }`
+      );
+      firstSampleError ??= error;
+    }
+  }
+
+  if (samples.length === 0) {
+    throw firstSampleError;
+  }
+
+  const analysis = buildConsensus(samples);
+  logger.info(
+    `🗳️  ${timeframe} consensus of ${samples.length} samples: ${
+      analysis.trend
+    } (${Math.round((analysis.agreement?.overall ?? 1) * 100)}% agreement)`
+  );
+  return { analysis, samples };
+};
+
 /**
  * Make multi-timeframe trading decision
  */
 const makeMultiTimeframeDecision = async (
-  openai: OpenAI,
+  provider: VisionProvider,
   analyses: ChartAnalysis[],
-  config: VisionAnalysisConfig
+  config: VisionAnalysisConfig,
+  prompts: PromptSet,
+  verdictHistory: string,
+  repairs: OutputRepair[]
 ): Promise<TradingDecision> => {
   const stepLogger = createStepLogger("Multi-Timeframe Decision");
 
   try {
     stepLogger.start();
 
-    const prompt = getMultiTimeframePrompt(analyses);
-
-    logger.info("🧠 Making multi-timeframe trading decision...");
-
-    const response = await openai.chat.completions.create({
-      model: config.model || "gpt-4o",
-      max_tokens: config.maxTokens || 800,
-      temperature: config.temperature || 0.1,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
+    const instrument = getInstrument(config);
+    const prompt = renderPrompt(prompts.templates.multi_timeframe_decision, {
+      ...getSharedPromptVariables(config),
+      analyses: describeAnalyses(analyses),
+      verdictHistory,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response content from OpenAI");
-    }
-
-    // Parse JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
+    logger.info("🧠 Making multi-timeframe trading decision...");
 
-    const decision = JSON.parse(jsonMatch[0]) as Omit<
-      TradingDecision,
-      "timeframes"
-    >;
+    const decision = await completeValidated(
+      provider,
+      {
+        stage: "multi_timeframe_decision",
+        structuredOutput: OUTPUT_SCHEMAS.TradingDecision,
+        model: getModelName(config, "gpt-4o"),
+        prompt,
+        maxTokens: config.maxTokens || 800,
+        temperature: config.temperature ?? 0.1,
+        ...(config.signal && { signal: config.signal }),
+      },
+      (data) => validateTradingDecision(data, instrument.priceRange),
+      repairs
+    );
 
     const fullDecision: TradingDecision = {
       ...decision,
@@ -594,38 +1062,17 @@ const makeMultiTimeframeDecision = async (
   }
 };
 
-/**
- * Calculate cost for text-only analysis
- */
-const calculateTextCost = (
-  input: string,
-  output: string,
-  model: string
-): number => {
-  const inputTokens = Math.ceil(input.length / 4); // Rough estimate
-  const outputTokens = Math.ceil(output.length / 4);
-
-  const costs = {
-    "gpt-4o": { input: 0.0025, output: 0.01 },
-    "gpt-4o-mini": { input: 0.00015, output: 0.0006 },
-    "gpt-4-turbo": { input: 0.01, output: 0.03 },
-  };
-
-  const modelCost = costs[model as keyof typeof costs] || costs["gpt-4o"];
-  return (
-    (inputTokens * modelCost.input + outputTokens * modelCost.output) / 1000
-  );
-};
-
 /**
  * Generate final comprehensive analysis
  */
 const generateComprehensiveAnalysis = async (
   analyses: ChartAnalysis[],
   tradingDecision: TradingDecision,
-  openai: OpenAI,
-  config: VisionAnalysisConfig
-): Promise<{ analysis: ComprehensiveAnalysis; cost: number }> => {
+  provider: VisionProvider,
+  config: VisionAnalysisConfig,
+  prompts: PromptSet,
+  repairs: OutputRepair[]
+): Promise<ComprehensiveAnalysis> => {
   const stepLogger = createStepLogger("Comprehensive Analysis");
 
   try {
@@ -639,85 +1086,122 @@ const generateComprehensiveAnalysis = async (
       )
       .join("\n");
 
-    const prompt = `You are an expert quantitative analyst. Based on the following chart analyses and trading decision, provide a comprehensive final analysis.
-
-INDIVIDUAL TIMEFRAME ANALYSES:
-${analysisContext}
-
-TRADING DECISION:
-Action: ${tradingDecision.action}
-Entry: ${tradingDecision.entryPrice || "N/A"}
-Stop Loss: ${tradingDecision.stopLoss || "N/A"}
-Take Profit: ${tradingDecision.takeProfit || "N/A"}
-Risk Level: ${tradingDecision.confidence}/10
-Reasoning: ${tradingDecision.reasoning}
-
-Please provide a comprehensive analysis in this EXACT JSON format:
-{
-  "executiveSummary": "2-3 sentence high-level summary of the analysis",
-  "marketOverview": "Detailed market context and current situation",
-  "quantitativeMetrics": {
-    "bullishSignals": 0,
-    "bearishSignals": 0,
-    "neutralSignals": 0,
-    "avgConfidence": 0,
-    "timeframeAlignment": 0
-  },
-  "riskAssessment": {
-    "riskLevel": "low|medium|high",
-    "keyRisks": ["risk1", "risk2"],
-    "riskMitigation": ["mitigation1", "mitigation2"]
-  },
-  "strategicRecommendations": {
-    "primary": "Main recommendation",
-    "alternative": "Alternative approach",
-    "timeHorizon": "Expected time horizon",
-    "positionSizing": "Position sizing recommendations"
-  },
-  "nextSteps": ["step1", "step2", "step3"]
-}
-
-Calculate quantitative metrics based on the analyses:
-- Count bullish, bearish, neutral signals across timeframes
-- Calculate average confidence
-- Rate timeframe alignment (1-10 scale based on how aligned different timeframes are)`;
-
-    const response = await openai.chat.completions.create({
-      model: config.model || "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      temperature: config.temperature || 0.1,
-      max_tokens: config.maxTokens || 1500,
+    const prompt = renderPrompt(prompts.templates.comprehensive_analysis, {
+      ...getSharedPromptVariables(config),
+      analyses: analysisContext,
+      decision: [
+        `Action: ${tradingDecision.action}`,
+        `Entry: ${tradingDecision.entryPrice || "N/A"}`,
+        `Stop Loss: ${tradingDecision.stopLoss || "N/A"}`,
+        `Take Profit: ${tradingDecision.takeProfit || "N/A"}`,
+        `Risk Level: ${tradingDecision.confidence}/10`,
+        `Reasoning: ${tradingDecision.reasoning}`,
+      ].join("\n"),
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response content from OpenAI");
-    }
-
-    const cost = calculateTextCost(
-      prompt,
-      content,
-      config.model || "gpt-4o-mini"
+    const model = getModelName(config, "gpt-4o-mini");
+    const analysis = await completeValidated(
+      provider,
+      {
+        stage: "comprehensive_analysis",
+        structuredOutput: OUTPUT_SCHEMAS.ComprehensiveAnalysis,
+        model,
+        prompt,
+        temperature: config.temperature ?? 0.1,
+        maxTokens: config.maxTokens || 1500,
+        ...(config.signal && { signal: config.signal }),
+      },
+      validateComprehensiveAnalysis,
+      repairs
     );
 
-    // Parse JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-
-    const analysis = JSON.parse(jsonMatch[0]) as ComprehensiveAnalysis;
-
     logger.info("📋 Generated comprehensive analysis");
     stepLogger.complete();
 
-    return { analysis, cost };
+    return analysis;
   } catch (error) {
     stepLogger.error(error as Error);
     throw error;
   }
 };
 
+/**
+ * Ask one model for the final verdict
+ */
+const askForVerdict = (
+  provider: VisionProvider,
+  model: string,
+  prompt: string,
+  config: VisionAnalysisConfig,
+  repairs: OutputRepair[]
+): Promise<TradingVerdict> =>
+  completeValidated(
+    provider,
+    {
+      stage: "final_verdict",
+      model,
+      prompt,
+      structuredOutput: OUTPUT_SCHEMAS.TradingVerdict,
+      temperature: 0.1,
+      ...(config.signal && { signal: config.signal }),
+    },
+    (data) => validateTradingVerdict(data, getInstrument(config).priceRange),
+    repairs
+  );
+
+/**
+ * Every committee member votes on the same prompt, then the rule decides
+ */
+const runCommittee = async (
+  members: CommitteeProvider[],
+  prompt: string,
+  config: VisionAnalysisConfig,
+  repairs: OutputRepair[]
+): Promise<{ verdict: TradingVerdict; committee: CommitteeResult }> => {
+  const rule = config.committee?.rule ?? "majority";
+  logger.info(
+    `🏛️  Asking a committee of ${members.length} models (${rule})...`
+  );
+
+  const votes = await Promise.all(
+    members.map(async ({ member, provider }): Promise<CommitteeVote> => {
+      // Members answer the same stage, so say whose reply needed fixing
+      const memberRepairs: OutputRepair[] = [];
+      try {
+        const verdict = await askForVerdict(
+          provider,
+          parseModelSpec(member.model).model,
+          prompt,
+          config,
+          memberRepairs
+        );
+        logger.info(
+          `🗳️  ${member.model}: ${verdict.action} (${verdict.confidence}% confidence)`
+        );
+        return { model: member.model, verdict };
+      } catch (error) {
+        if (config.signal?.aborted || error instanceof SpendCapError) {
+          throw error;
+        }
+        logger.warn(
+          `⚠️  Committee member ${member.model} failed: ${
+            (error as Error).message
+          }`
+        );
+        return { model: member.model, error: (error as Error).message };
+      } finally {
+        repairs.push(
+          ...memberRepairs.map((repair) => ({ ...repair, model: member.model }))
+        );
+      }
+    })
+  );
+
+  const decided = decideVerdict(votes, rule);
+  decided.committee.dissent.forEach((line) => logger.warn(`⚠️  ${line}`));
+  return decided;
+};
+
 /**
  * Generate final trading verdict using function calling for structured output
  */
@@ -725,9 +1209,13 @@ const generateFinalVerdict = async (
   analyses: ChartAnalysis[],
   tradingDecision: TradingDecision,
   comprehensiveAnalysis: ComprehensiveAnalysis,
-  openai: OpenAI,
-  config: VisionAnalysisConfig
-): Promise<{ verdict: TradingVerdict; cost: number }> => {
+  provider: VisionProvider,
+  config: VisionAnalysisConfig,
+  prompts: PromptSet,
+  verdictHistory: string,
+  repairs: OutputRepair[],
+  committeeProviders: CommitteeProvider[] = []
+): Promise<{ verdict: TradingVerdict; committee?: CommitteeResult }> => {
   const stepLogger = createStepLogger("Final Trading Verdict");
 
   try {
@@ -738,137 +1226,28 @@ const generateFinalVerdict = async (
       .map((a) => `${a.timeframe}: ${a.trend} (${a.confidence}%)`)
       .join(", ");
 
-    const prompt = `You are a senior trading executive making the final decision. Based on all analysis, provide a definitive trading verdict.
-
-TIMEFRAME SIGNALS: ${timeframeSignals}
-OVERALL DECISION: ${tradingDecision.action} (${tradingDecision.confidence}/10)
-RISK LEVEL: ${comprehensiveAnalysis.riskAssessment.riskLevel}
-ALIGNMENT SCORE: ${comprehensiveAnalysis.quantitativeMetrics.timeframeAlignment}/10
-
-Your job is to make the FINAL EXECUTIVE DECISION. Be decisive and clear.
-
-Guidelines:
-- confidence: 1-100% (your certainty in this decision)
-- positionSize: 1-100% (percentage of portfolio to risk)  
-- timeHorizon: short=intraday, medium=days, long=weeks
-- riskLevel: Based on market conditions and setup quality
-- keyReason: One clear sentence why this action is best
-- nextCheckMinutes: When to check again (2-60 minutes). Consider:
-  * High volatility/uncertainty: 2-5 minutes
-  * Strong signals with breakout potential: 5-10 minutes
-  * Normal market conditions: 10-15 minutes
-  * Consolidation/low volatility: 15-30 minutes
-  * Strong trend continuation: 30-60 minutes
-- Include entry/exit levels only if action is LONG or SHORT
-- criticalWarnings: Key risks that could invalidate the decision
-
-BE DECISIVE. This is the final call that will be acted upon.`;
-
-    // Define function schema for structured output
-    const functions = [
-      {
-        name: "make_trading_verdict",
-        description:
-          "Make a final executive trading decision with structured data",
-        parameters: {
-          type: "object",
-          properties: {
-            action: {
-              type: "string",
-              enum: ["HOLD", "LONG", "SHORT"],
-              description: "The definitive trading action to take",
-            },
-            confidence: {
-              type: "integer",
-              minimum: 1,
-              maximum: 100,
-              description: "Confidence percentage in this decision (1-100)",
-            },
-            positionSize: {
-              type: "integer",
-              minimum: 1,
-              maximum: 100,
-              description: "Percentage of portfolio to risk (1-100)",
-            },
-            timeHorizon: {
-              type: "string",
-              enum: ["short", "medium", "long"],
-              description:
-                "Time horizon: short=intraday, medium=days, long=weeks",
-            },
-            riskLevel: {
-              type: "string",
-              enum: ["LOW", "MEDIUM", "HIGH"],
-              description: "Risk level classification",
-            },
-            keyReason: {
-              type: "string",
-              description:
-                "Single sentence explaining why this decision is best",
-            },
-            nextCheckMinutes: {
-              type: "integer",
-              minimum: 2,
-              maximum: 60,
-              description:
-                "Minutes until next analysis check (2-60 range based on market conditions)",
-            },
-            entryPrice: {
-              type: "number",
-              description: "Entry price (only for LONG/SHORT actions)",
-            },
-            stopLoss: {
-              type: "number",
-              description: "Stop loss price (only for LONG/SHORT actions)",
-            },
-            takeProfit: {
-              type: "number",
-              description: "Take profit price (only for LONG/SHORT actions)",
-            },
-            criticalWarnings: {
-              type: "array",
-              items: {
-                type: "string",
-              },
-              description: "Key risks that could invalidate this decision",
-            },
-          },
-          required: [
-            "action",
-            "confidence",
-            "positionSize",
-            "timeHorizon",
-            "riskLevel",
-            "keyReason",
-            "nextCheckMinutes",
-            "criticalWarnings",
-          ],
-          additionalProperties: false,
-        },
-      },
-    ];
-
-    const response = await openai.chat.completions.create({
-      model: config.model || "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      functions: functions,
-      function_call: { name: "make_trading_verdict" },
-      temperature: 0.1,
+    const prompt = renderPrompt(prompts.templates.final_verdict, {
+      ...getSharedPromptVariables(config),
+      timeframeSignals,
+      decision: `${tradingDecision.action} (${tradingDecision.confidence}/10)`,
+      riskLevel: comprehensiveAnalysis.riskAssessment.riskLevel,
+      alignment: comprehensiveAnalysis.quantitativeMetrics.timeframeAlignment,
+      verdictHistory,
     });
 
-    const functionCall = response.choices[0]?.message?.function_call;
-    if (!functionCall || !functionCall.arguments) {
-      throw new Error("No function call response from OpenAI");
-    }
-
-    const cost = calculateTextCost(
-      prompt,
-      functionCall.arguments,
-      config.model || "gpt-4o-mini"
-    );
-
-    // Parse the structured response
-    const verdict = JSON.parse(functionCall.arguments) as TradingVerdict;
+    const { verdict, committee } =
+      committeeProviders.length > 0
+        ? await runCommittee(committeeProviders, prompt, config, repairs)
+        : {
+            verdict: await askForVerdict(
+              provider,
+              getModelName(config, "gpt-4o-mini"),
+              prompt,
+              config,
+              repairs
+            ),
+            committee: undefined,
+          };
 
     logger.info(
       `⚡ Final Verdict: ${verdict.action} (${verdict.confidence}% confidence)`
@@ -878,7 +1257,7 @@ BE DECISIVE. This is the final call that will be acted upon.`;
     );
     stepLogger.complete();
 
-    return { verdict, cost };
+    return { verdict, ...(committee && { committee }) };
   } catch (error) {
     stepLogger.error(error as Error);
     throw error;
@@ -894,12 +1273,65 @@ export const executeVisionAnalysis = async (
   const stepLogger = createStepLogger("Vision Analysis");
   const screenshotsDir = config.screenshotsDir || "screenshots";
   const timeframes = config.timeframes || ["5m", "15m", "1h", "2h", "6h"];
+  const costTrackers: CostTracker[] = [];
+  let promptVersions: VisionAnalysisResult["prompts"];
 
   try {
     stepLogger.start();
 
-    // Verify OpenAI API key
-    const openai = initializeOpenAI();
+    // A broken template fails here, before any model call is paid for
+    const prompts = loadPromptSet(config.promptSet);
+    promptVersions = getPromptVersions(prompts);
+    if (prompts.name !== DEFAULT_PROMPT_SET) {
+      logger.info(`📝 Using prompt set "${prompts.name}"`);
+    }
+
+    // Fails fast when a provider is not set up (e.g. no API key)
+    const { costLedger, budget } = config;
+    const trackCosts = (provider: VisionProvider): VisionProvider => {
+      const tracker = createCostTracker(
+        provider,
+        config.prices,
+        costLedger && {
+          beforeCall: () => {
+            const reachedCap =
+              budget && getReachedCap(costLedger, budget, config.cycleId);
+            if (reachedCap) {
+              throw new SpendCapError(reachedCap);
+            }
+          },
+          onCall: (call, request) =>
+            costLedger.record({
+              ...call,
+              requestedModel: request.model,
+              ...(config.cycleId && { cycleId: config.cycleId }),
+              ...(config.symbol && { symbol: config.symbol }),
+            }),
+        }
+      );
+      costTrackers.push(tracker);
+      return tracker.provider;
+    };
+    const provider = trackCosts(createVisionProvider(config));
+    const committeeProviders = (config.committee?.members ?? []).map(
+      (member): CommitteeProvider => ({
+        member,
+        provider: trackCosts(
+          createVisionProvider({
+            ...config,
+            model: member.model,
+            ...(member.baseUrl && { baseUrl: member.baseUrl }),
+            ...(member.toolCalling !== undefined && {
+              toolCalling: member.toolCalling,
+            }),
+            ...(member.billable !== undefined && {
+              billable: member.billable,
+            }),
+          })
+        ),
+      })
+    );
+    const repairs: OutputRepair[] = [];
 
     // Find chart images (prefer cropped versions if available)
     const imageFiles: Array<{ path: string; timeframe: string }> = [];
@@ -908,11 +1340,11 @@ export const executeVisionAnalysis = async (
       // Check for cropped version first
       const croppedPath = path.join(
         screenshotsDir,
-        `jupiter-${timeframe}-cropped.png`
+        getTimeframeScreenshotName(timeframe, config.cycleId, "-cropped")
       );
       const originalPath = path.join(
         screenshotsDir,
-        `jupiter-${timeframe}.png`
+        getTimeframeScreenshotName(timeframe, config.cycleId)
       );
 
       if (fs.existsSync(croppedPath)) {
@@ -945,21 +1377,39 @@ export const executeVisionAnalysis = async (
       `🔄 Running ${imageFiles.length} timeframe analyses in parallel...`
     );
 
+    if (config.sampling && config.sampling.samples > 1) {
+      logger.info(
+        `🎲 Sampling each timeframe ${config.sampling.samples} times for a consensus`
+      );
+    }
+
+    let firstAnalysisError: unknown;
+    const chartSamples: Record<string, ChartAnalysis[]> = {};
     const analysisPromises = imageFiles.map(
       async ({ path: imagePath, timeframe }) => {
         try {
-          const analysis = await analyzeChartImage(
-            openai,
+          const { analysis, samples } = await analyzeTimeframe(
+            provider,
             imagePath,
             timeframe,
-            config
+            config,
+            prompts,
+            repairs
           );
+          if (samples) {
+            chartSamples[timeframe] = samples;
+          }
           logger.info(`✅ Completed ${timeframe} analysis`);
           return analysis;
         } catch (error) {
+          // A reached cap ends the whole analysis, not just this timeframe
+          if (error instanceof SpendCapError) {
+            throw error;
+          }
           logger.error(
             `❌ Failed to analyze ${timeframe}: ${(error as Error).message}`
           );
+          firstAnalysisError ??= error;
           return null;
         }
       }
@@ -981,86 +1431,129 @@ export const executeVisionAnalysis = async (
     await new Promise((resolve) => setTimeout(resolve, 500));
 
     if (individualAnalyses.length === 0) {
-      throw new Error("No successful chart analyses");
+      // Surface the underlying API error so the caller can classify it
+      throw firstAnalysisError ?? new Error("No successful chart analyses");
     }
 
+    // Earlier verdicts, checked against the price on the charts now
+    const observedPrice = getObservedPrice(individualAnalyses);
+    const historyDepth = config.historyDepth ?? DEFAULT_HISTORY_DEPTH;
+    const verdictHistory = describeVerdictHistory(
+      addObservedPrice(
+        historyDepth > 0
+          ? (config.verdictHistory ?? []).slice(-historyDepth)
+          : [],
+        observedPrice
+      )
+    );
+
     // Make multi-timeframe trading decision
     const tradingDecision = await makeMultiTimeframeDecision(
-      openai,
+      provider,
       individualAnalyses,
-      config
+      config,
+      prompts,
+      verdictHistory,
+      repairs
     );
 
     // Generate comprehensive analysis
-    const { analysis: comprehensiveAnalysis, cost: compCost } =
-      await generateComprehensiveAnalysis(
-        individualAnalyses,
-        tradingDecision,
-        openai,
-        config
-      );
+    const comprehensiveAnalysis = await generateComprehensiveAnalysis(
+      individualAnalyses,
+      tradingDecision,
+      provider,
+      config,
+      prompts,
+      repairs
+    );
 
     // Generate final trading verdict
-    const { verdict: finalVerdict, cost: verdictCost } =
-      await generateFinalVerdict(
-        individualAnalyses,
-        tradingDecision,
-        comprehensiveAnalysis,
-        openai,
-        config
-      );
+    const { verdict: finalVerdict, committee } = await generateFinalVerdict(
+      individualAnalyses,
+      tradingDecision,
+      comprehensiveAnalysis,
+      provider,
+      config,
+      prompts,
+      verdictHistory,
+      repairs,
+      committeeProviders
+    );
 
     // Play sound alert for the final verdict
     if (finalVerdict && config.soundEffects !== false) {
       await playTradingAlert(
         finalVerdict.action as TradingAction,
         finalVerdict.confidence,
-        finalVerdict.keyReason
+        finalVerdict.keyReason,
+        config.soundVolume
       );
     }
 
     stepLogger.complete();
 
-    const totalCost = compCost + verdictCost;
+    const costs = summarizeCosts(
+      costTrackers.flatMap((tracker) => tracker.breakdown().calls)
+    );
+    logger.info(
+      `💰 Analysis cost: $${costs.total.toFixed(4)} (${
+        costs.inputTokens
+      } input + ${costs.outputTokens} output tokens)`
+    );
 
     const result: VisionAnalysisResult = {
       success: true,
       tradingDecision,
       individualAnalyses,
+      ...(observedPrice !== undefined && { observedPrice }),
+      ...(Object.keys(chartSamples).length > 0 && { chartSamples }),
       comprehensiveAnalysis,
       finalVerdict,
-      totalCost,
+      ...(committee && { committee }),
+      totalCost: costs.total,
+      costs,
+      ...(repairs.length > 0 && { repairs }),
+      ...(config.cycleId && { cycleId: config.cycleId }),
+      ...(config.symbol && { symbol: config.symbol }),
+      instrument: getInstrument(config),
+      prompts: promptVersions,
     };
 
     // Save results to files if requested
     if (config.saveJson || config.saveText) {
       const outputDir = config.outputDir || "analysis-results";
-      const savedFiles: string[] = [];
+      const savedFiles: NonNullable<VisionAnalysisResult["savedFiles"]> = {};
 
       if (config.saveJson) {
-        const jsonPath = saveAnalysisToJson(result, outputDir);
-        savedFiles.push(jsonPath);
-        logger.info(`💾 Saved JSON analysis: ${jsonPath}`);
+        savedFiles.json = saveAnalysisToJson(result, outputDir);
+        logger.info(`💾 Saved JSON analysis: ${savedFiles.json}`);
       }
 
       if (config.saveText) {
-        const textPath = saveAnalysisToText(result, outputDir);
-        savedFiles.push(textPath);
-        logger.info(`📄 Saved text report: ${textPath}`);
+        savedFiles.text = saveAnalysisToText(result, outputDir);
+        logger.info(`📄 Saved text report: ${savedFiles.text}`);
       }
 
-      if (savedFiles.length > 0) {
-        logger.info(`📁 Analysis files saved to: ${outputDir}/`);
-      }
+      result.savedFiles = savedFiles;
+      logger.info(`📁 Analysis files saved to: ${outputDir}/`);
     }
 
     return result;
   } catch (error) {
     stepLogger.error(error as Error);
+    // Calls made before the failure were still billed
+    const costs = summarizeCosts(
+      costTrackers.flatMap((tracker) => tracker.breakdown().calls)
+    );
     return {
       success: false,
       individualAnalyses: [],
+      ...(costs.calls.length && { totalCost: costs.total, costs }),
+      ...(config.cycleId && { cycleId: config.cycleId }),
+      ...(config.symbol && { symbol: config.symbol }),
+      ...(promptVersions && { prompts: promptVersions }),
       error: (error as Error).message,
+      ...getErrorDetails(error),
     };
   }
 };
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { logger } from "../utils/logger";
+import {
+  VisionProvider,
+  VisionRequest,
+  VisionResponse,
+} from "./vision-provider";
+
+/**
+ * Record model replies to fixtures, or serve them back offline
+ */
+export interface VisionFixtureOptions {
+  mode: "record" | "replay";
+  dir: string;
+}
+
+/**
+ * One recorded request and the raw reply it got
+ */
+export interface VisionFixture {
+  key: string;
+  stage: VisionRequest["stage"];
+  model: string;
+  promptHash: string;
+  imageHashes: string[];
+  structuredOutput?: string;
+  timeframe?: string;
+  recordedAt: string;
+  response: VisionResponse;
+}
+
+const sha256 = (data: string): string =>
+  createHash("sha256").update(data).digest("hex");
+
+/**
+ * Identify a request by model, prompt, images and sampling settings
+ * Samples of one chart differ only by their index, so each gets its own reply.
+ */
+export const getFixtureKey = (
+  request: VisionRequest
+): Pick<VisionFixture, "key" | "promptHash" | "imageHashes"> => {
+  const promptHash = sha256(request.prompt);
+  const imageHashes = (request.images ?? []).map((image) =>
+    sha256(image.base64)
+  );
+  const key = sha256(
+    JSON.stringify({
+      model: request.model,
+      promptHash,
+      imageHashes,
+      structuredOutput: request.structuredOutput?.name,
+      temperature: request.temperature,
+      details: (request.images ?? []).map((image) => image.detail),
+      sample: request.sample,
+    })
+  ).slice(0, 16);
+
+  return { key, promptHash, imageHashes };
+};
+
+/**
+ * Fixture file for a request, e.g. chart_analysis-5m-<key>.json
+ */
+export const getFixturePath = (dir: string, request: VisionRequest): string => {
+  const { key } = getFixtureKey(request);
+  const label = [request.stage, request.timeframe, key]
+    .filter(Boolean)
+    .join("-");
+  return path.join(dir, `${label}.json`);
+};
+
+/**
+ * Pass requests through and store every reply as a fixture
+ */
+export const createRecordingProvider = (
+  inner: VisionProvider,
+  dir: string
+): VisionProvider => ({
+  ...inner,
+  complete: async (request) => {
+    const response = await inner.complete(request);
+    const fixture: VisionFixture = {
+      ...getFixtureKey(request),
+      stage: request.stage,
+      model: request.model,
+      ...(request.structuredOutput && {
+        structuredOutput: request.structuredOutput.name,
+      }),
+      ...(request.timeframe && { timeframe: request.timeframe }),
+      recordedAt: new Date().toISOString(),
+      response,
+    };
+
+    const fixturePath = getFixturePath(dir, request);
+    fs.mkdirSync(dir, { recursive: true });
+    const tempPath = `${fixturePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(fixture, null, 2));
+    fs.renameSync(tempPath, fixturePath);
+    logger.info(`📼 Recorded ${request.stage} reply: ${fixturePath}`);
+
+    return response;
+  },
+});
+
+/**
+ * Serve recorded replies without calling any model
+ */
+export const createReplayProvider = (dir: string): VisionProvider => ({
+  name: "replay",
+  billable: false,
+  complete: async (request) => {
+    if (request.signal?.aborted) {
+      throw new Error("Request was aborted");
+    }
+
+    const fixturePath = getFixturePath(dir, request);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(
+        `No recorded response for ${request.stage}${
+          request.timeframe ? ` ${request.timeframe}` : ""
+        } (${request.model}) in ${dir}: record it first with --record`
+      );
+    }
+
+    const fixture = JSON.parse(
+      fs.readFileSync(fixturePath, "utf8")
+    ) as VisionFixture;
+    logger.info(`📼 Replaying ${request.stage} reply: ${fixturePath}`);
+    return fixture.response;
+  },
+});
@@ -0,0 +1,476 @@
+import fs from "fs";
+import OpenAI from "openai";
+import { logger } from "../utils/logger";
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  VisionFixtureOptions,
+} from "./vision-fixtures";
+
+/**
+ * Pipeline stage a model request belongs to
+ */
+export type VisionStage =
+  | "chart_analysis"
+  | "multi_timeframe_decision"
+  | "comprehensive_analysis"
+  | "final_verdict";
+
+/**
+ * Image attached to a model request
+ */
+export interface VisionImage {
+  base64: string;
+  mimeType: string;
+  detail?: "low" | "high" | "auto";
+}
+
+/**
+ * Named JSON schema the model must fill in (via tool calling)
+ */
+export interface StructuredOutputSpec {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * A single image+text chat request
+ */
+export interface VisionRequest {
+  stage: VisionStage;
+  model: string; // Model name without the provider prefix
+  prompt: string;
+  images?: VisionImage[];
+  maxTokens?: number;
+  temperature?: number;
+  structuredOutput?: StructuredOutputSpec;
+  timeframe?: string; // Chart timeframe for chart_analysis requests
+  sample?: number; // Index of the sample when a timeframe is analyzed several times
+  signal?: AbortSignal;
+}
+
+/**
+ * Token usage reported by the provider
+ */
+export interface VisionUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Model reply: plain text, or the JSON arguments of a structured output
+ */
+export interface VisionResponse {
+  content: string;
+  model: string;
+  usage?: VisionUsage;
+}
+
+/**
+ * A backend that can answer vision requests
+ */
+export interface VisionProvider {
+  name: string; // A VisionProviderName, or "replay"
+  billable: boolean; // False for local servers and the offline stand-in
+  complete: (request: VisionRequest) => Promise<VisionResponse>;
+}
+
+export type VisionProviderName = "openai" | "openai-compatible" | "offline";
+
+/**
+ * How to reach the configured provider
+ */
+export interface VisionProviderOptions {
+  model?: string; // "gpt-4o", "openai:gpt-4o", "openai-compatible:llava:13b", "offline"
+  baseUrl?: string; // Required for openai-compatible (or VISION_BASE_URL)
+  fixtures?: VisionFixtureOptions; // Record replies, or replay them instead of calling a model
+  toolCalling?: boolean; // False: ask for JSON in the prompt instead of a tool call
+  billable?: boolean; // openai-compatible: count calls as paid; default: true unless the server is local
+}
+
+const PROVIDER_NAMES: VisionProviderName[] = [
+  "openai",
+  "openai-compatible",
+  "offline",
+];
+
+const DEFAULT_MODEL = "gpt-4o";
+
+/**
+ * Split "provider:model" into its parts
+ * Models without a known provider prefix run on OpenAI, so names such as
+ * "llava:13b" still need an explicit "openai-compatible:" prefix.
+ */
+export const parseModelSpec = (
+  spec: string = DEFAULT_MODEL
+): { provider: VisionProviderName; model: string } => {
+  const separator = spec.indexOf(":");
+  const prefix = separator === -1 ? spec : spec.slice(0, separator);
+
+  if (PROVIDER_NAMES.includes(prefix as VisionProviderName)) {
+    const model = separator === -1 ? "" : spec.slice(separator + 1);
+    return {
+      provider: prefix as VisionProviderName,
+      model: model || (prefix === "offline" ? "stand-in" : DEFAULT_MODEL),
+    };
+  }
+
+  return { provider: "openai", model: spec || DEFAULT_MODEL };
+};
+
+/**
+ * What is missing to use the configured provider, if anything
+ */
+export const getProviderSetupError = (
+  options: VisionProviderOptions
+): string | undefined => {
+  if (options.fixtures?.mode === "replay") {
+    return fs.existsSync(options.fixtures.dir)
+      ? undefined
+      : `Replay fixtures directory not found: ${options.fixtures.dir}`;
+  }
+
+  const { provider } = parseModelSpec(options.model);
+
+  if (provider === "openai" && !process.env.OPENAI_API_KEY) {
+    return "OPENAI_API_KEY environment variable is required";
+  }
+  if (
+    provider === "openai-compatible" &&
+    !(options.baseUrl || process.env.VISION_BASE_URL)
+  ) {
+    return "openai-compatible models need a base URL (--base-url or VISION_BASE_URL)";
+  }
+  return undefined;
+};
+
+/**
+ * Prompt asking for the structured output as plain JSON
+ */
+const getJsonPrompt = (
+  prompt: string,
+  structuredOutput: StructuredOutputSpec
+): string => `${prompt}
+
+Respond with only a JSON object matching this JSON schema:
+${JSON.stringify(structuredOutput.schema)}`;
+
+/**
+ * Whether an API error says the model cannot call tools
+ */
+const isToolCallingUnsupported = (error: unknown): boolean =>
+  error instanceof OpenAI.APIError &&
+  [400, 404, 422, 501].includes(error.status ?? 0) &&
+  /tool|function/i.test(error.message);
+
+/**
+ * Chat completion call shared by OpenAI and OpenAI-compatible servers
+ * Structured output is requested as a tool call, or with useTools false as
+ * JSON described in the prompt.
+ */
+const completeWithOpenAI = async (
+  client: OpenAI,
+  request: VisionRequest,
+  useTools: boolean
+): Promise<VisionResponse> => {
+  const structuredOutput = useTools ? request.structuredOutput : undefined;
+  const prompt =
+    request.structuredOutput && !useTools
+      ? getJsonPrompt(request.prompt, request.structuredOutput)
+      : request.prompt;
+  const content: OpenAI.Chat.ChatCompletionContentPart[] = [
+    { type: "text", text: prompt },
+    ...(request.images ?? []).map(
+      (image): OpenAI.Chat.ChatCompletionContentPartImage => ({
+        type: "image_url",
+        image_url: {
+          url: `data:${image.mimeType};base64,${image.base64}`,
+          detail: image.detail ?? "high",
+        },
+      })
+    ),
+  ];
+
+  const response = await client.chat.completions.create(
+    {
+      model: request.model,
+      messages: [
+        {
+          role: "user",
+          content: request.images?.length ? content : prompt,
+        },
+      ],
+      ...(request.maxTokens !== undefined && {
+        max_tokens: request.maxTokens,
+      }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(structuredOutput && {
+        tools: [
+          {
+            type: "function" as const,
+            function: {
+              name: structuredOutput.name,
+              description: structuredOutput.description,
+              parameters: structuredOutput.schema,
+            },
+          },
+        ],
+        tool_choice: {
+          type: "function" as const,
+          function: { name: structuredOutput.name },
+        },
+      }),
+    },
+    { signal: request.signal }
+  );
+
+  const message = response.choices[0]?.message;
+  const toolCall = message?.tool_calls?.[0];
+  // Some servers accept tools but answer in text; that text is validated too
+  const reply =
+    toolCall?.type === "function"
+      ? toolCall.function.arguments
+      : message?.content;
+
+  if (!reply) {
+    throw new Error(
+      structuredOutput
+        ? `No ${structuredOutput.name} call in the model response`
+        : "No response content from the model"
+    );
+  }
+
+  return {
+    content: reply,
+    model: response.model,
+    ...(response.usage && {
+      usage: {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+    }),
+  };
+};
+
+/**
+ * Complete requests with tool calling until the model turns out not to
+ * support it, then ask for JSON in the prompt
+ */
+const createChatCompletion = (
+  client: OpenAI,
+  toolCalling: boolean
+): VisionProvider["complete"] => {
+  let useTools = toolCalling;
+
+  return async (request) => {
+    if (!request.structuredOutput || !useTools) {
+      return completeWithOpenAI(client, request, false);
+    }
+
+    try {
+      return await completeWithOpenAI(client, request, true);
+    } catch (error) {
+      if (!isToolCallingUnsupported(error)) {
+        throw error;
+      }
+      logger.warn(
+        `⚠️  ${request.model} does not support tool calling, asking for JSON in the prompt instead`
+      );
+      useTools = false;
+      return completeWithOpenAI(client, request, false);
+    }
+  };
+};
+
+/**
+ * OpenAI's hosted API
+ */
+export const createOpenAIProvider = (toolCalling = true): VisionProvider => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY environment variable is required");
+  }
+
+  const client = new OpenAI({ apiKey });
+  return {
+    name: "openai",
+    billable: true,
+    complete: createChatCompletion(client, toolCalling),
+  };
+};
+
+/**
+ * Whether a server runs on this machine or a private network, where calls
+ * cost nothing per token
+ */
+export const isLocalServer = (baseUrl: string): boolean => {
+  let host: string;
+  try {
+    host = new URL(baseUrl).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  } catch {
+    return false;
+  }
+  return (
+    host === "localhost" ||
+    host === "::1" ||
+    host.endsWith(".local") ||
+    /^(127|10)\.\d+\.\d+\.\d+$/.test(host) ||
+    /^192\.168\.\d+\.\d+$/.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\.\d+\.\d+$/.test(host)
+  );
+};
+
+/**
+ * Any server speaking the OpenAI chat API (Ollama, vLLM, LM Studio, ...)
+ * Hosted servers are billable by default, so their calls count against the
+ * spend caps.
+ */
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  toolCalling = true,
+  billable = !isLocalServer(baseUrl)
+): VisionProvider => {
+  // Never the OpenAI key: it would be sent to whatever server baseUrl names.
+  // Local servers usually ignore the key, but the client insists on one.
+  const apiKey = process.env.VISION_API_KEY || "not-needed";
+
+  const client = new OpenAI({ apiKey, baseURL: baseUrl });
+  return {
+    name: "openai-compatible",
+    billable,
+    complete: createChatCompletion(client, toolCalling),
+  };
+};
+
+/**
+ * Canned, neutral replies for every stage: exercises the pipeline with no
+ * network or model at all
+ */
+const getOfflineReply = (request: VisionRequest): unknown => {
+  switch (request.stage) {
+    case "chart_analysis":
+      return {
+        timeframe: request.timeframe ?? "unknown",
+        trend: "neutral",
+        strength: 5,
+        keyLevels: {},
+        indicators: {
+          volume: "medium",
+          bollinger: "neutral",
+          momentum: "stable",
+        },
+        signals: ["Offline stand-in: no chart was analyzed"],
+        confidence: 5,
+        analysis: "Offline stand-in analysis, not based on the chart.",
+      };
+    case "multi_timeframe_decision":
+      return {
+        action: "hold",
+        confidence: 5,
+        reasoning: "Offline stand-in decision, not based on the charts.",
+        overallTrend: "neutral",
+        marketStructure: "Unknown (offline stand-in)",
+        warnings: ["Offline stand-in: do not trade on this output"],
+      };
+    case "comprehensive_analysis":
+      return {
+        executiveSummary: "Offline stand-in analysis.",
+        marketOverview: "No model was consulted.",
+        quantitativeMetrics: {
+          bullishSignals: 0,
+          bearishSignals: 0,
+          neutralSignals: 0,
+          avgConfidence: 5,
+          timeframeAlignment: 5,
+        },
+        riskAssessment: {
+          riskLevel: "medium",
+          keyRisks: ["Output is not based on the charts"],
+          riskMitigation: ["Use a real model before trading"],
+        },
+        strategicRecommendations: {
+          primary: "Hold",
+          alternative: "Hold",
+          timeHorizon: "short",
+          positionSizing: "None",
+        },
+        nextSteps: ["Switch to a real model"],
+      };
+    case "final_verdict":
+      return {
+        action: "HOLD",
+        confidence: 50,
+        positionSize: 1,
+        timeHorizon: "short",
+        riskLevel: "MEDIUM",
+        keyReason: "Offline stand-in verdict, not based on the charts.",
+        nextCheckMinutes: 15,
+        criticalWarnings: ["Offline stand-in: do not trade on this output"],
+      };
+  }
+};
+
+/**
+ * Offline stand-in that never leaves the machine
+ */
+export const createOfflineProvider = (): VisionProvider => ({
+  name: "offline",
+  billable: false,
+  complete: async (request) => {
+    if (request.signal?.aborted) {
+      throw new Error("Request was aborted");
+    }
+    return {
+      content: JSON.stringify(getOfflineReply(request), null, 2),
+      model: `offline:${request.model}`,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  },
+});
+
+/**
+ * Create the provider selected by the model spec, wrapped for record/replay
+ */
+export const createVisionProvider = (
+  options: VisionProviderOptions
+): VisionProvider => {
+  const { fixtures } = options;
+  if (fixtures?.mode === "replay") {
+    return createReplayProvider(fixtures.dir);
+  }
+
+  const provider = createModelProvider(options);
+  return fixtures?.mode === "record"
+    ? createRecordingProvider(provider, fixtures.dir)
+    : provider;
+};
+
+/**
+ * Create the provider named by the model spec
+ */
+const createModelProvider = (
+  options: VisionProviderOptions
+): VisionProvider => {
+  const { provider } = parseModelSpec(options.model);
+
+  switch (provider) {
+    case "openai":
+      return createOpenAIProvider(options.toolCalling);
+    case "openai-compatible": {
+      const baseUrl = options.baseUrl || process.env.VISION_BASE_URL;
+      if (!baseUrl) {
+        throw new Error(getProviderSetupError(options));
+      }
+      return createOpenAICompatibleProvider(
+        baseUrl,
+        options.toolCalling,
+        options.billable
+      );
+    }
+    case "offline":
+      return createOfflineProvider();
+  }
+};
@@ -3,6 +3,7 @@ import {
   BrowserConfig,
   navigateToUrl,
   takeScreenshot,
+  getTimeframeScreenshotName,
   createBrowserSession,
   closeBrowserSession,
 } from "../utils/browser";
@@ -11,6 +12,7 @@ import { getPageInfo, waitForElement } from "../components/page-actions";
 import { chartSettings } from "../config/chart-settings";
 import {
   cropTimeframeScreenshots,
+  isBlankImageRegion,
   CropConfig,
   DEFAULT_JUPITER_CROP,
 } from "../utils/image-cropping";
@@ -65,6 +67,7 @@ export interface MultiTimeframeResult {
     error?: string;
   }>;
   totalScreenshots: number;
+  cycleId?: string;
   error?: string;
 }
 
@@ -175,6 +178,11 @@ export const captureTimeframeScreenshot = async (
     waitTime?: number;
     screenshotWaitTime?: number;
     browserConfig?: BrowserConfig;
+    cycleId?: string;
+    chartRegion?: CropConfig; // Area checked for a blank (unrendered) chart
+    symbol?: string; // Chart symbol override (default: the saved chart layout's)
+    screenshotsDir?: string;
+    signal?: AbortSignal; // Closes the browser when aborted (e.g. on a watchdog timeout)
   }
 ): Promise<{
   timeframe: string;
@@ -191,6 +199,12 @@ export const captureTimeframeScreenshot = async (
     // Create dedicated browser session for this timeframe
     const session = await createBrowserSession(config.browserConfig);
 
+    // Tear the browser down if the caller gives up on this capture
+    const closeOnAbort = () => {
+      closeBrowserSession(session).catch(() => undefined);
+    };
+    config.signal?.addEventListener("abort", closeOnAbort, { once: true });
+
     try {
       const { page } = session;
 
@@ -201,7 +215,7 @@ export const captureTimeframeScreenshot = async (
       await page.waitForTimeout(3000); // Initial page load wait
 
       // Apply chart settings for this specific timeframe
-      await applyChartSettingsForTimeframe(session, timeframe);
+      await applyChartSettingsForTimeframe(session, timeframe, config.symbol);
 
       // Wait for chart to load and process the new timeframe
       const waitTime = config.screenshotWaitTime || config.waitTime || 8000;
@@ -211,10 +225,20 @@ export const captureTimeframeScreenshot = async (
       // Take screenshot for this timeframe
       const screenshotPath = await takeScreenshot(
         page,
-        `jupiter-${timeframe}.png`
+        getTimeframeScreenshotName(timeframe, config.cycleId),
+        { path: config.screenshotsDir || "screenshots" }
       );
       logger.info(`📸 Screenshot captured for ${timeframe}: ${screenshotPath}`);
 
+      if (
+        config.chartRegion &&
+        (await isBlankImageRegion(screenshotPath, config.chartRegion))
+      ) {
+        throw new Error(
+          `Blank chart for ${timeframe}: the chart did not render in time`
+        );
+      }
+
       timeframeStepLogger.complete();
 
       return {
@@ -224,6 +248,7 @@ export const captureTimeframeScreenshot = async (
       };
     } finally {
       // Always close the browser session
+      config.signal?.removeEventListener("abort", closeOnAbort);
       await closeBrowserSession(session);
     }
   } catch (error) {
@@ -254,10 +279,16 @@ export const executeMultiTimeframeAutomation = async (
     screenshotWaitTime?: number;
     cropScreenshots?: boolean;
     cropConfig?: CropConfig;
+    cycleId?: string;
+    browserConfig?: BrowserConfig;
+    symbol?: string;
+    screenshotsDir?: string;
+    signal?: AbortSignal;
   }
 ): Promise<MultiTimeframeResult> => {
   const stepLogger = createStepLogger("Multi-Timeframe Automation");
   const timeframes = config.timeframes || ["5m", "15m", "1h", "2h", "6h"];
+  const screenshotsDir = config.screenshotsDir || "screenshots";
   let results: MultiTimeframeResult["results"] = [];
   let totalScreenshots = 0;
 
@@ -280,6 +311,7 @@ export const executeMultiTimeframeAutomation = async (
       slowMo: 0,
       viewport: { width: 1920, height: 1080 },
       timeout: 30000,
+      ...config.browserConfig,
     };
 
     // Create timeframe capture promises for parallel execution
@@ -287,8 +319,18 @@ export const executeMultiTimeframeAutomation = async (
       const captureConfig: Parameters<typeof captureTimeframeScreenshot>[1] = {
         url: config.url,
         browserConfig,
+        chartRegion: config.cropConfig || DEFAULT_JUPITER_CROP,
+        screenshotsDir,
       };
 
+      if (config.symbol) {
+        captureConfig.symbol = config.symbol;
+      }
+
+      if (config.signal) {
+        captureConfig.signal = config.signal;
+      }
+
       if (config.waitTime !== undefined) {
         captureConfig.waitTime = config.waitTime;
       }
@@ -297,6 +339,10 @@ export const executeMultiTimeframeAutomation = async (
         captureConfig.screenshotWaitTime = config.screenshotWaitTime;
       }
 
+      if (config.cycleId) {
+        captureConfig.cycleId = config.cycleId;
+      }
+
       return captureTimeframeScreenshot(timeframe, captureConfig);
     });
 
@@ -326,9 +372,10 @@ export const executeMultiTimeframeAutomation = async (
         );
 
         const croppedPaths = await cropTimeframeScreenshots(
-          "screenshots",
+          screenshotsDir,
           timeframes,
-          cropConfig
+          cropConfig,
+          config.cycleId
         );
 
         logger.success(
@@ -344,10 +391,15 @@ export const executeMultiTimeframeAutomation = async (
 
     stepLogger.complete();
 
+    // Report why nothing was captured so the caller can decide whether to retry
+    const firstError = results.find((r) => r.error)?.error;
+
     return {
       success: successCount > 0,
       results,
       totalScreenshots,
+      ...(config.cycleId && { cycleId: config.cycleId }),
+      ...(successCount === 0 && firstError && { error: firstError }),
     };
   } catch (error) {
     stepLogger.error(error as Error);
@@ -355,6 +407,7 @@ export const executeMultiTimeframeAutomation = async (
       success: false,
       results,
       totalScreenshots,
+      ...(config.cycleId && { cycleId: config.cycleId }),
       error: (error as Error).message,
     };
   }
@@ -637,13 +690,18 @@ const applyViaJupiterKeys = async (page: any): Promise<void> => {
  */
 const applyChartSettingsForTimeframe = async (
   session: BrowserSession,
-  timeframe: string
+  timeframe: string,
+  symbol?: string
 ): Promise<void> => {
   const { page } = session;
-  logger.info(`🎯 Applying chart settings for timeframe: ${timeframe}`);
+  logger.info(
+    `🎯 Applying chart settings for timeframe: ${timeframe}${
+      symbol ? ` (${symbol})` : ""
+    }`
+  );
 
-  // Get settings for this specific timeframe
-  const settings = chartSettings.getSettingsForTimeframe(timeframe);
+  // Get settings for this specific timeframe and symbol
+  const settings = chartSettings.getSettingsForTimeframe(timeframe, symbol);
   const colorTheme = chartSettings.getColorTheme();
 
   // Map timeframe to minute values for TradingView resolution
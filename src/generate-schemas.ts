@@ -0,0 +1,104 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./utils/logger";
+import { generateInterfaceSchema } from "./utils/schema-generator";
+import type { StructuredOutputSpec } from "./features/vision-provider";
+
+/**
+ * Structured output requested from the model at each analysis stage
+ */
+interface OutputSchemaSpec {
+  interfaceName: string;
+  name: string; // Tool the model is asked to call
+  description: string;
+  omit?: string[]; // Fields filled in by the pipeline, not the model
+}
+
+const SOURCE_PATH = path.join(
+  __dirname,
+  "..",
+  "src",
+  "features",
+  "vision-analysis.ts"
+);
+
+export const OUTPUT_SCHEMAS_PATH = path.join(
+  __dirname,
+  "..",
+  "src",
+  "features",
+  "output-schemas.json"
+);
+
+const OUTPUT_SCHEMA_SPECS: OutputSchemaSpec[] = [
+  {
+    interfaceName: "ChartAnalysis",
+    name: "record_chart_analysis",
+    description: "Record the technical analysis of a single chart timeframe",
+    omit: ["agreement"],
+  },
+  {
+    interfaceName: "TradingDecision",
+    name: "make_trading_decision",
+    description: "Make a trading decision from the multi-timeframe analyses",
+    omit: ["timeframes"],
+  },
+  {
+    interfaceName: "ComprehensiveAnalysis",
+    name: "write_comprehensive_analysis",
+    description: "Write the comprehensive analysis with quantitative metrics",
+  },
+  {
+    interfaceName: "TradingVerdict",
+    name: "make_trading_verdict",
+    description: "Make a final executive trading decision with structured data",
+  },
+];
+
+/**
+ * Output schemas for every stage, keyed by interface name
+ */
+export const buildOutputSchemas = (): Record<string, StructuredOutputSpec> =>
+  Object.fromEntries(
+    OUTPUT_SCHEMA_SPECS.map(({ interfaceName, name, description, omit }) => [
+      interfaceName,
+      {
+        name,
+        description,
+        schema: generateInterfaceSchema(
+          SOURCE_PATH,
+          interfaceName,
+          omit
+        ) as Record<string, unknown>,
+      },
+    ])
+  );
+
+/**
+ * Regenerate output-schemas.json, or with --check fail if it is out of date
+ */
+function main() {
+  const contents = `${JSON.stringify(buildOutputSchemas(), null, 2)}\n`;
+  const current = fs.existsSync(OUTPUT_SCHEMAS_PATH)
+    ? fs.readFileSync(OUTPUT_SCHEMAS_PATH, "utf8")
+    : undefined;
+
+  if (process.argv.includes("--check")) {
+    if (contents !== current) {
+      logger.error(
+        `❌ ${OUTPUT_SCHEMAS_PATH} is out of date, run npm run generate-schemas`
+      );
+      process.exit(1);
+    }
+    logger.info("✅ Output schemas match the interfaces");
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_SCHEMAS_PATH, contents);
+  logger.info(`📝 Wrote ${OUTPUT_SCHEMAS_PATH}`);
+}
+
+// Run the generator
+if (require.main === module) {
+  main();
+}
@@ -32,6 +32,7 @@ function parseArgs(): {
   cropConfig?: string;
   cropPreset?: string;
   testCrop?: string;
+  cycleId?: string;
 } {
   const args = process.argv.slice(2);
   const result: any = {};
@@ -72,6 +73,8 @@ function parseArgs(): {
       result.cropPreset = args[++i];
     } else if (arg === "--test-crop" && i + 1 < args.length) {
       result.testCrop = args[++i];
+    } else if (arg === "--cycle-id" && i + 1 < args.length) {
+      result.cycleId = args[++i];
     }
   }
 
@@ -105,6 +108,7 @@ Options:
   --crop-config <x,y,w,h> Custom crop coordinates (e.g., "140,80,1200,700")
   --crop-preset <preset> Use predefined crop preset (minimal, wide, chart_volume)
   --test-crop <file>    Test crop configuration on a single image file
+  --cycle-id <id>       Stamp multi-timeframe screenshots with a cycle ID
   --help, -h            Show this help message
 
 Examples:
@@ -242,6 +246,7 @@ async function runAutomation() {
           ...(args.timeframes && { timeframes: args.timeframes }),
           cropScreenshots,
           ...(cropConfig && { cropConfig }),
+          ...(args.cycleId && { cycleId: args.cycleId }),
         };
         return await executeMultiTimeframeAutomation(session, multiConfig);
       } else {
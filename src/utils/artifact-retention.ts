@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+
+/**
+ * How many cycles' screenshots and analysis files to keep
+ */
+export interface ArtifactRetention {
+  cycles?: number; // Keep the newest n cycles (0: no limit)
+  days?: number; // Remove cycles started more than n days ago
+}
+
+// Cycle ID at the end of an artifact name, e.g.
+// jupiter-5m-20250101T120000Z-btcusd-c3-a1b2c3-cropped.png
+const CYCLE_ARTIFACT_PATTERN =
+  /(\d{8}T\d{6}Z-(?:.+-)?c(\d+)-[0-9a-f]{6})(?:-cropped)?\.(?:png|json|txt)$/;
+
+/**
+ * Start time of a cycle from its ID (20250101T120000Z-...)
+ */
+const getCycleStart = (cycleId: string): Date =>
+  new Date(
+    cycleId.replace(
+      /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z.*/,
+      "$1-$2-$3T$4:$5:$6Z"
+    )
+  );
+
+/**
+ * Delete the artifacts of cycles that fall outside the retention policy
+ * Only files stamped with a cycle ID are considered, so screenshots and
+ * reports from manual runs stay. Returns the number of files removed.
+ */
+export const pruneCycleArtifacts = (
+  dirs: string[],
+  retention: ArtifactRetention,
+  now: Date = new Date()
+): number => {
+  const files = new Map<string, string[]>();
+  const order = new Map<string, number>();
+
+  new Set(dirs).forEach((dir) => {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+    fs.readdirSync(dir).forEach((name) => {
+      const match = CYCLE_ARTIFACT_PATTERN.exec(name);
+      if (!match?.[1]) {
+        return;
+      }
+      const cycleId = match[1];
+      files.set(cycleId, [...(files.get(cycleId) ?? []), path.join(dir, name)]);
+      order.set(cycleId, Number(match[2]));
+    });
+  });
+
+  // Newest first: by start time, then by cycle number within a second
+  const cycleIds = [...files.keys()].sort(
+    (a, b) =>
+      getCycleStart(b).getTime() - getCycleStart(a).getTime() ||
+      (order.get(b) ?? 0) - (order.get(a) ?? 0)
+  );
+  const oldest =
+    retention.days !== undefined
+      ? now.getTime() - retention.days * 24 * 60 * 60 * 1000
+      : -Infinity;
+  const expired = cycleIds.filter(
+    (cycleId, index) =>
+      (retention.cycles !== undefined &&
+        retention.cycles > 0 &&
+        index >= retention.cycles) ||
+      getCycleStart(cycleId).getTime() < oldest
+  );
+
+  let removed = 0;
+  expired.forEach((cycleId) =>
+    (files.get(cycleId) ?? []).forEach((file) => {
+      try {
+        fs.unlinkSync(file);
+        removed++;
+      } catch (error) {
+        logger.debug(`Failed to remove ${file}: ${(error as Error).message}`);
+      }
+    })
+  );
+
+  if (removed > 0) {
+    logger.info(
+      `🧹 Removed ${removed} artifact${removed === 1 ? "" : "s"} of ${
+        expired.length
+      } old cycle${expired.length === 1 ? "" : "s"}`
+    );
+  }
+  return removed;
+};
@@ -0,0 +1,116 @@
+/**
+ * Sleep for the given time, resolving early if the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Error raised when an operation misses its deadline
+ */
+export class TimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Run a task with a deadline. The task's signal is aborted when the deadline
+ * passes, and the returned promise rejects right away rather than waiting for
+ * the task to notice.
+ */
+export const withDeadline = <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => {
+      const error = new TimeoutError(label, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+
+    task(controller.signal).then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Combine optional signals into one that aborts when any of them does
+ */
+export const anySignal = (
+  ...signals: Array<AbortSignal | undefined>
+): AbortSignal | undefined => {
+  const present = signals.filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  return present.length > 1 ? AbortSignal.any(present) : present[0];
+};
+
+/**
+ * Runs tasks with at most a fixed number in flight at once
+ */
+export interface ConcurrencyLimiter {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Create a limiter that queues tasks beyond the given concurrency
+ */
+export const createConcurrencyLimiter = (limit: number): ConcurrencyLimiter => {
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const startNext = () => {
+    if (active >= limit) {
+      return;
+    }
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return {
+    run: (task) =>
+      new Promise((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              startNext();
+            });
+        });
+        startNext();
+      }),
+  };
+};
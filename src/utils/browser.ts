@@ -10,6 +10,7 @@ export interface BrowserConfig {
   viewport?: { width: number; height: number };
   userAgent?: string;
   timeout?: number;
+  handleSignals?: boolean; // Let Playwright close the browser on SIGINT/SIGTERM
 }
 
 /**
@@ -22,6 +23,7 @@ const DEFAULT_CONFIG: Required<BrowserConfig> = {
   userAgent:
     "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
   timeout: 30000,
+  handleSignals: true,
 };
 
 /**
@@ -33,6 +35,11 @@ export interface BrowserSession {
   page: Page;
 }
 
+/**
+ * Browser sessions that have been created but not closed yet
+ */
+const activeSessions = new Set<BrowserSession>();
+
 /**
  * Creates a new browser session with the specified configuration
  */
@@ -46,6 +53,8 @@ export const createBrowserSession = async (
   const browser = await chromium.launch({
     headless: finalConfig.headless,
     slowMo: finalConfig.slowMo,
+    handleSIGINT: finalConfig.handleSignals,
+    handleSIGTERM: finalConfig.handleSignals,
   });
 
   const context = await browser.newContext({
@@ -60,7 +69,9 @@ export const createBrowserSession = async (
 
   logger.success("Browser session created successfully");
 
-  return { browser, context, page };
+  const session = { browser, context, page };
+  activeSessions.add(session);
+  return session;
 };
 
 /**
@@ -70,6 +81,7 @@ export const closeBrowserSession = async (
   session: BrowserSession
 ): Promise<void> => {
   logger.info("Closing browser session");
+  activeSessions.delete(session);
 
   try {
     await session.context.close();
@@ -81,6 +93,36 @@ export const closeBrowserSession = async (
   }
 };
 
+/**
+ * Force-closes every browser session that is still open
+ */
+export const closeAllBrowserSessions = async (): Promise<number> => {
+  const sessions = [...activeSessions];
+  activeSessions.clear();
+
+  await Promise.all(
+    sessions.map(async (session) => {
+      try {
+        await session.browser.close();
+      } catch (error) {
+        logger.debug(
+          `Failed to close browser session: ${(error as Error).message}`
+        );
+      }
+    })
+  );
+
+  if (sessions.length > 0) {
+    logger.info(
+      `🧹 Closed ${sessions.length} open browser session${
+        sessions.length !== 1 ? "s" : ""
+      }`
+    );
+  }
+
+  return sessions.length;
+};
+
 /**
  * Creates a managed browser session with automatic cleanup
  */
@@ -117,6 +159,15 @@ export const takeScreenshot = async (
   return screenshotPath;
 };
 
+/**
+ * Builds the screenshot filename for a timeframe, stamped with the cycle ID if given
+ */
+export const getTimeframeScreenshotName = (
+  timeframe: string,
+  cycleId?: string,
+  suffix: string = ""
+): string => `jupiter-${timeframe}${cycleId ? `-${cycleId}` : ""}${suffix}.png`;
+
 /**
  * Navigates to a URL with loading wait strategies
  */
@@ -0,0 +1,49 @@
+import { ChildProcess } from "child_process";
+import { logger } from "./logger";
+
+/**
+ * Child processes spawned by this process that are still running
+ */
+const trackedChildren = new Set<ChildProcess>();
+
+/**
+ * Track a spawned child process until it exits
+ */
+export const trackChildProcess = <T extends ChildProcess>(child: T): T => {
+  trackedChildren.add(child);
+  child.once("exit", () => trackedChildren.delete(child));
+  child.once("error", () => trackedChildren.delete(child));
+  return child;
+};
+
+/**
+ * Kill every tracked child process that is still running
+ */
+export const killTrackedChildProcesses = (
+  signal: NodeJS.Signals = "SIGTERM"
+): number => {
+  let killed = 0;
+
+  trackedChildren.forEach((child) => {
+    if (child.exitCode === null && !child.killed) {
+      try {
+        child.kill(signal);
+        killed++;
+      } catch (error) {
+        logger.debug(
+          `Failed to kill child process ${child.pid}: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+  });
+
+  trackedChildren.clear();
+
+  if (killed > 0) {
+    logger.info(`🧹 Killed ${killed} child process${killed !== 1 ? "es" : ""}`);
+  }
+
+  return killed;
+};
@@ -0,0 +1,182 @@
+/**
+ * How a failed pipeline step should be handled
+ * - fatal: retrying cannot help (missing API key, missing browsers)
+ * - rate_limited: the API asked us to slow down, honor its Retry-After
+ * - transient: worth retrying with exponential backoff (timeouts, blank charts)
+ * - budget: a spend cap was reached, skip the cycle until the caps allow it
+ */
+export type FailureClass = "fatal" | "rate_limited" | "transient" | "budget";
+
+/**
+ * Failure information carried by pipeline step results
+ */
+export interface FailureDetails {
+  error?: string;
+  errorStatus?: number; // HTTP status of the failing API call, if any
+  retryAfterMs?: number; // Delay requested by the API via Retry-After
+}
+
+/**
+ * Classification of a failure and the reason behind it
+ */
+export interface FailureDecision {
+  failureClass: FailureClass;
+  reason: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Error messages that will not go away by retrying
+ */
+const FATAL_ERROR_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /OPENAI_API_KEY/i, reason: "OpenAI API key is missing" },
+  {
+    pattern: /incorrect api key|invalid api key/i,
+    reason: "API key is invalid",
+  },
+  {
+    pattern: /executable doesn't exist|playwright install/i,
+    reason: "Playwright browsers are not installed",
+  },
+  {
+    pattern: /insufficient_quota|exceeded your current quota/i,
+    reason: "API quota is exhausted",
+  },
+  {
+    pattern: /no recorded response/i,
+    reason: "replay fixture is missing",
+  },
+];
+
+/**
+ * Error messages of failures that are worth retrying
+ */
+const TRANSIENT_ERROR_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /timeout|timed out/i, reason: "operation timed out" },
+  {
+    pattern: /net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up/i,
+    reason: "network error",
+  },
+  { pattern: /blank chart/i, reason: "chart did not render" },
+];
+
+/**
+ * Read a Retry-After style header value in milliseconds
+ */
+const parseRetryAfter = (headers: unknown): number | undefined => {
+  const getHeader = (name: string): string | null | undefined => {
+    if (!headers || typeof headers !== "object") {
+      return undefined;
+    }
+    if (typeof (headers as Headers).get === "function") {
+      return (headers as Headers).get(name);
+    }
+    return (headers as Record<string, string | undefined>)[name];
+  };
+
+  const retryAfterMs = Number(getHeader("retry-after-ms"));
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  // Retry-After may also be an HTTP date
+  const date = new Date(retryAfter).getTime();
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Pull the HTTP status and Retry-After from an API error, if present
+ */
+export const getErrorDetails = (
+  error: unknown
+): Pick<FailureDetails, "errorStatus" | "retryAfterMs"> => {
+  if (!error || typeof error !== "object") {
+    return {};
+  }
+
+  const { status, headers } = error as { status?: unknown; headers?: unknown };
+  const retryAfterMs = parseRetryAfter(headers);
+
+  return {
+    ...(typeof status === "number" && { errorStatus: status }),
+    ...(retryAfterMs !== undefined && { retryAfterMs }),
+  };
+};
+
+/**
+ * Classify a failed step result
+ */
+export const classifyFailure = (failure: FailureDetails): FailureDecision => {
+  const message = failure.error ?? "";
+  // Raised by SpendCapError before the call is made, so retrying only hits it again
+  if (/spend cap reached/i.test(message)) {
+    return { failureClass: "budget", reason: "spend cap reached" };
+  }
+
+  const fatal = FATAL_ERROR_PATTERNS.find(({ pattern }) =>
+    pattern.test(message)
+  );
+
+  if (fatal) {
+    return { failureClass: "fatal", reason: fatal.reason };
+  }
+
+  if (failure.errorStatus === 401 || failure.errorStatus === 403) {
+    return {
+      failureClass: "fatal",
+      reason: `API rejected the credentials (HTTP ${failure.errorStatus})`,
+    };
+  }
+
+  if (failure.errorStatus === 404) {
+    return {
+      failureClass: "fatal",
+      reason: "API resource or model not found (HTTP 404)",
+    };
+  }
+
+  if (failure.errorStatus === 429) {
+    return {
+      failureClass: "rate_limited",
+      reason: "API rate limit hit (HTTP 429)",
+      ...(failure.retryAfterMs !== undefined && {
+        retryAfterMs: failure.retryAfterMs,
+      }),
+    };
+  }
+
+  const transient = TRANSIENT_ERROR_PATTERNS.find(({ pattern }) =>
+    pattern.test(message)
+  );
+
+  return {
+    failureClass: "transient",
+    reason:
+      transient?.reason ??
+      (failure.errorStatus
+        ? `API error (HTTP ${failure.errorStatus})`
+        : "unclassified error"),
+  };
+};
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half is random
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
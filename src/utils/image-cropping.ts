@@ -2,6 +2,7 @@ import sharp from "sharp";
 import fs from "fs";
 import path from "path";
 import { logger, createStepLogger } from "./logger";
+import { getTimeframeScreenshotName } from "./browser";
 
 /**
  * Crop configuration for chart screenshots
@@ -62,6 +63,34 @@ export const CROP_PRESETS = {
   },
 } as const;
 
+// A rendered chart has candles, grid lines and labels; a blank one is nearly uniform
+const BLANK_IMAGE_MAX_STDEV = 4;
+
+/**
+ * Check whether a region of an image is (nearly) a single flat colour,
+ * which means the chart did not render before the screenshot was taken
+ */
+export const isBlankImageRegion = async (
+  imagePath: string,
+  region: Pick<CropConfig, "x" | "y" | "width" | "height">
+): Promise<boolean> => {
+  const metadata = await sharp(imagePath).metadata();
+  const imageWidth = metadata.width || 0;
+  const imageHeight = metadata.height || 0;
+  const width = Math.min(region.width, imageWidth - region.x);
+  const height = Math.min(region.height, imageHeight - region.y);
+
+  if (width <= 0 || height <= 0) {
+    return false;
+  }
+
+  const { channels } = await sharp(imagePath)
+    .extract({ left: region.x, top: region.y, width, height })
+    .stats();
+
+  return channels.every((channel) => channel.stdev < BLANK_IMAGE_MAX_STDEV);
+};
+
 /**
  * Crop a single image using the specified configuration
  */
@@ -186,7 +215,8 @@ export const cropImages = async (
 export const cropTimeframeScreenshots = async (
   screenshotsDir: string = "screenshots",
   timeframes: string[] = ["5m", "15m", "1h", "2h", "6h"],
-  config: CropConfig = DEFAULT_JUPITER_CROP
+  config: CropConfig = DEFAULT_JUPITER_CROP,
+  cycleId?: string
 ): Promise<string[]> => {
   const stepLogger = createStepLogger("Crop Timeframe Screenshots");
   const croppedPaths: string[] = [];
@@ -198,24 +228,30 @@ export const cropTimeframeScreenshots = async (
       logger.info("⏭️  Cropping disabled for timeframe screenshots");
       // Return original paths
       return timeframes.map((tf) =>
-        path.join(screenshotsDir, `jupiter-${tf}.png`)
+        path.join(screenshotsDir, getTimeframeScreenshotName(tf, cycleId))
       );
     }
 
     logger.info(`🔄 Cropping timeframe screenshots in ${screenshotsDir}...`);
 
     for (const timeframe of timeframes) {
-      const inputPath = path.join(screenshotsDir, `jupiter-${timeframe}.png`);
+      const inputPath = path.join(
+        screenshotsDir,
+        getTimeframeScreenshotName(timeframe, cycleId)
+      );
 
       if (!fs.existsSync(inputPath)) {
         logger.warn(`⚠️  Screenshot not found for ${timeframe}: ${inputPath}`);
         continue;
       }
 
-      const basename = `jupiter-${timeframe}`;
       const outputPath = path.join(
         screenshotsDir,
-        `${basename}${config.outputSuffix || "-cropped"}.png`
+        getTimeframeScreenshotName(
+          timeframe,
+          cycleId,
+          config.outputSuffix || "-cropped"
+        )
       );
 
       const croppedPath = await cropImage(inputPath, outputPath, config);
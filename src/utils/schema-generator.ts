@@ -0,0 +1,184 @@
+import fs from "fs";
+import ts from "typescript";
+
+/**
+ * JSON schema subset used for structured model output
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+// Type alias the interfaces use for whole numbers
+const INTEGER_ALIAS = "Integer";
+
+/**
+ * Read the trailing `// comment` of an interface member
+ */
+const getTrailingComment = (
+  member: ts.TypeElement,
+  sourceFile: ts.SourceFile
+): string | undefined => {
+  const text = sourceFile.getFullText();
+  const range = ts.getTrailingCommentRanges(text, member.getEnd())?.[0];
+  if (!range || range.kind !== ts.SyntaxKind.SingleLineCommentTrivia) {
+    return undefined;
+  }
+  return text.slice(range.pos + 2, range.end).trim();
+};
+
+/**
+ * Description and range ("1-10 scale") of a numeric member
+ */
+const getCommentSchema = (comment: string | undefined): JsonSchema => {
+  if (!comment) {
+    return {};
+  }
+  const range = comment.match(/\b(\d+)-(\d+)\b/);
+  return {
+    description: comment,
+    ...(range && { minimum: Number(range[1]), maximum: Number(range[2]) }),
+  };
+};
+
+/**
+ * Schema for a list of interface members
+ */
+const getObjectSchema = (
+  members: ts.NodeArray<ts.TypeElement>,
+  sourceFile: ts.SourceFile,
+  omit: string[] = []
+): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  members.forEach((member) => {
+    if (!ts.isPropertySignature(member) || !member.type) {
+      throw new Error(`Unsupported member: ${member.getText(sourceFile)}`);
+    }
+
+    const name = member.name.getText(sourceFile);
+    if (omit.includes(name)) {
+      return;
+    }
+
+    const schema = getTypeSchema(member.type, sourceFile);
+    const comment = getTrailingComment(member, sourceFile);
+    const isNumber = schema.type === "number" || schema.type === "integer";
+    properties[name] = {
+      ...schema,
+      ...(isNumber
+        ? getCommentSchema(comment)
+        : comment && { description: comment }),
+    };
+    if (!member.questionToken) {
+      required.push(name);
+    }
+  });
+
+  return {
+    type: "object",
+    properties,
+    required,
+    additionalProperties: false,
+  };
+};
+
+/**
+ * Schema for a type annotation
+ */
+const getTypeSchema = (
+  type: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): JsonSchema => {
+  switch (type.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: "number" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: "boolean" };
+  }
+
+  if (ts.isArrayTypeNode(type)) {
+    return {
+      type: "array",
+      items: getTypeSchema(type.elementType, sourceFile),
+    };
+  }
+  if (ts.isTypeLiteralNode(type)) {
+    return getObjectSchema(type.members, sourceFile);
+  }
+  if (
+    ts.isTypeReferenceNode(type) &&
+    type.typeName.getText(sourceFile) === INTEGER_ALIAS
+  ) {
+    return { type: "integer" };
+  }
+  if (ts.isTypeReferenceNode(type)) {
+    return getInterfaceSchema(sourceFile, type.typeName.getText(sourceFile));
+  }
+  if (
+    ts.isUnionTypeNode(type) &&
+    type.types.every(
+      (member) =>
+        ts.isLiteralTypeNode(member) && ts.isStringLiteral(member.literal)
+    )
+  ) {
+    return {
+      type: "string",
+      enum: type.types.map(
+        (member) =>
+          ((member as ts.LiteralTypeNode).literal as ts.StringLiteral).text
+      ),
+    };
+  }
+
+  throw new Error(`Unsupported type: ${type.getText(sourceFile)}`);
+};
+
+/**
+ * Schema for an interface declared in the source file
+ */
+const getInterfaceSchema = (
+  sourceFile: ts.SourceFile,
+  name: string,
+  omit: string[] = []
+): JsonSchema => {
+  const declaration = sourceFile.statements.find(
+    (statement): statement is ts.InterfaceDeclaration =>
+      ts.isInterfaceDeclaration(statement) && statement.name.text === name
+  );
+  if (!declaration) {
+    throw new Error(`Interface ${name} not found in ${sourceFile.fileName}`);
+  }
+  return getObjectSchema(declaration.members, sourceFile, omit);
+};
+
+/**
+ * Generate the JSON schema of a TypeScript interface
+ * Supports strings, numbers (`Integer` for whole numbers), booleans, string
+ * literal unions, arrays, inline objects and other interfaces in the same
+ * file. A trailing `// comment` becomes the description, and a range in it
+ * (e.g. "// 1-10 scale") bounds numbers.
+ */
+export const generateInterfaceSchema = (
+  sourcePath: string,
+  name: string,
+  omit: string[] = []
+): JsonSchema => {
+  const sourceFile = ts.createSourceFile(
+    sourcePath,
+    fs.readFileSync(sourcePath, "utf8"),
+    ts.ScriptTarget.ES2020,
+    true
+  );
+  return getInterfaceSchema(sourceFile, name, omit);
+};
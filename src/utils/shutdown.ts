@@ -0,0 +1,108 @@
+import { logger } from "./logger";
+import { closeAllBrowserSessions } from "./browser";
+import { killTrackedChildProcesses } from "./child-processes";
+
+/**
+ * Why in-flight work had to be abandoned
+ */
+export type AbortReason = "grace_timeout" | "force_quit";
+
+/**
+ * Coordinates a graceful stop: first signal stops new work, a second signal
+ * or the grace timeout abandons in-flight work and exits
+ */
+export interface ShutdownController {
+  stopSignal: AbortSignal;
+  isStopping: () => boolean;
+  requestStop: (source: string) => void;
+  onAbort: (hook: (reason: AbortReason) => void) => void;
+  install: () => void;
+  finish: () => void;
+}
+
+/**
+ * Release browsers and child processes that may still be running
+ */
+export const cleanupResources = async (): Promise<void> => {
+  killTrackedChildProcesses();
+  await closeAllBrowserSessions();
+};
+
+/**
+ * Create a shutdown controller with the given grace period for in-flight work
+ */
+export const createShutdownController = (
+  graceTimeoutMs: number
+): ShutdownController => {
+  const stopController = new AbortController();
+  const abortHooks: Array<(reason: AbortReason) => void> = [];
+  let graceTimer: NodeJS.Timeout | undefined;
+  let aborting = false;
+
+  const abort = async (reason: AbortReason, exitCode: number) => {
+    if (aborting) {
+      return;
+    }
+    aborting = true;
+
+    abortHooks.forEach((hook) => {
+      try {
+        hook(reason);
+      } catch (error) {
+        logger.error(`❌ Shutdown hook failed: ${(error as Error).message}`);
+      }
+    });
+
+    if (reason === "force_quit") {
+      // Playwright kills its browsers from its own exit handler
+      killTrackedChildProcesses("SIGKILL");
+    } else {
+      await cleanupResources();
+    }
+
+    process.exit(exitCode);
+  };
+
+  const requestStop = (source: string) => {
+    if (stopController.signal.aborted) {
+      logger.warn(`⚡ Received ${source} again. Force quitting...`);
+      void abort("force_quit", 130);
+      return;
+    }
+
+    logger.info(
+      `\n🛑 Received ${source}. Finishing the current step (up to ${Math.round(
+        graceTimeoutMs / 1000
+      )}s), press Ctrl+C again to force quit...`
+    );
+    stopController.abort();
+
+    graceTimer = setTimeout(() => {
+      logger.error(
+        `❌ In-flight work did not finish within ${Math.round(
+          graceTimeoutMs / 1000
+        )}s, aborting`
+      );
+      void abort("grace_timeout", 1);
+    }, graceTimeoutMs);
+    graceTimer.unref();
+  };
+
+  return {
+    stopSignal: stopController.signal,
+    isStopping: () => stopController.signal.aborted,
+    requestStop,
+    onAbort: (hook) => {
+      abortHooks.push(hook);
+    },
+    install: () => {
+      process.on("SIGINT", () => requestStop("interrupt signal"));
+      process.on("SIGTERM", () => requestStop("termination signal"));
+    },
+    finish: () => {
+      if (graceTimer) {
+        clearTimeout(graceTimer);
+      }
+    },
+  };
+};
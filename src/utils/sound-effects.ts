@@ -2,6 +2,7 @@ import playSound from "play-sound";
 import { logger } from "./logger";
 import { spawn } from "child_process";
 import { existsSync } from "fs";
+import { trackChildProcess } from "./child-processes";
 
 const player = playSound({});
 
@@ -64,9 +65,11 @@ function generateBeep(frequency: number, duration: number): void {
   try {
     // Try to use system bell/beep
     if (process.platform === "darwin") {
-      spawn("afplay", ["/System/Library/Sounds/Tink.aiff"]);
+      trackChildProcess(spawn("afplay", ["/System/Library/Sounds/Tink.aiff"]));
     } else if (process.platform === "linux") {
-      spawn("paplay", ["/usr/share/sounds/alsa/Front_Right.wav"]);
+      trackChildProcess(
+        spawn("paplay", ["/usr/share/sounds/alsa/Front_Right.wav"])
+      );
     } else {
       // Fallback: print bell character (may produce beep on some terminals)
       process.stdout.write("\x07");
@@ -76,10 +79,23 @@ function generateBeep(frequency: number, duration: number): void {
   }
 }
 
+/**
+ * Player arguments that set the volume, by play-sound player name
+ */
+const getPlayerVolumeOptions = (volume: number): Record<string, string[]> => ({
+  afplay: ["-v", String(volume)],
+  mplayer: ["-volume", String(Math.round(volume * 100))],
+  mpg123: ["-f", String(Math.round(volume * 32768))],
+  play: ["-v", String(volume)],
+});
+
 /**
  * Play system sound based on platform
  */
-async function playSystemSound(action: TradingAction): Promise<boolean> {
+async function playSystemSound(
+  action: TradingAction,
+  volume: number
+): Promise<boolean> {
   const platform = process.platform as keyof typeof SYSTEM_SOUNDS;
   const systemSounds = SYSTEM_SOUNDS[platform];
 
@@ -94,9 +110,13 @@ async function playSystemSound(action: TradingAction): Promise<boolean> {
     if (platform === "darwin") {
       // macOS: use afplay with system sounds
       await new Promise<void>((resolve, reject) => {
-        const child = spawn("afplay", [
-          `/System/Library/Sounds/${soundName}.aiff`,
-        ]);
+        const child = trackChildProcess(
+          spawn("afplay", [
+            "-v",
+            String(volume),
+            `/System/Library/Sounds/${soundName}.aiff`,
+          ])
+        );
         child.on("close", (code) => {
           if (code === 0) resolve();
           else reject(new Error(`Sound failed with code ${code}`));
@@ -106,9 +126,12 @@ async function playSystemSound(action: TradingAction): Promise<boolean> {
     } else if (platform === "linux") {
       // Linux: use paplay or aplay
       await new Promise<void>((resolve, reject) => {
-        const child = spawn("paplay", [
-          `/usr/share/sounds/freedesktop/stereo/${soundName}.oga`,
-        ]);
+        const child = trackChildProcess(
+          spawn("paplay", [
+            `--volume=${Math.round(volume * 65536)}`,
+            `/usr/share/sounds/freedesktop/stereo/${soundName}.oga`,
+          ])
+        );
         child.on("close", (code) => {
           if (code === 0) resolve();
           else reject(new Error(`Sound failed with code ${code}`));
@@ -118,10 +141,12 @@ async function playSystemSound(action: TradingAction): Promise<boolean> {
     } else if (platform === "win32") {
       // Windows: use PowerShell to play system sounds
       await new Promise<void>((resolve, reject) => {
-        const child = spawn("powershell", [
-          "-c",
-          `[System.Media.SystemSounds]::${soundName}.Play()`,
-        ]);
+        const child = trackChildProcess(
+          spawn("powershell", [
+            "-c",
+            `[System.Media.SystemSounds]::${soundName}.Play()`,
+          ])
+        );
         child.on("close", (code) => {
           if (code === 0) resolve();
           else reject(new Error(`Sound failed with code ${code}`));
@@ -153,10 +178,12 @@ async function playCustomSound(
 
   try {
     await new Promise<void>((resolve, reject) => {
-      player.play(soundFile, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+      trackChildProcess(
+        player.play(soundFile, getPlayerVolumeOptions(config.volume), (err) => {
+          if (err) reject(err);
+          else resolve();
+        })
+      );
     });
 
     return true;
@@ -189,7 +216,7 @@ export async function playTradingSound(
     }
 
     // Fallback to system sounds
-    const systemSuccess = await playSystemSound(action);
+    const systemSuccess = await playSystemSound(action, config.volume);
     if (systemSuccess) {
       logger.debug(`✅ Played system sound for ${action}`);
       return;
@@ -249,11 +276,12 @@ export async function testSoundEffects(): Promise<void> {
 
 /**
  * Get sound configuration from environment or defaults
+ * A volume passed in (--sound-volume, sound.volume) wins over SOUND_VOLUME.
  */
-export function getSoundConfig(): SoundConfig {
+export function getSoundConfig(volume?: number): SoundConfig {
   return {
     enabled: process.env.SOUND_EFFECTS !== "false",
-    volume: parseFloat(process.env.SOUND_VOLUME || "0.7"),
+    volume: volume ?? parseFloat(process.env.SOUND_VOLUME || "0.7"),
     fallbackToSystemBeep: process.env.SOUND_FALLBACK !== "false",
   };
 }
@@ -264,9 +292,10 @@ export function getSoundConfig(): SoundConfig {
 export async function playTradingAlert(
   action: TradingAction,
   confidence: number,
-  reason: string
+  reason: string,
+  volume?: number
 ): Promise<void> {
-  const config = getSoundConfig();
+  const config = getSoundConfig(volume);
 
   // Visual alert
   const emoji = action === "LONG" ? "🚀" : action === "SHORT" ? "📉" : "⏸️";
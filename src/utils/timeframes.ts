@@ -0,0 +1,50 @@
+const TIMEFRAME_UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60,
+};
+
+/**
+ * Convert a timeframe such as "5m", "1h" or "1d" into minutes
+ */
+export const timeframeToMinutes = (timeframe: string): number => {
+  const match = timeframe.trim().match(/^(\d+)([mhd])$/i);
+  const unitMinutes = TIMEFRAME_UNIT_MINUTES[match?.[2]?.toLowerCase() ?? ""];
+  const amount = Number(match?.[1]);
+
+  if (!match || !unitMinutes || amount < 1) {
+    throw new Error(
+      `Invalid timeframe "${timeframe}": expected e.g. 5m, 15m, 1h, 6h or 1d`
+    );
+  }
+
+  return amount * unitMinutes;
+};
+
+/**
+ * Candle length of a timeframe in milliseconds
+ */
+const getCandleMs = (timeframe: string): number =>
+  timeframeToMinutes(timeframe) * 60 * 1000;
+
+/**
+ * First candle close at or after the given time
+ *
+ * Candles are aligned to the Unix epoch in UTC, which matches how exchanges
+ * bucket intraday and daily bars.
+ */
+export const getCandleCloseAtOrAfter = (
+  date: Date,
+  timeframe: string
+): Date => {
+  const candleMs = getCandleMs(timeframe);
+  return new Date(Math.ceil(date.getTime() / candleMs) * candleMs);
+};
+
+/**
+ * Candle close nearest to the given time
+ */
+export const getNearestCandleClose = (date: Date, timeframe: string): Date => {
+  const candleMs = getCandleMs(timeframe);
+  return new Date(Math.round(date.getTime() / candleMs) * candleMs);
+};
@@ -1,4 +1,5 @@
 import { logger } from "./utils/logger";
+import { getTimeframeScreenshotName } from "./utils/browser";
 import {
   executeVisionAnalysis,
   createVisionAnalysisConfig,
@@ -7,7 +8,15 @@ import {
   ChartAnalysis,
   ComprehensiveAnalysis,
   TradingVerdict,
+  VisionAnalysisConfig,
 } from "./features/vision-analysis";
+import { createCostLedger } from "./features/cost-ledger";
+import { CommitteeRule } from "./features/verdict-committee";
+import { readVerdictHistory } from "./features/verdict-history";
+import {
+  getProviderSetupError,
+  parseModelSpec,
+} from "./features/vision-provider";
 
 /**
  * Parse command line arguments for vision analysis
@@ -15,11 +24,21 @@ import {
 function parseVisionArgs(): {
   help?: boolean;
   model?: string;
+  baseUrl?: string;
+  noTools?: boolean;
+  promptSet?: string;
+  record?: string;
+  replay?: string;
   detail?: "low" | "high" | "auto";
   timeframes?: string[];
   screenshotsDir?: string;
   maxTokens?: number;
   temperature?: number;
+  samples?: number;
+  journal?: string;
+  historyDepth?: number;
+  committee?: string[];
+  committeeRule?: CommitteeRule;
   outputDir?: string;
   saveJson?: boolean;
   saveText?: boolean;
@@ -27,6 +46,9 @@ function parseVisionArgs(): {
   soundEffects?: boolean;
   noSound?: boolean;
   soundVolume?: number;
+  cycleId?: string;
+  symbol?: string;
+  costLedger?: string;
 } {
   const args = process.argv.slice(2);
   const result: any = {};
@@ -38,6 +60,16 @@ function parseVisionArgs(): {
       result.help = true;
     } else if (arg === "--model" && i + 1 < args.length) {
       result.model = args[++i];
+    } else if (arg === "--base-url" && i + 1 < args.length) {
+      result.baseUrl = args[++i];
+    } else if (arg === "--no-tools") {
+      result.noTools = true;
+    } else if (arg === "--prompt-set" && i + 1 < args.length) {
+      result.promptSet = args[++i];
+    } else if (arg === "--record" && i + 1 < args.length) {
+      result.record = args[++i];
+    } else if (arg === "--replay" && i + 1 < args.length) {
+      result.replay = args[++i];
     } else if (arg === "--detail" && i + 1 < args.length) {
       result.detail = args[++i];
     } else if (arg === "--timeframes" && i + 1 < args.length) {
@@ -53,6 +85,20 @@ function parseVisionArgs(): {
     } else if (arg === "--temperature" && i + 1 < args.length) {
       const value = args[++i];
       result.temperature = value ? parseFloat(value) : undefined;
+    } else if (arg === "--samples" && i + 1 < args.length) {
+      const value = args[++i];
+      result.samples = value ? parseInt(value, 10) : undefined;
+    } else if (arg === "--journal" && i + 1 < args.length) {
+      result.journal = args[++i];
+    } else if (arg === "--history-depth" && i + 1 < args.length) {
+      const value = args[++i];
+      result.historyDepth = value ? parseInt(value, 10) : undefined;
+    } else if (arg === "--committee" && i + 1 < args.length) {
+      result.committee = args[++i]
+        ?.split(",")
+        .map((model: string) => model.trim());
+    } else if (arg === "--committee-rule" && i + 1 < args.length) {
+      result.committeeRule = args[++i];
     } else if (arg === "--output-dir" && i + 1 < args.length) {
       result.outputDir = args[++i];
     } else if (arg === "--save-json") {
@@ -68,6 +114,12 @@ function parseVisionArgs(): {
     } else if (arg === "--sound-volume" && i + 1 < args.length) {
       const value = args[++i];
       result.soundVolume = value ? parseFloat(value) : undefined;
+    } else if (arg === "--cycle-id" && i + 1 < args.length) {
+      result.cycleId = args[++i];
+    } else if (arg === "--symbol" && i + 1 < args.length) {
+      result.symbol = args[++i]?.toUpperCase();
+    } else if (arg === "--cost-ledger" && i + 1 < args.length) {
+      result.costLedger = args[++i];
     }
   }
 
@@ -84,14 +136,25 @@ function showVisionHelp() {
 Usage: npm run start-vision-ai [options]
 
 Options:
-  --model <model>           OpenAI model to use (default: gpt-4o)
+  --model <model>           Model to use (default: gpt-4o)
                            Available: gpt-4o, gpt-4o-mini, gpt-4-turbo
+                           Other providers: openai-compatible:<model>, offline
+  --base-url <url>          Server for openai-compatible models (or VISION_BASE_URL)
+  --no-tools                Ask for JSON in the prompt (models without tool calling)
+  --prompt-set <name|dir>   Prompt templates from prompts/<name> or a directory (default: default)
+  --record <dir>            Save every model reply as a fixture in <dir>
+  --replay <dir>            Serve model replies from fixtures in <dir> (no API calls)
   --detail <level>          Image analysis detail level (default: high)
                            Options: low, high, auto
   --timeframes <list>       Comma-separated timeframes to analyze (default: 5m,15m,1h,2h,6h)
   --screenshots-dir <dir>   Directory containing chart screenshots (default: screenshots)
   --max-tokens <number>     Maximum tokens per API call (default: 1000)
   --temperature <number>    Response randomness 0.0-1.0 (default: 0.1)
+  --samples <n>             Analyze each timeframe n times and use the consensus (default: 1)
+  --journal <path>          Show the model the recent verdicts in an auto trader journal
+  --history-depth <n>       Earlier verdicts shown to the model (default: 5, 0 for none)
+  --committee <models>      Comma-separated models that vote on the final verdict
+  --committee-rule <rule>   majority, confidence-weighted or unanimous-for-entry (default: majority)
   --output-dir <dir>        Directory to save analysis results (default: analysis-results)
   --save-json              Save analysis as JSON file (default: enabled)
   --save-text              Save analysis as text report (default: enabled)
@@ -99,16 +162,22 @@ Options:
   --sound-effects          Enable sound effects (default: enabled)
   --no-sound               Disable sound effects
   --sound-volume <0.0-1.0> Sound volume level (default: 0.7)
+  --cycle-id <id>          Analyze screenshots stamped with this cycle ID
+  --symbol <symbol>        Market shown on the charts (default: BTCUSD; known: BTCUSD, ETHUSD, SOLUSD)
+  --cost-ledger <path>     Spend ledger to record calls in (default: logs/cost-ledger.jsonl)
   --help, -h               Show this help message
 
 Prerequisites:
   • Chart screenshots must exist (run 'npm run start -- --multi-timeframe' first)
-  • OPENAI_API_KEY environment variable must be set
+  • OPENAI_API_KEY environment variable must be set (for OpenAI models)
 
 Examples:
   npm run start-vision-ai                           # Analyze all default timeframes
   npm run start-vision-ai -- --timeframes 5m,1h     # Analyze specific timeframes
   npm run start-vision-ai -- --model gpt-4o-mini    # Use cheaper model
+  npm run start-vision-ai -- --model offline        # Exercise the pipeline without any model
+  npm run start-vision-ai -- --cycle-id <id> --replay fixtures/vision
+                                                    # Re-run old captures without paying again
   npm run start-vision-ai -- --detail low           # Faster, lower cost analysis
   npm run start-vision-ai -- --no-save              # Display only, don't save files
   npm run start-vision-ai -- --output-dir reports   # Save to custom directory
@@ -353,11 +422,17 @@ function displayAnalysisSummary(result: VisionAnalysisResult) {
 /**
  * Check prerequisites
  */
-function checkPrerequisites(): boolean {
-  // Check OpenAI API key
-  if (!process.env.OPENAI_API_KEY) {
-    logger.error("❌ OPENAI_API_KEY environment variable is required");
-    logger.info('   Set it with: export OPENAI_API_KEY="your-api-key-here"');
+function checkPrerequisites(
+  config: VisionAnalysisConfig,
+  cycleId?: string
+): boolean {
+  // Check the model provider (API key or server URL)
+  const providerProblem = getProviderSetupError(config);
+  if (providerProblem) {
+    logger.error(`❌ ${providerProblem}`);
+    if (parseModelSpec(config.model).provider === "openai") {
+      logger.info('   Set it with: export OPENAI_API_KEY="your-api-key-here"');
+    }
     return false;
   }
 
@@ -366,7 +441,9 @@ function checkPrerequisites(): boolean {
   const screenshotsDir = "screenshots";
   const timeframes = ["5m", "15m", "1h", "2h", "6h"];
   const existingFiles = timeframes.filter((tf) =>
-    fs.existsSync(`${screenshotsDir}/jupiter-${tf}.png`)
+    fs.existsSync(
+      `${screenshotsDir}/${getTimeframeScreenshotName(tf, cycleId)}`
+    )
   );
 
   if (existingFiles.length === 0) {
@@ -399,18 +476,35 @@ async function runVisionAnalysis() {
   try {
     logger.info("🤖 Starting Vision AI Analysis");
 
-    // Check prerequisites
-    if (!checkPrerequisites()) {
-      process.exit(1);
-    }
-
     const config = createVisionAnalysisConfig({
       ...(args.model && { model: args.model }),
+      ...(args.baseUrl && { baseUrl: args.baseUrl }),
+      ...(args.noTools && { toolCalling: false }),
+      ...(args.promptSet && { promptSet: args.promptSet }),
+      ...(args.record && {
+        fixtures: { mode: "record" as const, dir: args.record },
+      }),
+      ...(args.replay && {
+        fixtures: { mode: "replay" as const, dir: args.replay },
+      }),
       ...(args.detail && { detail: args.detail }),
       ...(args.timeframes && { timeframes: args.timeframes }),
       ...(args.screenshotsDir && { screenshotsDir: args.screenshotsDir }),
       ...(args.maxTokens && { maxTokens: args.maxTokens }),
       ...(args.temperature && { temperature: args.temperature }),
+      ...(args.samples && { sampling: { samples: args.samples } }),
+      ...(args.historyDepth !== undefined && {
+        historyDepth: args.historyDepth,
+      }),
+      ...(args.journal && {
+        verdictHistory: readVerdictHistory(args.journal, args.historyDepth),
+      }),
+      ...(args.committee && {
+        committee: {
+          members: args.committee.map((model) => ({ model })),
+          ...(args.committeeRule && { rule: args.committeeRule }),
+        },
+      }),
       ...(args.outputDir && { outputDir: args.outputDir }),
       ...(args.noSave && { saveJson: false, saveText: false }),
       ...(args.saveJson !== undefined && { saveJson: args.saveJson }),
@@ -420,14 +514,47 @@ async function runVisionAnalysis() {
         soundEffects: args.soundEffects,
       }),
       ...(args.soundVolume !== undefined && { soundVolume: args.soundVolume }),
+      ...(args.cycleId && { cycleId: args.cycleId }),
+      ...(args.symbol && { symbol: args.symbol }),
+      // Replayed calls cost nothing, so they stay out of the ledger
+      ...(!args.replay && { costLedger: createCostLedger(args.costLedger) }),
     });
 
+    // Check prerequisites
+    if (!checkPrerequisites(config, args.cycleId)) {
+      process.exit(1);
+    }
+
     logger.info(`🔧 Configuration:`);
     logger.info(`   Model: ${config.model}`);
+    if (config.promptSet) {
+      logger.info(`   Prompt Set: ${config.promptSet}`);
+    }
+    if (config.fixtures) {
+      logger.info(
+        `   Fixtures: ${config.fixtures.mode} (${config.fixtures.dir})`
+      );
+    }
     logger.info(`   Detail Level: ${config.detail}`);
+    if (config.sampling) {
+      logger.info(`   Samples per Timeframe: ${config.sampling.samples}`);
+    }
+    if (config.committee) {
+      logger.info(
+        `   Verdict Committee: ${config.committee.members
+          .map((member) => member.model)
+          .join(", ")} (${config.committee.rule ?? "majority"})`
+      );
+    }
     logger.info(`   Timeframes: ${config.timeframes?.join(", ")}`);
     logger.info(`   Max Tokens: ${config.maxTokens}`);
     logger.info(`   Output Directory: ${config.outputDir}`);
+    if (config.cycleId) {
+      logger.info(`   Cycle ID: ${config.cycleId}`);
+    }
+    if (config.symbol) {
+      logger.info(`   Symbol: ${config.symbol}`);
+    }
     logger.info(`   Save JSON: ${config.saveJson ? "Yes" : "No"}`);
     logger.info(`   Save Text: ${config.saveText ? "Yes" : "No"}`);
     logger.info(`   Sound Effects: ${config.soundEffects ? "Yes" : "No"}`);
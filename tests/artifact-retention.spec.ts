@@ -0,0 +1,87 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pruneCycleArtifacts } from "../src/utils/artifact-retention";
+
+test.describe("Cycle artifact retention", () => {
+  let screenshotsDir: string;
+  let outputDir: string;
+
+  // Screenshots and reports of one cycle, as the auto trader names them
+  const writeCycle = (cycleId: string) => {
+    ["5m", "1h"].forEach((timeframe) => {
+      fs.writeFileSync(
+        path.join(screenshotsDir, `jupiter-${timeframe}-${cycleId}.png`),
+        ""
+      );
+      fs.writeFileSync(
+        path.join(
+          screenshotsDir,
+          `jupiter-${timeframe}-${cycleId}-cropped.png`
+        ),
+        ""
+      );
+    });
+    ["json", "txt"].forEach((extension) =>
+      fs.writeFileSync(
+        path.join(
+          outputDir,
+          `analysis-2025-06-18T10-00-00-${cycleId}.${extension}`
+        ),
+        ""
+      )
+    );
+  };
+
+  const remaining = (): string[] =>
+    [...fs.readdirSync(screenshotsDir), ...fs.readdirSync(outputDir)].sort();
+
+  test.beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "retention-"));
+    screenshotsDir = path.join(dir, "screenshots");
+    outputDir = path.join(dir, "analysis-results");
+    fs.mkdirSync(screenshotsDir);
+    fs.mkdirSync(outputDir);
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(path.dirname(screenshotsDir), { recursive: true, force: true });
+  });
+
+  test("keeps the newest cycles and files from manual runs", () => {
+    writeCycle("20250616T100000Z-c1-a1b2c3");
+    writeCycle("20250617T100000Z-btcusd-c2-d4e5f6");
+    writeCycle("20250618T100000Z-c3-0a1b2c");
+    writeCycle("20250618T100000Z-c4-3d4e5f");
+    fs.writeFileSync(path.join(screenshotsDir, "jupiter-5m.png"), "");
+
+    const removed = pruneCycleArtifacts([screenshotsDir, outputDir], {
+      cycles: 2,
+    });
+
+    expect(removed).toBe(12);
+    expect(remaining()).toHaveLength(13);
+    expect(remaining()).toContain("jupiter-5m.png");
+    expect(remaining().join()).not.toMatch(/-c[12]-/);
+  });
+
+  test("removes cycles older than the given days", () => {
+    writeCycle("20250610T100000Z-c1-a1b2c3");
+    writeCycle("20250617T100000Z-c2-d4e5f6");
+
+    pruneCycleArtifacts(
+      [screenshotsDir, outputDir],
+      { days: 7 },
+      new Date("2025-06-18T12:00:00Z")
+    );
+
+    expect(remaining().join()).not.toContain("-c1-");
+    expect(remaining()).toHaveLength(6);
+
+    // No limit keeps everything
+    expect(
+      pruneCycleArtifacts([screenshotsDir, outputDir], { cycles: 0 })
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  applyFileConfig,
+  DEFAULT_CONFIG,
+  parseConfigFile,
+  validateFileConfig,
+} from "../src/config/auto-trader-config";
+import { parseArgs, resolveConfig } from "../src/auto-trader";
+import { getControlToken } from "../src/features/control-server";
+import { getSoundConfig } from "../src/utils/sound-effects";
+
+test.describe("Auto trader config file", () => {
+  test("reports every problem at once", () => {
+    let message = "";
+    try {
+      validateFileConfig(
+        {
+          intervalMinutes: 0,
+          maxRetries: 1.5,
+          timeframes: ["5m", "7x"],
+          candleAlignment: { settleSeconds: 5 },
+          analysis: { detail: "ultra", temperatur: 0.2 },
+          sound: { volume: 2 },
+        },
+        "test.json"
+      );
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain("Invalid auto-trader config test.json:");
+    [
+      "config.intervalMinutes must be at least",
+      "config.maxRetries must be a whole number",
+      "config.timeframes[1]",
+      "config.candleAlignment.timeframe is required",
+      "config.analysis.detail must be one of: low, high, auto",
+      "config.analysis.temperatur is not a known setting",
+      "config.sound.volume must be at most 1",
+    ].forEach((error) => expect(message).toContain(`  - ${error}`));
+  });
+
+  test("rejects invalid JSON and a control API open to the network", () => {
+    expect(() =>
+      parseConfigFile("{ intervalMinutes: 5 }", "test.json")
+    ).toThrow("Config file test.json is not valid JSON");
+    expect(() =>
+      validateFileConfig({ controlApi: { port: 8787, host: "0.0.0.0" } }, "x")
+    ).toThrow(
+      "config.controlApi.host 0.0.0.0 is reachable from other machines"
+    );
+    expect(() =>
+      validateFileConfig(
+        { controlApi: { port: 8787, host: "0.0.0.0", token: "secret" } },
+        "x"
+      )
+    ).not.toThrow();
+  });
+
+  test("layers the command line over the file over the defaults", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "auto-trader-config-"));
+    const configPath = path.join(dir, "auto-trader.config.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        intervalMinutes: 20,
+        maxRetries: 5,
+        timeframes: ["15m", "1h"],
+        budget: { daily: 5, monthly: 100 },
+        schedule: {
+          cron: "*/5 * * * *",
+          windows: [{ start: "07:00", end: "22:00" }],
+        },
+        analysis: { model: "gpt-4o-mini" },
+        sound: { volume: 0.3 },
+      })
+    );
+
+    const config = resolveConfig(
+      parseArgs([
+        "--config",
+        configPath,
+        "--interval",
+        "7",
+        "--daily-budget",
+        "2",
+        "--cron",
+        "*/15 * * * *",
+      ])
+    );
+
+    // Command line
+    expect(config.intervalMinutes).toBe(7);
+    expect(config.budget).toEqual({ daily: 2, monthly: 100 });
+    expect(config.schedule).toEqual({
+      cron: "*/15 * * * *",
+      windows: [{ start: "07:00", end: "22:00" }],
+    });
+    // File
+    expect(config.maxRetries).toBe(5);
+    expect(config.capture.timeframes).toEqual(["15m", "1h"]);
+    expect(config.analysis.timeframes).toEqual(["15m", "1h"]);
+    expect(config.analysis.model).toBe("gpt-4o-mini");
+    expect(config.analysis.soundVolume).toBe(0.3);
+    // Defaults
+    expect(config.retryDelayMs).toBe(DEFAULT_CONFIG.retryDelayMs);
+    expect(config.analysis.detail).toBe(DEFAULT_CONFIG.analysis.detail);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("prefers configured values over the environment", () => {
+    const env = { CONTROL_API_TOKEN: "from-env", SOUND_VOLUME: "0.9" };
+    const saved = Object.keys(env).map((name) => [name, process.env[name]]);
+    Object.assign(process.env, env);
+
+    try {
+      const fromFile = applyFileConfig(DEFAULT_CONFIG, {
+        controlApi: { port: 8787, host: "0.0.0.0" },
+        sound: { volume: 0.2 },
+      });
+      // The environment fills in what the file leaves out
+      expect(getControlToken(fromFile.controlApi!)).toBe("from-env");
+      expect(
+        getControlToken({ port: 8787, host: "0.0.0.0", token: "from-file" })
+      ).toBe("from-file");
+      expect(() =>
+        validateFileConfig({ controlApi: { port: 8787, host: "0.0.0.0" } }, "x")
+      ).not.toThrow();
+
+      expect(getSoundConfig(fromFile.analysis.soundVolume).volume).toBe(0.2);
+      expect(getSoundConfig().volume).toBe(0.9);
+    } finally {
+      saved.forEach(([name, value]) => {
+        if (value === undefined) {
+          delete process.env[name!];
+        } else {
+          process.env[name!] = value;
+        }
+      });
+    }
+  });
+});
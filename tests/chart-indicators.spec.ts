@@ -0,0 +1,117 @@
+import { test, expect } from "@playwright/test";
+import { chartSettings } from "../src/config/chart-settings";
+import {
+  describeIndicatorReadings,
+  getChartAnalysisSchema,
+  getChartIndicators,
+  getIndicatorFormat,
+  getIndicatorPrompt,
+} from "../src/features/chart-indicators";
+import { validateChartAnalysis } from "../src/features/output-validation";
+import outputSchemas from "../src/features/output-schemas.json";
+
+type Schema = {
+  properties: Record<string, Schema>;
+  required?: string[];
+};
+
+const indicatorsOf = (schema: unknown): Schema =>
+  (schema as Schema).properties.indicators as Schema;
+
+test.describe("Chart indicators", () => {
+  test("read the studies of every pane of the chart", () => {
+    const indicators = getChartIndicators(
+      chartSettings.getTechnicalIndicators()
+    );
+
+    expect(indicators.map((indicator) => indicator.field)).toEqual([
+      undefined,
+      "bollingerBands",
+      "stochRsi",
+    ]);
+    expect(getIndicatorPrompt(indicators)).toContain(
+      "   - Stoch RSI (14, 14, 3, 3), in its own pane below the price → stochRsi:"
+    );
+  });
+
+  test("ask for the readings of the studies on the chart only", () => {
+    const [stochRsi] = getChartIndicators([
+      {
+        type: "Study",
+        id: "s1",
+        metaInfo: {
+          id: "Stochastic RSI@tv-basicstudies-1",
+          shortDescription: "Stoch RSI",
+        },
+      },
+      {
+        type: "Study",
+        id: "s2",
+        metaInfo: { id: "VWAP@tv-basicstudies-1", shortDescription: "VWAP" },
+      },
+    ]);
+    const spec = getChartAnalysisSchema(outputSchemas.ChartAnalysis, [
+      stochRsi!,
+    ]);
+    const readings = indicatorsOf(spec.schema);
+
+    expect(Object.keys(readings.properties)).toEqual([
+      "volume",
+      "bollinger",
+      "momentum",
+      "stochRsi",
+    ]);
+    expect(readings.required).toContain("stochRsi");
+    expect(getIndicatorFormat(spec)).toContain(
+      '"zone": "overbought|neutral|oversold",'
+    );
+    // The generated schema itself is left untouched
+    expect(
+      indicatorsOf(outputSchemas.ChartAnalysis.schema).properties
+    ).toHaveProperty("bollingerBands");
+
+    expect(
+      getIndicatorPrompt(
+        getChartIndicators([
+          {
+            type: "Study",
+            id: "s2",
+            metaInfo: {
+              id: "VWAP@tv-basicstudies-1",
+              shortDescription: "VWAP",
+            },
+          },
+        ])
+      )
+    ).toContain("   - VWAP: anything notable, in the signals");
+  });
+
+  test("validate and describe the readings", () => {
+    const result = validateChartAnalysis({
+      timeframe: "15m",
+      trend: "bullish",
+      strength: 6,
+      keyLevels: { support: 64000, resistance: null },
+      indicators: {
+        volume: "high",
+        bollinger: "expansion",
+        momentum: "increasing",
+        bollingerBands: { position: "Upper Half", bandwidth: "squeeze" },
+        stochRsi: { zone: "oversold", crossover: "bullish", k: 104, d: "12" },
+      },
+      signals: [],
+      confidence: 7,
+      analysis: "Bouncing off the lower band",
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.value?.indicators).toMatchObject({
+      bollingerBands: { position: "upper_half", bandwidth: "contracting" },
+      stochRsi: { k: 100, d: 12 },
+    });
+    expect(describeIndicatorReadings(result.value!.indicators)).toEqual([
+      "Bollinger Bands: upper half, bandwidth contracting",
+      "Stoch RSI: oversold, bullish crossover (%K 100, %D 12)",
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  applyFileConfig,
+  AutoTraderFileConfig,
+  DEFAULT_CONFIG,
+} from "../src/config/auto-trader-config";
+import {
+  ConfigReloader,
+  createConfigReloader,
+} from "../src/config/config-reloader";
+
+test.describe("Config hot reload", () => {
+  let dir: string;
+  let configPath: string;
+  let reloader: ConfigReloader;
+
+  const save = (file: AutoTraderFileConfig | string) =>
+    fs.writeFileSync(
+      configPath,
+      typeof file === "string" ? file : JSON.stringify(file)
+    );
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-reload-"));
+    configPath = path.join(dir, "auto-trader.config.json");
+    save({ intervalMinutes: 15, sound: { volume: 0.5 } });
+
+    const resolve = (file: AutoTraderFileConfig) =>
+      applyFileConfig(DEFAULT_CONFIG, file);
+    reloader = createConfigReloader(
+      resolve({ intervalMinutes: 15, sound: { volume: 0.5 } }),
+      { path: configPath, resolve }
+    );
+  });
+
+  test.afterEach(() => {
+    reloader.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("applies a valid edit at the next cycle boundary", () => {
+    const { version } = reloader.current();
+
+    save({ intervalMinutes: 5, sound: { volume: 0.2 } });
+    // Nothing changes mid-cycle
+    expect(reloader.current().version).toBe(version);
+
+    const snapshot = reloader.atCycleBoundary();
+    expect(snapshot.version).not.toBe(version);
+    expect(snapshot.config.intervalMinutes).toBe(5);
+    expect(snapshot.config.analysis.soundVolume).toBe(0.2);
+    expect(reloader.current()).toBe(snapshot);
+  });
+
+  test("rejects an invalid edit and keeps the running config", () => {
+    const running = reloader.current();
+
+    save({ intervalMinutes: -1 });
+    expect(reloader.atCycleBoundary()).toBe(running);
+
+    save("{ not json");
+    expect(reloader.atCycleBoundary()).toBe(running);
+
+    // A later valid edit still goes through
+    save({ intervalMinutes: 20 });
+    expect(reloader.atCycleBoundary().config.intervalMinutes).toBe(20);
+  });
+
+  test("keeps restart-only settings at their startup values", () => {
+    const running = reloader.current();
+
+    save({
+      intervalMinutes: 15,
+      sound: { volume: 0.5 },
+      journalPath: path.join(dir, "other-journal.jsonl"),
+      maxConcurrentSymbols: 5,
+      costLedgerPath: path.join(dir, "other-ledger.json"),
+    });
+    expect(reloader.atCycleBoundary()).toBe(running);
+
+    save({
+      intervalMinutes: 30,
+      journalPath: path.join(dir, "other-journal.jsonl"),
+    });
+    const { config } = reloader.atCycleBoundary();
+    expect(config.intervalMinutes).toBe(30);
+    expect(config.journalPath).toBe(DEFAULT_CONFIG.journalPath);
+    expect(config.maxConcurrentSymbols).toBe(
+      DEFAULT_CONFIG.maxConcurrentSymbols
+    );
+    expect(config.costLedgerPath).toBe(DEFAULT_CONFIG.costLedgerPath);
+  });
+});
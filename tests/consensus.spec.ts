@@ -0,0 +1,144 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import {
+  buildConsensus,
+  describeAgreement,
+  getSampleSettings,
+} from "../src/features/consensus";
+import {
+  ChartAnalysis,
+  executeVisionAnalysis,
+} from "../src/features/vision-analysis";
+
+const sample = (overrides: Partial<ChartAnalysis>): ChartAnalysis => ({
+  timeframe: "1h",
+  trend: "bullish",
+  strength: 7,
+  keyLevels: { support: 64000, resistance: 68000 },
+  indicators: {
+    volume: "high",
+    bollinger: "expansion",
+    momentum: "increasing",
+  },
+  signals: ["Higher lows"],
+  confidence: 7,
+  analysis: "Uptrend intact",
+  ...overrides,
+});
+
+test.describe("Sampling consensus", () => {
+  test("takes the majority trend, median scores and clustered levels", () => {
+    const consensus = buildConsensus([
+      sample({ strength: 6, keyLevels: { support: 64100, resistance: 68000 } }),
+      sample({
+        trend: "bearish",
+        strength: 3,
+        keyLevels: { support: 61000 },
+        signals: ["Lower highs"],
+        analysis: "Rolling over",
+      }),
+      sample({
+        strength: 8,
+        keyLevels: { support: 64000, resistance: 68200 },
+        signals: ["higher lows ", "Volume expanding"],
+        analysis: "Breakout building",
+      }),
+    ]);
+
+    expect(consensus).toMatchObject({
+      trend: "bullish",
+      strength: 6,
+      confidence: 7,
+      keyLevels: { support: 64050, resistance: 68100 },
+      signals: ["Higher lows", "Volume expanding"],
+      analysis: "Uptrend intact",
+    });
+    expect(consensus.agreement).toMatchObject({
+      samples: 3,
+      trend: 2 / 3,
+      strength: 1 / 3,
+      support: 2 / 3,
+      resistance: 2 / 3,
+      indicators: { volume: 1, bollinger: 1, momentum: 1 },
+    });
+    expect(describeAgreement(consensus.agreement!)).toContain(
+      "across 3 samples (trend 67%"
+    );
+  });
+
+  test("cycles temperatures and detail levels across samples", () => {
+    const sampling = {
+      samples: 3,
+      temperatures: [0, 0.7],
+      details: ["high" as const],
+    };
+
+    expect(getSampleSettings(sampling, 0)).toEqual({
+      temperature: 0,
+      detail: "high",
+    });
+    expect(getSampleSettings(sampling, 1)).toEqual({
+      temperature: 0.7,
+      detail: "high",
+    });
+    expect(getSampleSettings(sampling, 2)).toEqual({
+      temperature: 0,
+      detail: "high",
+    });
+    expect(getSampleSettings({ samples: 2 }, 1)).toEqual({});
+  });
+
+  test("keeps every sample and the agreement of a sampled run", async () => {
+    const result = await executeVisionAnalysis({
+      model: "offline",
+      sampling: { samples: 3 },
+      screenshotsDir: path.join(__dirname, "fixtures", "vision", "screenshots"),
+      timeframes: ["5m", "1h"],
+      cycleId: "fixture",
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.chartSamples?.["5m"]).toHaveLength(3);
+    expect(result.chartSamples?.["1h"]).toHaveLength(3);
+    // Offline replies are identical, so every sample agrees
+    expect(result.individualAnalyses[0]?.agreement).toMatchObject({
+      samples: 3,
+      overall: 1,
+    });
+  });
+
+  test("replays a sampled run sample by sample", async () => {
+    const fixturesDir = path.join(__dirname, "fixtures", "vision");
+    const result = await executeVisionAnalysis({
+      model: "gpt-4o",
+      // Recorded at these temperatures: the hottest 1h sample read it bearish
+      sampling: { samples: 3, temperatures: [0.1, 0.4, 0.8] },
+      screenshotsDir: path.join(fixturesDir, "screenshots"),
+      timeframes: ["5m", "1h"],
+      cycleId: "fixture",
+      fixtures: {
+        mode: "replay",
+        dir: path.join(fixturesDir, "sampled-replies"),
+      },
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.chartSamples?.["1h"]?.map(({ trend }) => trend)).toEqual([
+      "neutral",
+      "neutral",
+      "bearish",
+    ]);
+    expect(result.individualAnalyses[1]).toMatchObject({
+      trend: "neutral",
+      agreement: { samples: 3, trend: 2 / 3 },
+    });
+    expect(result.individualAnalyses[0]?.agreement?.overall).toBe(1);
+    expect(result.finalVerdict?.action).toBe("LONG");
+  });
+});
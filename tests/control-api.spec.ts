@@ -0,0 +1,200 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  runAutoTrader,
+  AutoTraderConfig,
+  CycleRunner,
+} from "../src/auto-trader";
+import { DEFAULT_CONFIG } from "../src/config/auto-trader-config";
+import {
+  ControlServer,
+  startControlServer,
+} from "../src/features/control-server";
+import { createTraderControl } from "../src/features/trader-control";
+import { TradingVerdict } from "../src/features/vision-analysis";
+
+// Commands must be JSON requests, which a web page cannot send without asking
+const JSON_POST = { headers: { "Content-Type": "application/json" } };
+
+const FAKE_VERDICT: TradingVerdict = {
+  action: "HOLD",
+  confidence: 60,
+  positionSize: 0,
+  timeHorizon: "short",
+  riskLevel: "LOW",
+  keyReason: "Fake pipeline verdict",
+  nextCheckMinutes: 60,
+  criticalWarnings: [],
+};
+
+test.describe("Auto trader control API", () => {
+  test("reports status and accepts run-now, pause, resume and stop", async ({
+    request,
+  }) => {
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || "test-key";
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "control-api-"));
+
+    // Stand-in for chart capture and AI analysis
+    let cycles = 0;
+    const runCycle: CycleRunner = async ({ cycleId }) => {
+      cycles++;
+      return { success: true, cycleId, verdict: FAKE_VERDICT };
+    };
+
+    const config: AutoTraderConfig = {
+      ...DEFAULT_CONFIG,
+      journalPath: path.join(tempDir, "journal.jsonl"),
+      controlApi: { port: 0, host: "127.0.0.1" },
+    };
+
+    let server: ControlServer | undefined;
+    const running = runAutoTrader(config, undefined, {
+      runCycle,
+      onControlApi: (started) => (server = started),
+    });
+
+    await expect.poll(() => server).toBeDefined();
+    const url = server!.url;
+    const getStatus = async () => (await request.get(`${url}/status`)).json();
+
+    // The first cycle runs right away, then waits 60 minutes as advised
+    await expect
+      .poll(async () => (await getStatus()).lanes[0].state)
+      .toBe("waiting");
+    const status = await getStatus();
+    expect(status.lanes[0].cyclesCompleted).toBe(1);
+    expect(status.lanes[0].lastVerdict.keyReason).toBe("Fake pipeline verdict");
+    expect(status.lanes[0].nextRunAt).toBeDefined();
+
+    // Run-now skips the wait
+    const runNow = await request.post(`${url}/run-now`, JSON_POST);
+    expect(runNow.status()).toBe(202);
+    await expect
+      .poll(async () => (await getStatus()).lanes[0].cyclesCompleted)
+      .toBe(2);
+
+    expect(
+      (await (await request.post(`${url}/pause`, JSON_POST)).json()).status
+        .paused
+    ).toBe(true);
+    expect(
+      (await (await request.post(`${url}/resume`, JSON_POST)).json()).status
+        .paused
+    ).toBe(false);
+
+    expect((await request.get(`${url}/unknown`)).status()).toBe(404);
+    expect((await request.get(`${url}/stop`)).status()).toBe(405);
+
+    await request.post(`${url}/stop`, JSON_POST);
+    await running;
+    expect(cycles).toBe(2);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("runs one cycle on run-now while paused, then holds again", async ({
+    request,
+  }) => {
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || "test-key";
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "control-api-"));
+
+    let cycles = 0;
+    const runCycle: CycleRunner = async ({ cycleId }) => {
+      cycles++;
+      return { success: true, cycleId, verdict: FAKE_VERDICT };
+    };
+
+    let server: ControlServer | undefined;
+    const running = runAutoTrader(
+      {
+        ...DEFAULT_CONFIG,
+        journalPath: path.join(tempDir, "journal.jsonl"),
+        controlApi: { port: 0, host: "127.0.0.1" },
+      },
+      undefined,
+      { runCycle, onControlApi: (started) => (server = started) }
+    );
+
+    await expect.poll(() => server).toBeDefined();
+    const url = server!.url;
+    const getStatus = async () => (await request.get(`${url}/status`)).json();
+    await expect
+      .poll(async () => (await getStatus()).lanes[0].state)
+      .toBe("waiting");
+
+    await request.post(`${url}/pause`, JSON_POST);
+    await request.post(`${url}/run-now`, JSON_POST);
+    await expect
+      .poll(async () => (await getStatus()).lanes[0].cyclesCompleted)
+      .toBe(2);
+
+    // Still paused: the wait after the run-now cycle holds
+    await expect
+      .poll(async () => (await getStatus()).lanes[0].state)
+      .toBe("waiting");
+    const status = await getStatus();
+    expect(status.paused).toBe(true);
+    expect(status.lanes[0].cyclesCompleted).toBe(2);
+
+    await request.post(`${url}/stop`, JSON_POST);
+    await running;
+    expect(cycles).toBe(2);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("keeps web pages out and requires the token when set", async ({
+    request,
+  }) => {
+    const control = createTraderControl();
+    const open = await startControlServer(control, {
+      port: 0,
+      host: "127.0.0.1",
+    });
+
+    // A form or no-cors fetch from a page can only send simple content types
+    expect(
+      (
+        await request.post(`${open.url}/stop`, {
+          headers: { "Content-Type": "text/plain" },
+        })
+      ).status()
+    ).toBe(415);
+    expect(
+      (
+        await request.post(`${open.url}/pause`, {
+          headers: { ...JSON_POST.headers, Origin: "https://example.com" },
+        })
+      ).status()
+    ).toBe(403);
+    // DNS rebinding: a page's own host name pointed at 127.0.0.1
+    expect(
+      (
+        await request.get(`${open.url}/status`, {
+          headers: { Host: "attacker.example:8787" },
+        })
+      ).status()
+    ).toBe(403);
+    expect(control.getStatus().paused).toBe(false);
+    await open.close();
+
+    const secured = await startControlServer(control, {
+      port: 0,
+      host: "127.0.0.1",
+      token: "s3cret",
+    });
+    expect((await request.get(`${secured.url}/status`)).status()).toBe(401);
+    const pause = await request.post(`${secured.url}/pause`, {
+      headers: { ...JSON_POST.headers, Authorization: "Bearer s3cret" },
+    });
+    expect(pause.status()).toBe(202);
+    expect(control.getStatus().paused).toBe(true);
+    await secured.close();
+
+    await expect(
+      startControlServer(control, { port: 0, host: "0.0.0.0" })
+    ).rejects.toThrow("set controlApi.token or CONTROL_API_TOKEN");
+  });
+});
@@ -0,0 +1,138 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runAutoTrader, CycleRunner } from "../src/auto-trader";
+import { DEFAULT_CONFIG } from "../src/config/auto-trader-config";
+import {
+  attachControlInputs,
+  parseControlCommand,
+} from "../src/features/control-inputs";
+import { createTraderControl } from "../src/features/trader-control";
+import { TradingVerdict } from "../src/features/vision-analysis";
+
+const FAKE_VERDICT: TradingVerdict = {
+  action: "HOLD",
+  confidence: 60,
+  positionSize: 0,
+  timeHorizon: "short",
+  riskLevel: "LOW",
+  keyReason: "Fake pipeline verdict",
+  nextCheckMinutes: 60,
+  criticalWarnings: [],
+};
+
+test.describe("Auto trader control inputs", () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "control-inputs-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("parses typed commands and their aliases", () => {
+    expect(parseControlCommand("run")).toBe("run_now");
+    expect(parseControlCommand("  Run-Now \n")).toBe("run_now");
+    expect(parseControlCommand("continue")).toBe("resume");
+    expect(parseControlCommand("toggle")).toBe("toggle_pause");
+    expect(parseControlCommand("QUIT")).toBe("stop");
+    expect(parseControlCommand("status")).toBe("status");
+    expect(parseControlCommand("launch")).toBeUndefined();
+  });
+
+  test("runs now on SIGUSR1 and toggles pause on SIGUSR2", () => {
+    test.skip(process.platform === "win32", "No Unix signals on Windows");
+    const listeners = process.listenerCount("SIGUSR1");
+    const control = createTraderControl();
+    const detach = attachControlInputs(control, {
+      stdin: false,
+      signals: true,
+    });
+
+    try {
+      process.emit("SIGUSR1", "SIGUSR1");
+      expect(control.runNowGeneration()).toBe(1);
+
+      process.emit("SIGUSR2", "SIGUSR2");
+      expect(control.isPaused()).toBe(true);
+      process.emit("SIGUSR2", "SIGUSR2");
+      expect(control.isPaused()).toBe(false);
+    } finally {
+      detach();
+    }
+    expect(process.listenerCount("SIGUSR1")).toBe(listeners);
+  });
+
+  test("applies each command in the control file once", async () => {
+    const controlFile = path.join(tempDir, "control");
+    fs.writeFileSync(controlFile, "stop\n");
+    const control = createTraderControl();
+    let stopped = false;
+    control.onStop(() => (stopped = true));
+
+    const detach = attachControlInputs(control, {
+      stdin: false,
+      signals: false,
+      controlFile,
+    });
+
+    try {
+      // Left over from an earlier run
+      expect(fs.existsSync(controlFile)).toBe(false);
+
+      fs.writeFileSync(controlFile, "pause\nbogus\r\nrun\n");
+      await expect.poll(() => fs.existsSync(controlFile)).toBe(false);
+      expect(control.isPaused()).toBe(true);
+      expect(control.runNowGeneration()).toBe(1);
+      expect(stopped).toBe(false);
+    } finally {
+      detach();
+    }
+  });
+
+  test("runs one cycle on SIGUSR1 while paused by SIGUSR2", async () => {
+    test.skip(process.platform === "win32", "No Unix signals on Windows");
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || "test-key";
+
+    let cycles = 0;
+    const runCycle: CycleRunner = async ({ cycleId }) => {
+      cycles++;
+      return { success: true, cycleId, verdict: FAKE_VERDICT };
+    };
+
+    const control = createTraderControl();
+    const detach = attachControlInputs(control, {
+      stdin: false,
+      signals: true,
+    });
+    const running = runAutoTrader(
+      {
+        ...DEFAULT_CONFIG,
+        journalPath: path.join(tempDir, "journal.jsonl"),
+      },
+      undefined,
+      { runCycle, control }
+    );
+    const lane = () => control.getStatus().lanes[0];
+
+    try {
+      await expect.poll(() => lane()?.state).toBe("waiting");
+
+      process.emit("SIGUSR2", "SIGUSR2");
+      process.emit("SIGUSR1", "SIGUSR1");
+      await expect.poll(() => lane()?.cyclesCompleted).toBe(2);
+
+      // Still paused: the wait after the run-now cycle holds
+      await expect.poll(() => lane()?.state).toBe("waiting");
+      expect(control.isPaused()).toBe(true);
+      expect(cycles).toBe(2);
+    } finally {
+      control.command("stop", "test");
+      await running;
+      detach();
+    }
+  });
+});
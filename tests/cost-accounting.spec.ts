@@ -0,0 +1,137 @@
+import { test, expect } from "@playwright/test";
+import {
+  createCostTracker,
+  getImageTokens,
+} from "../src/features/cost-accounting";
+import {
+  createVisionProvider,
+  VisionProvider,
+  VisionRequest,
+} from "../src/features/vision-provider";
+
+/**
+ * Base64 of a PNG header, which is all the token estimate reads
+ */
+const pngOfSize = (width: number, height: number): string => {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "ascii");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header.toString("base64");
+};
+
+// Billable stand-in that reports fixed usage under a dated model name
+const fakeProvider: VisionProvider = {
+  name: "openai",
+  billable: true,
+  complete: async (request) => ({
+    content: "{}",
+    model: `${request.model}-2024-08-06`,
+    usage: { inputTokens: 2000, outputTokens: 500 },
+  }),
+};
+
+const chartRequest = (timeframe: string): VisionRequest => ({
+  stage: "chart_analysis",
+  model: "gpt-4o",
+  prompt: "Analyze this chart",
+  images: [
+    { base64: pngOfSize(1920, 1080), mimeType: "image/png", detail: "high" },
+  ],
+  timeframe,
+});
+
+test.describe("Cost accounting", () => {
+  test("counts image tokens by detail and tiles", () => {
+    const image = { base64: pngOfSize(1920, 1080), mimeType: "image/png" };
+
+    // Scaled to 1365x768: 3x2 tiles of 170 tokens plus 85 base tokens
+    expect(getImageTokens({ ...image, detail: "high" })).toBe(1105);
+    expect(getImageTokens({ ...image, detail: "low" })).toBe(85);
+    expect(
+      getImageTokens(
+        { ...image, detail: "low" },
+        { input: 0.15, output: 0.6, imageBaseTokens: 2833 }
+      )
+    ).toBe(2833);
+  });
+
+  test("prices every call from usage, per stage and timeframe", async () => {
+    const tracker = createCostTracker(fakeProvider, {
+      "gpt-4o": { input: 2.5, output: 10, imageInput: 5 },
+    });
+
+    await tracker.provider.complete(chartRequest("5m"));
+    await tracker.provider.complete(chartRequest("1h"));
+    await tracker.provider.complete({
+      stage: "final_verdict",
+      model: "gpt-4o",
+      prompt: "Decide",
+    });
+
+    const costs = tracker.breakdown();
+    // 895 text tokens at $2.50, 1105 image tokens at $5, 500 output at $10
+    const chartCost = (895 * 2.5 + 1105 * 5 + 500 * 10) / 1_000_000;
+    const verdictCost = (2000 * 2.5 + 500 * 10) / 1_000_000;
+
+    expect(costs.calls).toHaveLength(3);
+    expect(costs.calls[0]).toMatchObject({
+      model: "gpt-4o-2024-08-06",
+      inputTokens: 2000,
+      imageTokens: 1105,
+      outputTokens: 500,
+    });
+    expect(costs.byTimeframe["5m"]).toBeCloseTo(chartCost, 10);
+    expect(costs.byStage.chart_analysis).toBeCloseTo(2 * chartCost, 10);
+    expect(costs.byStage.final_verdict).toBeCloseTo(verdictCost, 10);
+    expect(costs.total).toBeCloseTo(2 * chartCost + verdictCost, 10);
+  });
+
+  test("estimates tokens when no usage is reported", async () => {
+    const tracker = createCostTracker({
+      ...fakeProvider,
+      complete: async () => ({ content: "x".repeat(400), model: "gpt-4o" }),
+    });
+
+    await tracker.provider.complete({
+      stage: "comprehensive_analysis",
+      model: "gpt-4o",
+      prompt: "y".repeat(800),
+    });
+
+    expect(tracker.breakdown().calls[0]).toMatchObject({
+      inputTokens: 200,
+      outputTokens: 100,
+      estimated: true,
+    });
+  });
+
+  test("does not bill local or replayed calls", async () => {
+    const tracker = createCostTracker({ ...fakeProvider, billable: false });
+
+    await tracker.provider.complete(chartRequest("5m"));
+
+    expect(tracker.breakdown()).toMatchObject({
+      total: 0,
+      inputTokens: 2000,
+      outputTokens: 500,
+    });
+  });
+
+  test("bills OpenAI-compatible servers unless they are local", () => {
+    const billable = (baseUrl: string, billable?: boolean): boolean =>
+      createVisionProvider({
+        model: "openai-compatible:llava",
+        baseUrl,
+        ...(billable !== undefined && { billable }),
+      }).billable;
+
+    expect(billable("http://localhost:11434/v1")).toBe(false);
+    expect(billable("http://192.168.1.20:8000/v1")).toBe(false);
+    expect(billable("https://api.together.xyz/v1")).toBe(true);
+    expect(billable("https://api.together.xyz/v1", false)).toBe(false);
+    expect(billable("http://127.0.0.1:8000/v1", true)).toBe(true);
+  });
+});
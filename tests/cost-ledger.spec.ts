@@ -0,0 +1,157 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  CostLedger,
+  createCostLedger,
+  getReachedCap,
+  planCycleBudget,
+  summarizeSpend,
+} from "../src/features/cost-ledger";
+import { executeVisionAnalysis } from "../src/features/vision-analysis";
+import { executeWithRetry } from "../src/auto-trader";
+
+const tempLedgerPath = (): string =>
+  path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cost-ledger-")), "l.jsonl");
+
+/**
+ * One gpt-4o cycle: two high detail charts and a verdict, $0.06 in total
+ */
+const recordCycle = (ledger: CostLedger, cycleId: string, symbol?: string) => {
+  const call = {
+    model: "gpt-4o-2024-08-06",
+    requestedModel: "gpt-4o",
+    inputTokens: 2000,
+    imageTokens: 0,
+    outputTokens: 500,
+    cycleId,
+    ...(symbol && { symbol }),
+  };
+  ["5m", "1h"].forEach((timeframe) =>
+    ledger.record({
+      ...call,
+      stage: "chart_analysis",
+      timeframe,
+      detail: "high",
+      cost: 0.025,
+    })
+  );
+  ledger.record({ ...call, stage: "final_verdict", cost: 0.01 });
+};
+
+test.describe("Cost ledger", () => {
+  test("persists every call and reloads it", () => {
+    const ledgerPath = tempLedgerPath();
+    recordCycle(createCostLedger(ledgerPath), "cycle-1");
+    fs.appendFileSync(ledgerPath, '{"cut short');
+
+    const reloaded = createCostLedger(ledgerPath);
+
+    expect(reloaded.entries()).toHaveLength(3);
+    expect(reloaded.spentOnCycle("cycle-1")).toBeCloseTo(0.06, 10);
+    expect(reloaded.spentSince(new Date(Date.now() - 60000))).toBeCloseTo(
+      0.06,
+      10
+    );
+  });
+
+  test("reports the first cap already reached", () => {
+    const ledger = createCostLedger(tempLedgerPath());
+    recordCycle(ledger, "cycle-1");
+
+    expect(getReachedCap(ledger, { daily: 1 }, "cycle-1")).toBeUndefined();
+    expect(getReachedCap(ledger, { perCycle: 0.05 }, "cycle-1")).toContain(
+      "per-cycle spend cap of $0.05"
+    );
+    expect(
+      getReachedCap(ledger, { perCycle: 0.05 }, "cycle-2")
+    ).toBeUndefined();
+    expect(getReachedCap(ledger, { monthly: 0.06 })).toContain("monthly");
+  });
+
+  test("downgrades, then skips, cycles that would exceed a cap", () => {
+    const ledger = createCostLedger(tempLedgerPath());
+    recordCycle(ledger, "cycle-1");
+    const analysis = {
+      model: "openai-compatible:gpt-4o",
+      detail: "high" as const,
+      timeframeCount: 2,
+    };
+
+    expect(planCycleBudget(ledger, { daily: 1 }, analysis)).toMatchObject({
+      action: "run",
+      projectedCost: expect.closeTo(0.06, 10),
+    });
+
+    // Another $0.06 cycle would pass $0.10, a mini cycle at low detail fits
+    const downgrade = planCycleBudget(ledger, { daily: 0.1 }, analysis);
+    expect(downgrade).toMatchObject({
+      action: "downgrade",
+      model: "openai-compatible:gpt-4o-mini",
+      detail: "low",
+    });
+    expect(downgrade.projectedCost).toBeLessThan(0.01);
+
+    expect(
+      planCycleBudget(ledger, { daily: 0.1, onExceed: "skip" }, analysis)
+    ).toMatchObject({ action: "skip" });
+    expect(planCycleBudget(ledger, { daily: 0.061 }, analysis)).toMatchObject({
+      action: "skip",
+      reason: expect.stringContaining("daily cap of $0.06"),
+    });
+  });
+
+  test("skips the analysis without retrying once a cap is reached", async () => {
+    const ledger = createCostLedger(tempLedgerPath());
+    recordCycle(ledger, "cycle-1");
+
+    let attempts = 0;
+    const { result, failure } = await executeWithRetry(
+      () => {
+        attempts++;
+        return executeVisionAnalysis({
+          model: "offline",
+          screenshotsDir: path.join(
+            __dirname,
+            "fixtures",
+            "vision",
+            "screenshots"
+          ),
+          timeframes: ["5m", "1h"],
+          cycleId: "fixture",
+          costLedger: ledger,
+          budget: { daily: 0.05 },
+          saveJson: false,
+          saveText: false,
+          soundEffects: false,
+        });
+      },
+      { maxRetries: 3, retryDelayMs: 10, maxRetryDelayMs: 10 }
+    );
+
+    expect(attempts).toBe(1);
+    expect(failure?.failureClass).toBe("budget");
+    expect(result.error).toContain(
+      "Spend cap reached: daily spend cap of $0.05"
+    );
+    expect(ledger.entries()).toHaveLength(3);
+  });
+
+  test("summarizes spend by any ledger field", () => {
+    const ledger = createCostLedger(tempLedgerPath());
+    recordCycle(ledger, "cycle-1", "BTCUSD");
+    recordCycle(ledger, "cycle-2", "BTCUSD");
+    recordCycle(ledger, "cycle-3", "SOLUSD");
+
+    const bySymbol = summarizeSpend(
+      ledger.entries(),
+      (entry) => entry.symbol ?? "(default)"
+    );
+
+    expect(bySymbol).toEqual([
+      { key: "BTCUSD", cost: expect.closeTo(0.12, 10), calls: 6, cycles: 2 },
+      { key: "SOLUSD", cost: expect.closeTo(0.06, 10), calls: 3, cycles: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createCycleJournal,
+  JournalEntry,
+  recoverJournalState,
+} from "../src/features/cycle-journal";
+
+const timestamp = "2025-06-18T10:00:00.000Z";
+
+const cycleStart = (cycleNumber: number): JournalEntry => ({
+  type: "cycle_start",
+  timestamp,
+  cycleNumber,
+  cycleId: `c${cycleNumber}`,
+});
+
+const cycleEnd = (
+  cycleNumber: number,
+  consecutiveFailures: number
+): JournalEntry => ({
+  type: "cycle_end",
+  timestamp,
+  cycleNumber,
+  cycleId: `c${cycleNumber}`,
+  success: consecutiveFailures === 0,
+  consecutiveFailures,
+});
+
+const scheduled = (
+  nextCycleNumber: number,
+  nextRunAt: string
+): JournalEntry => ({
+  type: "scheduled",
+  timestamp,
+  nextCycleNumber,
+  nextRunAt,
+  reason: "interval",
+});
+
+test.describe("Cycle journal recovery", () => {
+  test("starts fresh without entries", () => {
+    expect(recoverJournalState([])).toBeNull();
+  });
+
+  test("resumes the counters and the scheduled run", () => {
+    expect(
+      recoverJournalState([
+        cycleStart(1),
+        cycleEnd(1, 1),
+        cycleStart(2),
+        cycleEnd(2, 2),
+        scheduled(3, "2025-06-18T10:30:00.000Z"),
+      ])
+    ).toEqual({
+      lastCycleNumber: 2,
+      consecutiveFailures: 2,
+      nextRunAt: new Date("2025-06-18T10:30:00.000Z"),
+    });
+  });
+
+  test("reports a cycle that started but never ended", () => {
+    const state = recoverJournalState([
+      cycleStart(1),
+      cycleEnd(1, 0),
+      scheduled(2, "2025-06-18T10:30:00.000Z"),
+      cycleStart(2),
+    ]);
+
+    expect(state?.interruptedCycle).toEqual({ cycleNumber: 2, cycleId: "c2" });
+    // The run scheduled before the interrupted cycle has already happened
+    expect(state?.nextRunAt).toBeUndefined();
+  });
+
+  test("uses up the numbers of cycles skipped for the budget", () => {
+    const state = recoverJournalState([
+      cycleStart(1),
+      cycleEnd(1, 0),
+      {
+        type: "budget",
+        timestamp,
+        cycleNumber: 2,
+        cycleId: "c2",
+        action: "skip",
+        reason: "daily spend cap of $5 reached",
+        projectedCost: 0.4,
+      },
+      scheduled(3, "2025-06-18T10:30:00.000Z"),
+    ]);
+
+    expect(state).toMatchObject({ lastCycleNumber: 2 });
+    expect(state?.interruptedCycle).toBeUndefined();
+  });
+
+  test("skips a partially written last line", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cycle-journal-"));
+    const journal = createCycleJournal(path.join(dir, "journal.jsonl"));
+
+    journal.append({ type: "cycle_start", cycleNumber: 4, cycleId: "c4" });
+    journal.append({
+      type: "cycle_end",
+      cycleNumber: 4,
+      cycleId: "c4",
+      success: false,
+      consecutiveFailures: 1,
+    });
+    fs.appendFileSync(journal.path, '{"type":"cycle_start","cycleNum');
+
+    expect(journal.recover()).toEqual({
+      lastCycleNumber: 4,
+      consecutiveFailures: 1,
+    });
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from "@playwright/test";
+import {
+  classifyFailure,
+  getBackoffDelay,
+  getErrorDetails,
+} from "../src/utils/failures";
+
+test.describe("Failure classification", () => {
+  test("sorts failures into classes", () => {
+    expect(
+      classifyFailure({ error: "Spend cap reached: daily spend cap of $5" })
+    ).toEqual({ failureClass: "budget", reason: "spend cap reached" });
+    expect(
+      classifyFailure({ error: "OPENAI_API_KEY environment variable not set" })
+    ).toEqual({ failureClass: "fatal", reason: "OpenAI API key is missing" });
+    expect(classifyFailure({ error: "Forbidden", errorStatus: 403 })).toEqual({
+      failureClass: "fatal",
+      reason: "API rejected the credentials (HTTP 403)",
+    });
+    expect(classifyFailure({ errorStatus: 404 }).failureClass).toBe("fatal");
+    expect(
+      classifyFailure({
+        error: "Rate limit reached",
+        errorStatus: 429,
+        retryAfterMs: 20000,
+      })
+    ).toEqual({
+      failureClass: "rate_limited",
+      reason: "API rate limit hit (HTTP 429)",
+      retryAfterMs: 20000,
+    });
+    expect(
+      classifyFailure({ error: "page.goto: net::ERR_CONNECTION_RESET" })
+    ).toEqual({ failureClass: "transient", reason: "network error" });
+    expect(classifyFailure({ error: "Bad gateway", errorStatus: 502 })).toEqual(
+      { failureClass: "transient", reason: "API error (HTTP 502)" }
+    );
+    expect(classifyFailure({ error: "Something odd" })).toEqual({
+      failureClass: "transient",
+      reason: "unclassified error",
+    });
+  });
+
+  test("reads Retry-After in seconds, as an HTTP date or in milliseconds", () => {
+    expect(
+      getErrorDetails({ status: 429, headers: { "retry-after": "20" } })
+    ).toEqual({ errorStatus: 429, retryAfterMs: 20000 });
+    expect(
+      getErrorDetails({
+        status: 429,
+        headers: new Headers({ "retry-after-ms": "1500", "retry-after": "2" }),
+      })
+    ).toEqual({ errorStatus: 429, retryAfterMs: 1500 });
+
+    const inAMinute = new Date(Date.now() + 60000).toUTCString();
+    const { retryAfterMs } = getErrorDetails({
+      headers: { "retry-after": inAMinute },
+    });
+    // HTTP dates have whole seconds
+    expect(retryAfterMs).toBeGreaterThan(58000);
+    expect(retryAfterMs).toBeLessThanOrEqual(60000);
+
+    // A date in the past means retry now; garbage is ignored
+    expect(
+      getErrorDetails({
+        headers: { "retry-after": "Wed, 21 Oct 2015 07:28:00 GMT" },
+      })
+    ).toEqual({ retryAfterMs: 0 });
+    expect(getErrorDetails({ headers: { "retry-after": "soon" } })).toEqual({});
+    expect(getErrorDetails(new Error("no response"))).toEqual({});
+  });
+
+  test("keeps the backoff between half and all of the capped delay", () => {
+    for (let i = 0; i < 50; i++) {
+      const first = getBackoffDelay(1, 1000, 60000);
+      expect(first).toBeGreaterThanOrEqual(500);
+      expect(first).toBeLessThanOrEqual(1000);
+
+      const third = getBackoffDelay(3, 1000, 60000);
+      expect(third).toBeGreaterThanOrEqual(2000);
+      expect(third).toBeLessThanOrEqual(4000);
+
+      // Capped at the maximum however many attempts were made
+      const capped = getBackoffDelay(20, 1000, 60000);
+      expect(capped).toBeGreaterThanOrEqual(30000);
+      expect(capped).toBeLessThanOrEqual(60000);
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import {
+  buildOutputSchemas,
+  OUTPUT_SCHEMAS_PATH,
+} from "../src/generate-schemas";
+
+test.describe("Structured output schemas", () => {
+  test("match the TypeScript interfaces (run npm run generate-schemas)", () => {
+    const committed = JSON.parse(fs.readFileSync(OUTPUT_SCHEMAS_PATH, "utf8"));
+
+    expect(committed).toEqual(buildOutputSchemas());
+  });
+
+  test("leave pipeline-filled fields to the pipeline", () => {
+    const { TradingDecision } = buildOutputSchemas();
+
+    expect(TradingDecision?.schema.properties).not.toHaveProperty("timeframes");
+  });
+
+  test("carry integer types and ranges from the interfaces", () => {
+    const { TradingVerdict } = buildOutputSchemas();
+    const properties = TradingVerdict?.schema.properties as Record<
+      string,
+      unknown
+    >;
+
+    expect(properties["nextCheckMinutes"]).toEqual({
+      type: "integer",
+      description: "Minutes until next analysis (2-60 range)",
+      minimum: 2,
+      maximum: 60,
+    });
+    expect(properties["action"]).toEqual({
+      type: "string",
+      enum: ["HOLD", "LONG", "SHORT"],
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import { test, expect } from "@playwright/test";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import {
+  validateChartAnalysis,
+  validateTradingVerdict,
+} from "../src/features/output-validation";
+import { executeVisionAnalysis } from "../src/features/vision-analysis";
+
+const SCREENSHOTS_DIR = path.join(
+  __dirname,
+  "fixtures",
+  "vision",
+  "screenshots"
+);
+
+const CHART_REPLY = {
+  timeframe: "5m",
+  trend: "up",
+  strength: 15,
+  keyLevels: { support: "$64,850", resistance: null },
+  indicators: { volume: "High", bollinger: "expansion", momentum: "stable" },
+  signals: "Break above the upper band",
+  confidence: 70,
+  analysis: "Breakout on rising volume.",
+};
+
+const DECISION_REPLY = {
+  action: "hold",
+  confidence: 5,
+  reasoning: "Waiting for the hourly range to resolve.",
+  overallTrend: "neutral",
+  marketStructure: "Range",
+  warnings: [],
+};
+
+const COMPREHENSIVE_REPLY = {
+  executiveSummary: "Range-bound.",
+  marketOverview: "No clear direction.",
+  quantitativeMetrics: {
+    bullishSignals: 1,
+    bearishSignals: 0,
+    neutralSignals: 1,
+    avgConfidence: 6,
+    timeframeAlignment: 5,
+  },
+  riskAssessment: { riskLevel: "medium", keyRisks: [], riskMitigation: [] },
+  strategicRecommendations: {
+    primary: "Hold",
+    alternative: "Scalp the range",
+    timeHorizon: "Intraday",
+    positionSizing: "None",
+  },
+  nextSteps: ["Re-check the range edges"],
+};
+
+const VERDICT_REPLY = {
+  action: "HOLD",
+  confidence: 55,
+  positionSize: 1,
+  timeHorizon: "short",
+  riskLevel: "MEDIUM",
+  keyReason: "No edge until the range breaks.",
+  nextCheckMinutes: 15,
+  criticalWarnings: [],
+};
+
+/**
+ * OpenAI-compatible server that serves the given decision replies first
+ * Without tool calling it rejects requests with tools, like Ollama does.
+ */
+const startModelServer = async (
+  decisionReplies: unknown[] = [],
+  toolCalling = true
+): Promise<{
+  baseUrl: string;
+  prompts: string[];
+  temperatures: number[];
+  close: () => void;
+}> => {
+  const prompts: string[] = [];
+  const temperatures: number[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = JSON.parse(body);
+      const content = request.messages[0].content;
+      const prompt: string =
+        typeof content === "string" ? content : content[0].text;
+      prompts.push(prompt);
+      temperatures.push(request.temperature);
+
+      if (request.tools && !toolCalling) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: { message: `${request.model} does not support tools` },
+          })
+        );
+        return;
+      }
+
+      const reply =
+        typeof content !== "string"
+          ? CHART_REPLY
+          : prompt.includes("quantitative analyst")
+          ? COMPREHENSIVE_REPLY
+          : prompt.includes("senior trading executive")
+          ? VERDICT_REPLY
+          : decisionReplies.shift() ?? DECISION_REPLY;
+      const message = request.tools
+        ? {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: {
+                  name: request.tools[0].function.name,
+                  arguments: JSON.stringify(reply),
+                },
+              },
+            ],
+          }
+        : { role: "assistant", content: JSON.stringify(reply) };
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: request.model,
+          choices: [{ index: 0, message, finish_reason: "stop" }],
+        })
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    prompts,
+    temperatures,
+    close: () => server.close(),
+  };
+};
+
+test.describe("Model output validation", () => {
+  test("coerces fixable fields and records each repair", () => {
+    const { value, repairs, errors } = validateChartAnalysis(CHART_REPLY);
+
+    expect(errors).toEqual([]);
+    expect(value).toMatchObject({
+      trend: "bullish",
+      strength: 10,
+      keyLevels: { support: 64850 },
+      indicators: { volume: "high" },
+      signals: ["Break above the upper band"],
+      confidence: 7,
+    });
+    expect(value?.keyLevels).not.toHaveProperty("resistance");
+    expect(repairs).toContain('trend: "up" → "bullish"');
+    expect(repairs).toContain("strength: 15 → 10");
+    expect(repairs).toContain('keyLevels.support: "$64,850" → 64850');
+  });
+
+  test("rejects fields it cannot repair", () => {
+    const { value, errors } = validateTradingVerdict({
+      ...VERDICT_REPLY,
+      action: "maybe",
+      keyReason: undefined,
+    });
+
+    expect(value).toBeUndefined();
+    expect(errors).toEqual([
+      'action must be one of HOLD, LONG, SHORT, got "maybe"',
+      "keyReason is required",
+    ]);
+  });
+
+  test("describes the instrument and drops levels of the wrong magnitude", async () => {
+    const server = await startModelServer();
+
+    const result = await executeVisionAnalysis({
+      model: "openai-compatible:test-model",
+      baseUrl: server.baseUrl,
+      screenshotsDir: SCREENSHOTS_DIR,
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      symbol: "SOLUSD",
+      instrument: { maxLeverage: 50 },
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.error).toBeUndefined();
+    expect(result.instrument).toMatchObject({
+      symbol: "SOLUSD",
+      venue: "Jupiter Perps",
+      maxLeverage: 50,
+    });
+    expect(server.prompts).toHaveLength(4);
+    server.prompts.forEach((prompt) => {
+      expect(prompt).toContain("SOLUSD perpetual futures on Jupiter Perps");
+      expect(prompt).toContain("up to 50x leverage");
+      expect(prompt).not.toContain("BTCUSD");
+    });
+
+    // A Bitcoin-sized level on a Solana chart
+    expect(result.individualAnalyses[0]?.keyLevels.support).toBeUndefined();
+    expect(result.repairs?.[0]?.repairs).toContain(
+      "keyLevels.support: dropped 64850, outside the typical price range 3-3000"
+    );
+  });
+
+  test("asks the model again once with the validation errors", async () => {
+    const server = await startModelServer([
+      { ...DECISION_REPLY, action: "maybe" },
+    ]);
+
+    const result = await executeVisionAnalysis({
+      model: "openai-compatible:test-model",
+      baseUrl: server.baseUrl,
+      screenshotsDir: SCREENSHOTS_DIR,
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.error).toBeUndefined();
+    expect(result.tradingDecision?.action).toBe("hold");
+
+    const reask = server.prompts.find((prompt) =>
+      prompt.includes("Your previous reply was rejected")
+    );
+    expect(reask).toContain(
+      'action must be one of long, short, hold, close, got "maybe"'
+    );
+
+    expect(result.repairs).toEqual([
+      expect.objectContaining({ stage: "chart_analysis", timeframe: "5m" }),
+      {
+        stage: "multi_timeframe_decision",
+        repairs: [],
+        reaskedFor: [
+          'action must be one of long, short, hold, close, got "maybe"',
+        ],
+      },
+    ]);
+  });
+
+  test("fails the analysis when the second reply is still invalid", async () => {
+    const invalid = { ...DECISION_REPLY, action: "maybe" };
+    const server = await startModelServer([invalid, invalid]);
+
+    const result = await executeVisionAnalysis({
+      model: "openai-compatible:test-model",
+      baseUrl: server.baseUrl,
+      screenshotsDir: SCREENSHOTS_DIR,
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(
+      /Invalid multi_timeframe_decision reply after asking again/
+    );
+  });
+
+  test("sends a temperature of 0 as configured", async () => {
+    const server = await startModelServer();
+
+    const result = await executeVisionAnalysis({
+      model: "openai-compatible:test-model",
+      baseUrl: server.baseUrl,
+      temperature: 0,
+      screenshotsDir: SCREENSHOTS_DIR,
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.error).toBeUndefined();
+    // Chart, decision and comprehensive stages; the verdict always runs at 0.1
+    expect(server.temperatures).toEqual([0, 0, 0, 0.1]);
+  });
+
+  test("asks for JSON in the prompt when the model cannot call tools", async () => {
+    const server = await startModelServer([], false);
+
+    const result = await executeVisionAnalysis({
+      model: "openai-compatible:test-model",
+      baseUrl: server.baseUrl,
+      screenshotsDir: SCREENSHOTS_DIR,
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.error).toBeUndefined();
+    expect(result.finalVerdict?.action).toBe("HOLD");
+    // One rejected tool call, then every stage asks for JSON in the prompt
+    expect(server.prompts).toHaveLength(5);
+    expect(
+      server.prompts
+        .slice(1)
+        .every((prompt) =>
+          prompt.includes(
+            "Respond with only a JSON object matching this JSON schema"
+          )
+        )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  getPromptVersions,
+  loadPromptSet,
+  renderPrompt,
+} from "../src/features/prompt-templates";
+import { executeVisionAnalysis } from "../src/features/vision-analysis";
+
+/**
+ * Prompt set directory holding only the given templates
+ */
+const writePromptSet = (name: string, files: Record<string, string>) => {
+  const dir = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "prompts-")),
+    name
+  );
+  fs.mkdirSync(dir);
+  Object.entries(files).forEach(([file, contents]) =>
+    fs.writeFileSync(path.join(dir, file), contents)
+  );
+  return dir;
+};
+
+test.describe("Prompt templates", () => {
+  test("load the default set with an id and version per stage", () => {
+    const prompts = loadPromptSet();
+
+    expect(getPromptVersions(prompts).chart_analysis).toEqual({
+      id: "chart-analysis",
+      version: "3",
+      set: "default",
+    });
+
+    const prompt = renderPrompt(prompts.templates.chart_analysis, {
+      timeframe: "15m",
+      symbol: "ETHUSD",
+      market: "ETHUSD perpetual futures on Jupiter Perps",
+      contract: "perpetual futures",
+      instrument: "INSTRUMENT:\n- Symbol: ETHUSD",
+      indicators: "   - Volume analysis (high/medium/low)",
+      indicatorFormat: '{ "volume": "high|medium|low" }',
+      priorVerdict: "None (first analysis)",
+    });
+    expect(prompt).toContain(
+      "Analyze this 15m chart image for ETHUSD perpetual futures on Jupiter Perps trading."
+    );
+    expect(prompt).not.toMatch(/\{\{/);
+  });
+
+  test("record the alternate set used for an A/B run", async () => {
+    const dir = writePromptSet("terse-verdict", {
+      "final-verdict.md": [
+        "---",
+        "id: final-verdict-terse",
+        "version: 2",
+        "---",
+        "Give a verdict for {{market}}. Previous: {{priorVerdict}}",
+      ].join("\n"),
+    });
+
+    const result = await executeVisionAnalysis({
+      model: "offline",
+      promptSet: dir,
+      screenshotsDir: path.join(__dirname, "fixtures", "vision", "screenshots"),
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.prompts).toMatchObject({
+      chart_analysis: { id: "chart-analysis", set: "default" },
+      final_verdict: {
+        id: "final-verdict-terse",
+        version: "2",
+        set: "terse-verdict",
+      },
+    });
+  });
+
+  test("reject unknown variables when the set is loaded", () => {
+    const dir = writePromptSet("typo", {
+      "chart-analysis.md": "---\nid: chart\nversion: 1\n---\n{{timeFrame}}",
+    });
+
+    expect(() => loadPromptSet(dir)).toThrow(
+      /chart-analysis\.md uses unknown variables: timeFrame/
+    );
+    expect(() => loadPromptSet("no-such-set")).toThrow(
+      /Prompt set not found: no-such-set/
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { test, expect } from "@playwright/test";
+import {
+  getNextAllowedRun,
+  getUpcomingRuns,
+  isRunAllowed,
+  parseBlackoutWindow,
+  parseTimeWindow,
+  validateCandleAlignment,
+  validateScheduleSpec,
+} from "../src/features/schedule";
+
+test.describe("Schedule constraints", () => {
+  test("matches cron day fields like Vixie cron", () => {
+    // "*/2" leaves the day of month unrestricted: odd days that are Mondays
+    expect(
+      getNextAllowedRun(
+        { cron: "0 12 */2 * 1" },
+        new Date("2025-06-16T00:00:00Z")
+      ).toISOString()
+    ).toBe("2025-06-23T12:00:00.000Z");
+
+    // Both restricted: either day field may match
+    const firstOrMonday = { cron: "0 12 1 * 1" };
+    expect(
+      getNextAllowedRun(
+        firstOrMonday,
+        new Date("2025-06-16T13:00:00Z")
+      ).toISOString()
+    ).toBe("2025-06-23T12:00:00.000Z");
+    expect(
+      getNextAllowedRun(
+        firstOrMonday,
+        new Date("2025-06-30T13:00:00Z")
+      ).toISOString()
+    ).toBe("2025-07-01T12:00:00.000Z");
+
+    expect(() => validateScheduleSpec({ cron: "0 12 * *" })).toThrow(
+      "expected 5 fields"
+    );
+    expect(() => validateScheduleSpec({ cron: "0 25 * * *" })).toThrow(
+      'Invalid cron hour value "25" (allowed 0-23)'
+    );
+  });
+
+  test("only runs inside the windows, which may wrap midnight", () => {
+    const spec = { windows: [parseTimeWindow("22:00-02:00")] };
+
+    expect(isRunAllowed(spec, new Date("2025-06-18T23:30:00Z"))).toBe(true);
+    expect(isRunAllowed(spec, new Date("2025-06-18T01:59:00Z"))).toBe(true);
+    // The end is exclusive
+    expect(isRunAllowed(spec, new Date("2025-06-18T02:00:00Z"))).toBe(false);
+    expect(isRunAllowed(spec, new Date("2025-06-18T12:00:00Z"))).toBe(false);
+    expect(
+      getNextAllowedRun(spec, new Date("2025-06-18T12:00:00Z")).toISOString()
+    ).toBe("2025-06-18T22:00:00.000Z");
+
+    expect(() => parseTimeWindow("22:00")).toThrow("expected HH:MM-HH:MM");
+    expect(() =>
+      validateScheduleSpec({ windows: [{ start: "07:00", end: "07:00" }] })
+    ).toThrow("start and end are equal");
+  });
+
+  test("skips blackouts", () => {
+    const spec = {
+      blackouts: [
+        parseBlackoutWindow("2025-06-18T12:00:00Z/2025-06-18T14:30:00Z"),
+      ],
+    };
+
+    expect(isRunAllowed(spec, new Date("2025-06-18T13:00:00Z"))).toBe(false);
+    expect(isRunAllowed(spec, new Date("2025-06-18T14:30:00Z"))).toBe(true);
+    expect(
+      getNextAllowedRun(spec, new Date("2025-06-18T12:10:00Z")).toISOString()
+    ).toBe("2025-06-18T14:30:00.000Z");
+
+    expect(() => parseBlackoutWindow("2025-06-18T12:00:00Z")).toThrow(
+      "expected <start>/<end> ISO timestamps"
+    );
+    expect(() =>
+      validateScheduleSpec({
+        blackouts: [
+          { start: "2025-06-18T14:00:00Z", end: "2025-06-18T12:00:00Z" },
+        ],
+      })
+    ).toThrow("end must be after start");
+  });
+});
+
+test.describe("Schedule with candle alignment", () => {
+  test("moves on to the first cron slot on a candle close", () => {
+    const next = getNextAllowedRun(
+      { cron: "*/5 * * * *", windows: [{ start: "10:20", end: "22:00" }] },
+      new Date("2025-06-18T10:01:00Z"),
+      "15m"
+    );
+
+    expect(next.toISOString()).toBe("2025-06-18T10:30:00.000Z");
+  });
+
+  test("rejects a cron that never falls on a candle close", () => {
+    const schedule = { cron: "7 * * * *" };
+
+    expect(() =>
+      getNextAllowedRun(schedule, new Date("2025-06-18T10:01:00Z"), "15m")
+    ).toThrow(
+      "Schedule allows no run on a 15m candle close within the next year"
+    );
+    expect(() => validateCandleAlignment(schedule, "15m")).toThrow(
+      'Schedule "7 * * * *" never falls on a 15m candle close'
+    );
+    expect(() => validateCandleAlignment(schedule, "1m")).not.toThrow();
+  });
+
+  test("projects upcoming runs on candle closes", () => {
+    const runs = getUpcomingRuns(
+      { cron: "*/5 * * * *" },
+      new Date("2025-06-18T10:01:00Z"),
+      13,
+      3,
+      "15m"
+    );
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2025-06-18T10:15:00.000Z",
+      "2025-06-18T10:30:00.000Z",
+      "2025-06-18T10:45:00.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { test, expect } from "@playwright/test";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import {
+  CommitteeVote,
+  decideVerdict,
+} from "../src/features/verdict-committee";
+import {
+  executeVisionAnalysis,
+  TradingVerdict,
+} from "../src/features/vision-analysis";
+
+const vote = (
+  model: string,
+  action: TradingVerdict["action"],
+  confidence: number
+): CommitteeVote => ({
+  model,
+  verdict: {
+    action,
+    confidence,
+    positionSize: 10,
+    timeHorizon: "short",
+    riskLevel: "MEDIUM",
+    keyReason: `${model} reads ${action}`,
+    nextCheckMinutes: action === "HOLD" ? 30 : 10,
+    ...(action !== "HOLD" && {
+      entryPrice: 65000,
+      stopLoss: action === "LONG" ? 64000 : 66000,
+      takeProfit: action === "LONG" ? 68000 : 62000,
+    }),
+    criticalWarnings: [],
+  },
+});
+
+test.describe("Verdict committee", () => {
+  test("majority vote acts on its most confident supporter", () => {
+    const { verdict, committee } = decideVerdict([
+      vote("openai:gpt-4o", "LONG", 70),
+      vote("openai-compatible:llava", "SHORT", 90),
+      vote("openai:gpt-4o-mini", "LONG", 80),
+    ]);
+
+    expect(verdict).toMatchObject({
+      action: "LONG",
+      confidence: 80,
+      keyReason: "openai:gpt-4o-mini reads LONG",
+      criticalWarnings: [
+        "Committee dissent: openai-compatible:llava voted SHORT (90%): openai-compatible:llava reads SHORT",
+      ],
+    });
+    expect(committee).toMatchObject({
+      rule: "majority",
+      action: "LONG",
+      tally: { LONG: 2, SHORT: 1 },
+    });
+    expect(committee.votes).toHaveLength(3);
+  });
+
+  test("confidence weighting and unanimity change the decision", () => {
+    const votes = [
+      vote("a", "LONG", 30),
+      vote("b", "LONG", 30),
+      vote("c", "SHORT", 90),
+    ];
+
+    expect(decideVerdict(votes, "confidence-weighted").committee).toMatchObject(
+      { action: "SHORT", tally: { LONG: 60, SHORT: 90 } }
+    );
+
+    // Nobody voted HOLD, so the split committee holds without levels
+    const { verdict } = decideVerdict(votes, "unanimous-for-entry");
+    expect(verdict).toMatchObject({
+      action: "HOLD",
+      confidence: 30,
+      nextCheckMinutes: 10,
+    });
+    expect(verdict.entryPrice).toBeUndefined();
+    expect(verdict.criticalWarnings).toHaveLength(3);
+
+    expect(
+      decideVerdict([vote("a", "LONG", 80), vote("b", "SHORT", 80)]).verdict
+        .action
+    ).toBe("HOLD");
+  });
+
+  test("failed members count as dissent, not as votes", () => {
+    const { verdict, committee } = decideVerdict(
+      [vote("a", "SHORT", 60), { model: "b", error: "429 Too Many Requests" }],
+      "unanimous-for-entry"
+    );
+
+    expect(verdict.action).toBe("SHORT");
+    expect(committee.dissent).toEqual([
+      "Committee member b gave no verdict: 429 Too Many Requests",
+    ]);
+    expect(() => decideVerdict([{ model: "b", error: "down" }])).toThrow(
+      "No committee member gave a verdict"
+    );
+  });
+
+  test("records every member's vote of a committee run", async () => {
+    const result = await executeVisionAnalysis({
+      model: "offline",
+      committee: {
+        members: [{ model: "offline:first" }, { model: "offline:second" }],
+        rule: "unanimous-for-entry",
+      },
+      screenshotsDir: path.join(__dirname, "fixtures", "vision", "screenshots"),
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.committee?.votes.map((member) => member.model)).toEqual([
+      "offline:first",
+      "offline:second",
+    ]);
+    expect(result.committee?.dissent).toEqual([]);
+    expect(result.finalVerdict?.action).toBe(result.committee?.action);
+  });
+
+  test("tags repaired replies with the member that sent them", async () => {
+    // OpenAI-compatible member whose verdicts need fixing up
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const request = JSON.parse(body);
+        const verdict = {
+          ...vote("sloppy", "HOLD", 55).verdict,
+          action: "hold",
+        };
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            id: "chatcmpl-test",
+            object: "chat.completion",
+            created: 0,
+            model: request.model,
+            choices: [
+              {
+                index: 0,
+                message: {
+                  role: "assistant",
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: "call_1",
+                      type: "function",
+                      function: {
+                        name: request.tools[0].function.name,
+                        arguments: JSON.stringify(verdict),
+                      },
+                    },
+                  ],
+                },
+                finish_reason: "stop",
+              },
+            ],
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    const result = await executeVisionAnalysis({
+      model: "offline",
+      committee: {
+        members: [
+          { model: "offline:steady" },
+          {
+            model: "openai-compatible:sloppy",
+            baseUrl: `http://127.0.0.1:${port}/v1`,
+          },
+        ],
+      },
+      screenshotsDir: path.join(__dirname, "fixtures", "vision", "screenshots"),
+      timeframes: ["5m"],
+      cycleId: "fixture",
+      saveJson: false,
+      saveText: false,
+      soundEffects: false,
+    });
+    server.close();
+
+    expect(result.error).toBeUndefined();
+    expect(result.repairs).toEqual([
+      {
+        stage: "final_verdict",
+        model: "openai-compatible:sloppy",
+        repairs: [expect.stringContaining('"hold" → "HOLD"')],
+      },
+    ]);
+  });
+});
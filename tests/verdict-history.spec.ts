@@ -0,0 +1,94 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createCycleJournal } from "../src/features/cycle-journal";
+import {
+  addObservedPrice,
+  describeVerdictHistory,
+  readVerdictHistory,
+} from "../src/features/verdict-history";
+
+/**
+ * Journal of four completed cycles: LONG, HOLD, SHORT, then a price update
+ */
+const writeJournal = (): string => {
+  const journalPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "verdict-history-")),
+    "journal.jsonl"
+  );
+  const journal = createCycleJournal(journalPath);
+  const cycleEnd = (
+    cycleNumber: number,
+    price: number,
+    verdict?: Record<string, number | string>
+  ) =>
+    journal.append({
+      type: "cycle_end",
+      cycleNumber,
+      cycleId: `cycle-${cycleNumber}`,
+      success: true,
+      consecutiveFailures: 0,
+      price,
+      ...(verdict && {
+        verdict: {
+          confidence: 70,
+          nextCheckMinutes: 10,
+          ...verdict,
+        } as { action: string; confidence: number; nextCheckMinutes: number },
+      }),
+    });
+
+  cycleEnd(1, 65100, {
+    action: "LONG",
+    entryPrice: 65000,
+    stopLoss: 64700,
+    takeProfit: 65900,
+  });
+  cycleEnd(2, 64950, { action: "HOLD" });
+  cycleEnd(3, 64600, {
+    action: "SHORT",
+    entryPrice: 64600,
+    stopLoss: 65000,
+    takeProfit: 63800,
+  });
+  cycleEnd(4, 64500);
+  return journalPath;
+};
+
+test.describe("Verdict history", () => {
+  test("reads the last verdicts with the prices seen since each", () => {
+    const history = readVerdictHistory(writeJournal(), 2);
+
+    expect(history).toMatchObject([
+      { cycleId: "cycle-2", action: "HOLD", low: 64500, high: 64600 },
+      { cycleId: "cycle-3", action: "SHORT", price: 64600, low: 64500 },
+    ]);
+    expect(readVerdictHistory(writeJournal(), 0)).toEqual([]);
+  });
+
+  test("describes which levels later prices reached", () => {
+    const history = addObservedPrice(readVerdictHistory(writeJournal()), 63700);
+    const lines = describeVerdictHistory(history).split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(
+      /^- \d{4}-\d\d-\d\d \d\d:\d\d UTC LONG \(70%\), entry 65000, SL 64700, TP 65900: entry reached, stop loss hit$/
+    );
+    expect(lines[1]).toMatch(/UTC HOLD \(70%\)$/);
+    expect(lines[2]).toContain(
+      "SHORT (70%), entry 64600, SL 65000, TP 63800: entry reached, take profit hit"
+    );
+    expect(describeVerdictHistory([])).toBe("None (no earlier verdicts)");
+  });
+
+  test("waits for a later price before checking levels", () => {
+    const [latest] = readVerdictHistory(writeJournal(), 1);
+    const { low, high, price, ...fresh } = latest!;
+
+    expect(describeVerdictHistory([fresh])).toContain("levels not checked yet");
+    expect(describeVerdictHistory(addObservedPrice([fresh], 64550))).toContain(
+      "no level hit (price since: 64550-64550)"
+    );
+  });
+});
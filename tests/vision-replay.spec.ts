@@ -0,0 +1,125 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  executeVisionAnalysis,
+  VisionAnalysisConfig,
+} from "../src/features/vision-analysis";
+import { getFixtureKey } from "../src/features/vision-fixtures";
+import { VisionRequest } from "../src/features/vision-provider";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "vision");
+
+// Screenshots and replies recorded together; re-record both with --record
+const REPLAY_CONFIG: VisionAnalysisConfig = {
+  model: "gpt-4o",
+  screenshotsDir: path.join(FIXTURES_DIR, "screenshots"),
+  timeframes: ["5m", "1h"],
+  cycleId: "fixture",
+  soundEffects: false,
+};
+
+test.describe("Vision analysis record/replay", () => {
+  test("replays every stage from recorded fixtures", async () => {
+    const result = await executeVisionAnalysis({
+      ...REPLAY_CONFIG,
+      fixtures: { mode: "replay", dir: path.join(FIXTURES_DIR, "replies") },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+
+    // analyzeChartImage
+    expect(
+      result.individualAnalyses.map(({ timeframe, trend }) => [
+        timeframe,
+        trend,
+      ])
+    ).toEqual([
+      ["5m", "bullish"],
+      ["1h", "neutral"],
+    ]);
+
+    // makeMultiTimeframeDecision
+    expect(result.tradingDecision?.action).toBe("long");
+    expect(result.tradingDecision?.stopLoss).toBe(64700);
+
+    // generateComprehensiveAnalysis
+    expect(
+      result.comprehensiveAnalysis?.quantitativeMetrics.timeframeAlignment
+    ).toBe(6);
+
+    // generateFinalVerdict
+    expect(result.finalVerdict).toMatchObject({
+      action: "LONG",
+      confidence: 64,
+      nextCheckMinutes: 10,
+      criticalWarnings: ["Hourly resistance at 65800"],
+    });
+
+    // Replayed replies cost nothing
+    expect(result.totalCost).toBe(0);
+  });
+
+  test("records replies that replay to the same result", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vision-fixtures-"));
+    const config = { ...REPLAY_CONFIG, model: "offline" };
+
+    const recorded = await executeVisionAnalysis({
+      ...config,
+      fixtures: { mode: "record", dir },
+    });
+    expect(recorded.success).toBe(true);
+    expect(fs.readdirSync(dir)).toHaveLength(5);
+
+    const replayed = await executeVisionAnalysis({
+      ...config,
+      fixtures: { mode: "replay", dir },
+    });
+    expect(replayed.finalVerdict).toEqual(recorded.finalVerdict);
+    expect(replayed.individualAnalyses).toEqual(recorded.individualAnalyses);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("keys replies by sampling settings as well as the request", () => {
+    const request: VisionRequest = {
+      stage: "chart_analysis",
+      model: "gpt-4o",
+      prompt: "Analyze this chart",
+      images: [{ base64: "iVBORw0KGgo=", mimeType: "image/png" }],
+      temperature: 0.1,
+    };
+    const keyOf = (changes: Partial<VisionRequest>): string =>
+      getFixtureKey({ ...request, ...changes }).key;
+
+    const keys = [
+      keyOf({}),
+      keyOf({ temperature: 0.7 }),
+      keyOf({
+        images: [
+          { base64: "iVBORw0KGgo=", mimeType: "image/png", detail: "low" },
+        ],
+      }),
+      keyOf({ sample: 0 }),
+      keyOf({ sample: 1 }),
+    ];
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keyOf({ timeframe: "5m" })).toBe(keyOf({}));
+  });
+
+  test("fails with a fatal error when a reply was never recorded", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vision-fixtures-"));
+
+    const result = await executeVisionAnalysis({
+      ...REPLAY_CONFIG,
+      fixtures: { mode: "replay", dir },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No recorded response for chart_analysis/);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,109 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runAutoTrader, CycleRunner } from "../src/auto-trader";
+import { DEFAULT_CONFIG } from "../src/config/auto-trader-config";
+import { readJournalEntries } from "../src/features/cycle-journal";
+import { createTraderControl } from "../src/features/trader-control";
+import { TradingVerdict } from "../src/features/vision-analysis";
+
+const FAKE_VERDICT: TradingVerdict = {
+  action: "HOLD",
+  confidence: 60,
+  positionSize: 0,
+  timeHorizon: "short",
+  riskLevel: "LOW",
+  keyReason: "Fake pipeline verdict",
+  nextCheckMinutes: 60,
+  criticalWarnings: [],
+};
+
+const WATCHLIST = ["SOLUSD", "ETHUSD", "BTCUSD"].map((symbol) => ({
+  symbol,
+  url: `https://jup.ag/perps/${symbol}`,
+}));
+
+test.describe("Watchlist", () => {
+  test("runs isolated lanes within the concurrency limit", async () => {
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || "test-key";
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "watchlist-"));
+
+    // Stand-in pipeline that is slow enough to overlap, and broken for ETH
+    let active = 0;
+    let maxActive = 0;
+    const runCycle: CycleRunner = async ({ config, cycleId }) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      active--;
+
+      if (config.capture.symbol === "ETHUSD") {
+        return { success: false, fatal: true, cycleId, error: "Chart broke" };
+      }
+      return { success: true, cycleId, verdict: FAKE_VERDICT };
+    };
+
+    const control = createTraderControl();
+    const running = runAutoTrader(
+      {
+        ...DEFAULT_CONFIG,
+        watchlist: WATCHLIST,
+        maxConcurrentSymbols: 2,
+        journalPath: path.join(tempDir, "journal.jsonl"),
+        costLedgerPath: path.join(tempDir, "cost-ledger.jsonl"),
+      },
+      undefined,
+      { runCycle, control }
+    );
+    const lanes = () =>
+      Object.fromEntries(
+        control
+          .getStatus()
+          .lanes.map(
+            ({ symbol, state, cyclesCompleted, consecutiveFailures }) => [
+              symbol,
+              { state, cyclesCompleted, consecutiveFailures },
+            ]
+          )
+      );
+
+    try {
+      await expect.poll(lanes).toEqual({
+        SOLUSD: {
+          state: "waiting",
+          cyclesCompleted: 1,
+          consecutiveFailures: 0,
+        },
+        ETHUSD: {
+          state: "stopped",
+          cyclesCompleted: 0,
+          consecutiveFailures: 1,
+        },
+        BTCUSD: {
+          state: "waiting",
+          cyclesCompleted: 1,
+          consecutiveFailures: 0,
+        },
+      });
+      expect(maxActive).toBe(2);
+
+      // Every symbol keeps its own journal
+      const ethJournal = readJournalEntries(
+        path.join(tempDir, "journal-ethusd.jsonl")
+      );
+      expect(
+        ethJournal.find((entry) => entry.type === "cycle_end")
+      ).toMatchObject({ success: false, error: "Chart broke" });
+      expect(
+        readJournalEntries(path.join(tempDir, "journal-solusd.jsonl")).find(
+          (entry) => entry.type === "cycle_end"
+        )
+      ).toMatchObject({ success: true, consecutiveFailures: 0 });
+    } finally {
+      control.command("stop", "test");
+      await running;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});